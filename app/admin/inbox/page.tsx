@@ -0,0 +1,325 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Ticket = {
+  ticket_id: string;
+  type: "consultation" | "application";
+  status: "open" | "resolved";
+  case_id: string;
+  line_user_id: string;
+  message: string | null;
+  replies: { text: string; sent_at: string }[];
+  created_at: string;
+  updated_at: string;
+  resolved_at: string | null;
+};
+
+type TicketCase = {
+  case_id: string;
+  display_title: string | null;
+  result: {
+    property_name?: string;
+    room_number?: string;
+    total_original?: number;
+    total_fair?: number;
+    discount_amount?: number;
+    risk_score?: number;
+    is_secret_mode?: boolean;
+    items?: Array<{ name: string; price_original: number | null; price_fair: number | null; status: string; reason: string }>;
+  } | null;
+};
+
+type Filter = "open" | "resolved" | "all";
+
+const TOKEN_STORAGE_KEY = "adminToken";
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: "open", label: "未対応" },
+  { value: "resolved", label: "対応済み" },
+  { value: "all", label: "すべて" },
+];
+
+const TICKET_TYPE_LABELS: Record<Ticket["type"], string> = {
+  consultation: "相談",
+  application: "申し込み希望",
+};
+
+const ITEM_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  cut: { label: "削除推奨", className: "bg-red-100 text-red-700" },
+  negotiable: { label: "交渉可", className: "bg-orange-100 text-orange-700" },
+  warning: { label: "要確認", className: "bg-yellow-100 text-yellow-700" },
+  requires_confirmation: { label: "要確認", className: "bg-yellow-100 text-yellow-700" },
+  fair: { label: "適正", className: "bg-emerald-100 text-emerald-700" },
+};
+
+const yen = (value: number | null | undefined) => (value == null ? "不明" : `¥${value.toLocaleString()}`);
+const dateTime = (value: string) => new Date(value).toLocaleString("ja-JP");
+
+export default function AdminInboxPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState("");
+  const [filter, setFilter] = useState<Filter>("open");
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [selected, setSelected] = useState<{ ticket: Ticket; case: TicketCase | null } | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_STORAGE_KEY));
+  }, []);
+
+  const request = useCallback(
+    async (query: string, init?: { method: string; body: unknown }) => {
+      const res = await fetch(`/api/admin/tickets${query}`, {
+        method: init?.method ?? "GET",
+        headers: { "Content-Type": "application/json", "x-admin-token": token ?? "" },
+        body: init ? JSON.stringify(init.body) : undefined,
+      });
+      const data = await res.json();
+      if (res.status === 401) {
+        sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+        setToken(null);
+      }
+      if (!res.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || "通信に失敗しました");
+      }
+      return data;
+    },
+    [token]
+  );
+
+  const loadTickets = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await request(filter === "all" ? "" : `?status=${filter}`);
+      setTickets(data.tickets);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "通信に失敗しました");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter, request]);
+
+  useEffect(() => {
+    if (token) loadTickets();
+  }, [token, loadTickets]);
+
+  const openTicket = async (ticketId: string) => {
+    setError(null);
+    setReplyText("");
+    try {
+      setSelected(await request(`?id=${encodeURIComponent(ticketId)}`));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "通信に失敗しました");
+    }
+  };
+
+  const updateTicket = async (init: { method: string; body: unknown }) => {
+    if (!selected) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await request(`?id=${encodeURIComponent(selected.ticket.ticket_id)}`, init);
+      setSelected({ ...selected, ticket: data.ticket });
+      setTickets((current) => current.map((t) => (t.ticket_id === data.ticket.ticket_id ? data.ticket : t)));
+      return true;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "通信に失敗しました");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sendReply = async () => {
+    if (await updateTicket({ method: "POST", body: { text: replyText } })) {
+      setReplyText("");
+    }
+  };
+
+  const saveToken = () => {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput);
+    setToken(tokenInput);
+    setTokenInput("");
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-dvh bg-[#f5f7fb] text-slate-900 p-6">
+        <div className="max-w-sm mx-auto bg-white rounded-2xl shadow-lg border border-slate-200 p-5 mt-20">
+          <h1 className="text-lg font-black mb-4">スタッフ用 受付箱</h1>
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm mb-4"
+            placeholder="管理トークン"
+          />
+          <button
+            onClick={saveToken}
+            disabled={!tokenInput}
+            className="w-full bg-slate-800 text-white font-bold py-3 rounded-xl disabled:opacity-50"
+          >
+            ログイン
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const result = selected?.case?.result;
+
+  return (
+    <div className="min-h-dvh bg-[#f5f7fb] text-slate-900 p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-black">スタッフ用 受付箱</h1>
+          <button onClick={loadTickets} disabled={isLoading} className="text-sm text-blue-600 disabled:opacity-50">
+            再読み込み
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_3fr] gap-4">
+          <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-4">
+            <div className="flex gap-2 mb-3">
+              {FILTERS.map((f) => (
+                <button
+                  key={f.value}
+                  onClick={() => setFilter(f.value)}
+                  className={`px-3 py-1 rounded-lg text-sm border ${
+                    filter === f.value ? "bg-blue-600 text-white border-blue-600" : "bg-white text-slate-700 border-slate-200"
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            {tickets.length === 0 && <p className="text-sm text-slate-500">{isLoading ? "読み込み中..." : "チケットはありません。"}</p>}
+            <div className="space-y-2">
+              {tickets.map((ticket) => (
+                <button
+                  key={ticket.ticket_id}
+                  onClick={() => openTicket(ticket.ticket_id)}
+                  className={`w-full text-left rounded-lg border p-3 text-sm ${
+                    selected?.ticket.ticket_id === ticket.ticket_id ? "border-blue-500 bg-blue-50" : "border-slate-200 hover:border-blue-300"
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-bold">{TICKET_TYPE_LABELS[ticket.type]}</span>
+                    <span className={`text-xs ${ticket.status === "open" ? "text-orange-600" : "text-slate-400"}`}>
+                      {ticket.status === "open" ? "未対応" : "対応済み"}
+                    </span>
+                  </div>
+                  <div className="text-slate-600 truncate">{ticket.message ?? "（申し込みを希望しています）"}</div>
+                  <div className="text-xs text-slate-400 mt-1">{dateTime(ticket.created_at)}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-5">
+            {!selected && <p className="text-sm text-slate-500">チケットを選択してください。</p>}
+            {selected && (
+              <div className="space-y-5 text-sm">
+                <div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-lg font-black">{TICKET_TYPE_LABELS[selected.ticket.type]}</div>
+                    <button
+                      onClick={() =>
+                        updateTicket({ method: "PATCH", body: { status: selected.ticket.status === "open" ? "resolved" : "open" } })
+                      }
+                      disabled={isLoading}
+                      className={`px-3 py-1 rounded-lg text-sm font-bold disabled:opacity-50 ${
+                        selected.ticket.status === "open" ? "bg-emerald-600 text-white" : "bg-slate-100 text-slate-700"
+                      }`}
+                    >
+                      {selected.ticket.status === "open" ? "対応済みにする" : "未対応に戻す"}
+                    </button>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {dateTime(selected.ticket.created_at)} ・ LINE: {selected.ticket.line_user_id} ・ 案件: {selected.ticket.case_id}
+                  </div>
+                  {selected.ticket.message && (
+                    <div className="mt-3 rounded-lg bg-slate-50 border border-slate-200 p-3 whitespace-pre-wrap">{selected.ticket.message}</div>
+                  )}
+                </div>
+
+                <div>
+                  <div className="font-bold mb-2">診断結果</div>
+                  {!result && <p className="text-slate-500">案件が見つかりません（有効期限切れの可能性があります）。</p>}
+                  {result?.is_secret_mode && <p className="text-slate-500">スペシャル診断（裏コマンド）の案件です。</p>}
+                  {result && !result.is_secret_mode && (
+                    <div className="space-y-2">
+                      <div className="font-bold">
+                        {result.property_name || "物件名不明"} {result.room_number}
+                      </div>
+                      <div className="grid grid-cols-2 gap-1 text-slate-600">
+                        <div>見積書合計: {yen(result.total_original)}</div>
+                        <div>適正価格: {yen(result.total_fair)}</div>
+                        <div className="text-red-600 font-bold">削減可能額: {yen(result.discount_amount)}</div>
+                        <div>リスクスコア: {result.risk_score ?? 0}</div>
+                      </div>
+                      <table className="w-full text-xs mt-2">
+                        <tbody>
+                          {result.items?.map((item, index) => {
+                            const status = ITEM_STATUS_LABELS[item.status] ?? ITEM_STATUS_LABELS.requires_confirmation;
+                            return (
+                              <tr key={index} className="border-t border-slate-100 align-top">
+                                <td className="py-2 pr-2">
+                                  <span className={`px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+                                </td>
+                                <td className="py-2 pr-2">
+                                  <div className="font-bold">{item.name}</div>
+                                  <div className="text-slate-500">{item.reason}</div>
+                                </td>
+                                <td className="py-2 text-right whitespace-nowrap">
+                                  {yen(item.price_original)}
+                                  {(item.status === "negotiable" || item.status === "cut") && (
+                                    <div className="text-slate-500">→ {yen(item.status === "cut" ? 0 : item.price_fair)}</div>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <div className="font-bold mb-2">LINEで返信</div>
+                  {selected.ticket.replies.map((reply, index) => (
+                    <div key={index} className="rounded-lg bg-emerald-50 border border-emerald-100 p-3 mb-2 whitespace-pre-wrap">
+                      {reply.text}
+                      <div className="text-xs text-slate-400 mt-1">{dateTime(reply.sent_at)}</div>
+                    </div>
+                  ))}
+                  <textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    rows={4}
+                    className="w-full px-3 py-2 rounded-lg border border-slate-200"
+                    placeholder="ユーザーへの返信（LINEのトークに送信されます）"
+                  />
+                  <button
+                    onClick={sendReply}
+                    disabled={isLoading || !replyText.trim()}
+                    className="mt-2 w-full bg-[#06C755] text-white font-bold py-2 rounded-xl disabled:opacity-50"
+                  >
+                    {isLoading ? "送信中..." : "LINEで送信"}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
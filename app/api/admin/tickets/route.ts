@@ -0,0 +1,124 @@
+/**
+ * スタッフ対応のチケットAPI（運用向け、/admin/inbox から使う）
+ *
+ * GET   /api/admin/tickets?status=open|resolved  Output: { tickets }（status省略時はすべて）
+ * GET   /api/admin/tickets?id=xxx  Output: { ticket, case }（case: 紐づく案件の診断結果。期限切れなら null）
+ * POST  /api/admin/tickets?id=xxx  Input: { text }  Output: { ticket }（LINEでユーザーに返信）
+ * PATCH /api/admin/tickets?id=xxx  Input: { status: "open" | "resolved" }  Output: { ticket }
+ *
+ * チケットはLINEで「相談したい」→ 相談内容の送信、「申し込みをしたい」のときに作成される
+ * （lib/line-webhook-events.ts）。同じユーザー・案件・種類の未対応チケットがあれば、そのチケットに追記される。
+ * Headers: x-admin-token（ADMIN_TOKEN と一致すること。未設定の場合は使用不可。lib/admin-auth.ts）
+ */
+
+import { NextResponse } from "next/server";
+import {
+  addSupportTicketReply,
+  getCase,
+  getSupportTicket,
+  listSupportTickets,
+  setSupportTicketStatus,
+  type SupportTicket,
+} from "@/lib/kv";
+import { createLineClient } from "@/lib/line-client";
+import { authorizeAdmin } from "@/lib/admin-auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** LINEのテキストメッセージの上限 */
+const MAX_REPLY_LENGTH = 5000;
+
+const TICKET_STATUSES: SupportTicket["status"][] = ["open", "resolved"];
+
+export async function GET(req: Request) {
+  const unauthorized = authorizeAdmin(req);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const ticketId = params.get("id");
+
+    if (!ticketId) {
+      const status = params.get("status");
+      const tickets = await listSupportTickets(
+        TICKET_STATUSES.includes(status as SupportTicket["status"]) ? (status as SupportTicket["status"]) : undefined
+      );
+      return NextResponse.json({ tickets });
+    }
+
+    const ticket = await getSupportTicket(ticketId);
+    if (!ticket) {
+      return NextResponse.json({ error: "チケットが見つかりません" }, { status: 404 });
+    }
+    const caseData = await getCase(ticket.case_id);
+    return NextResponse.json({
+      ticket,
+      case: caseData
+        ? { case_id: caseData.case_id, display_title: caseData.display_title ?? null, result: caseData.result }
+        : null,
+    });
+  } catch (error: any) {
+    console.error("Admin tickets GET Error:", error);
+    return NextResponse.json({ error: "チケットの取得に失敗しました", details: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const unauthorized = authorizeAdmin(req);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const ticket = await findTicket(req);
+    if (ticket instanceof NextResponse) return ticket;
+
+    const body = await req.json().catch(() => ({}));
+    const text = typeof body?.text === "string" ? body.text.trim() : "";
+    if (!text || text.length > MAX_REPLY_LENGTH) {
+      return NextResponse.json(
+        { error: `返信は1〜${MAX_REPLY_LENGTH}文字で入力してください` },
+        { status: 400 }
+      );
+    }
+
+    await createLineClient().pushMessage(ticket.line_user_id, { type: "text", text });
+    const updated = await addSupportTicketReply(ticket.ticket_id, text);
+    return NextResponse.json({ ticket: updated });
+  } catch (error: any) {
+    console.error("Admin tickets POST Error:", error);
+    return NextResponse.json({ error: "LINEでの返信に失敗しました", details: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request) {
+  const unauthorized = authorizeAdmin(req);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const ticket = await findTicket(req);
+    if (ticket instanceof NextResponse) return ticket;
+
+    const body = await req.json().catch(() => ({}));
+    if (!TICKET_STATUSES.includes(body?.status)) {
+      return NextResponse.json({ error: "status は open か resolved で指定してください" }, { status: 400 });
+    }
+
+    const updated = await setSupportTicketStatus(ticket.ticket_id, body.status);
+    return NextResponse.json({ ticket: updated });
+  } catch (error: any) {
+    console.error("Admin tickets PATCH Error:", error);
+    return NextResponse.json({ error: "チケットの更新に失敗しました", details: error.message }, { status: 500 });
+  }
+}
+
+async function findTicket(req: Request): Promise<SupportTicket | NextResponse> {
+  const ticketId = new URL(req.url).searchParams.get("id");
+  if (!ticketId) {
+    return NextResponse.json({ error: "チケットIDが必要です" }, { status: 400 });
+  }
+  const ticket = await getSupportTicket(ticketId);
+  if (!ticket) {
+    return NextResponse.json({ error: "チケットが見つかりません" }, { status: 404 });
+  }
+  return ticket;
+}
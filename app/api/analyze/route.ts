@@ -1,8 +1,9 @@
 /**
  * 賃貸初期費用診断 API
  * 
- * シンプル版 + 裏コマンド機能:
- * - 見積書/図面の場合 → 通常の診断
+ * 抽出→診断パイプライン + 裏コマンド機能:
+ * - 見積書/図面の場合 → 抽出（Gemini → ExtractedFacts）→ 検証（不確実な項目のみ再読み取り）→ 診断（lib/diagnosis.ts）
+ *   パイプライン本体は lib/document-analysis.ts（LINEの画像受信と共通）
  * - 関係ない画像の場合 → 特別な診断（占い/褒め倒し）
  * 
  * 【重要】このAPIはGemini APIに画像を送信する前に、
@@ -12,13 +13,25 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextResponse } from "next/server";
 import {
-  createImagePart,
   buildGeminiContent,
   debugGeminiContent,
-  containsNonAscii,
-  GeminiImagePart,
   GeminiContentPart,
 } from "@/lib/gemini-utils";
+import {
+  MAX_DOCUMENT_PAGES,
+  filesToPages,
+  getUploadFiles,
+  validateUploadFile,
+  type DocumentPage,
+} from "@/lib/document-pages";
+import {
+  buildDocumentParts,
+  classifyDocumentImage,
+  createAnalysisModel,
+  diagnoseDocumentParts,
+  validateContentBeforeApiCall,
+  type DocumentParts,
+} from "@/lib/document-analysis";
 
 export const maxDuration = 60;
 
@@ -33,286 +46,6 @@ if (!GEMINI_API_KEY) {
 
 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY || "");
 
-/**
- * 【ガード関数】Gemini APIを呼び出す前の最終チェック
- * 不正なデータを検出した場合は400エラーを返す
- */
-function validateContentBeforeApiCall(content: GeminiContentPart[]): { valid: boolean; error?: string } {
-  for (let i = 0; i < content.length; i++) {
-    const part = content[i];
-    
-    // 【最重要】パーツがオブジェクト形式であることを確認
-    if (!part || typeof part !== "object" || Array.isArray(part)) {
-      return { 
-        valid: false, 
-        error: `パーツ[${i}]: オブジェクト形式ではありません（型: ${typeof part}, Array: ${Array.isArray(part)}）` 
-      };
-    }
-    
-    if ("inlineData" in part) {
-      // 画像パーツの検証
-      const data = part.inlineData.data;
-      
-      // 型チェック
-      if (typeof data !== "string") {
-        return { 
-          valid: false, 
-          error: `パーツ[${i}]: dataが文字列ではありません（型: ${typeof data}）` 
-        };
-      }
-      
-      // 空チェック
-      if (data.length === 0) {
-        return { 
-          valid: false, 
-          error: `パーツ[${i}]: dataが空です` 
-        };
-      }
-      
-      // 非ASCIIチェック（最重要）
-      if (containsNonAscii(data)) {
-        const firstNonAsciiIndex = data.split("").findIndex((char) => char.charCodeAt(0) > 127);
-        const charCode = data.charCodeAt(firstNonAsciiIndex);
-        const char = data.charAt(firstNonAsciiIndex);
-        return { 
-          valid: false, 
-          error: `パーツ[${i}]: Base64データに非ASCII文字を検出。位置=${firstNonAsciiIndex}, コード=${charCode}, 文字="${char}"。プロンプトテキストが画像データに混入しています。` 
-        };
-      }
-    } else if ("text" in part) {
-      // 【最重要】テキストパーツが { text: string } 形式であることを確認
-      if (typeof part.text !== "string") {
-        return { 
-          valid: false, 
-          error: `パーツ[${i}]: textが文字列ではありません（型: ${typeof part.text}）` 
-        };
-      }
-      
-      // 生の文字列でないことを確認（undiciの_Headers.appendエラーを防ぐ）
-      if (part.constructor === String || typeof part === "string") {
-        return { 
-          valid: false, 
-          error: `パーツ[${i}]: 生の文字列です。必ず { text: string } オブジェクト形式にしてください` 
-        };
-      }
-    } else {
-      return { 
-        valid: false, 
-        error: `パーツ[${i}]: 無効な形式です（inlineDataもtextもありません）` 
-      };
-    }
-  }
-  
-  return { valid: true };
-}
-
-const FIRE_INSURANCE_REGEX = /(火災保険|家財保険|借家人賠償|住宅総合保険)/;
-const KEY_EXCHANGE_REGEX = /(鍵交換|キー交換|シリンダー交換|鍵交換代|鍵交換費|鍵交換台)/;
-const FLYER_MISSING_REGEX = /(図面|募集図面|マイソク)[\s\S]{0,30}(記載なし|記載がない|未記載|見当たらない|確認できない|なし)/;
-const FLYER_PRESENT_REGEX = /(図面|募集図面|マイソク)[\s\S]{0,30}(記載あり|記載があり|記載を確認|明記|記載有)/;
-
-const normalizeNumberText = (text: string): string => {
-  return text
-    .replace(/[０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xfee0))
-    .replace(/[，]/g, ",")
-    .replace(/円/g, "")
-    .trim();
-};
-
-const toNumberOrNull = (value: unknown): number | null => {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string") {
-    const normalized = normalizeNumberText(value).replace(/,/g, "");
-    if (!normalized) return null;
-    const parsed = Number(normalized);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
-const toNonNegative = (value: unknown, fallback = 0): number => {
-  const num = toNumberOrNull(value);
-  if (num === null || num < 0) return fallback;
-  return num;
-};
-
-const formatYen = (value: number): string => {
-  return Math.round(value).toLocaleString("ja-JP");
-};
-
-const extractPricesFromText = (text: string): number[] => {
-  if (!text) return [];
-  const normalized = normalizeNumberText(text);
-  const matches = normalized.match(/([0-9]{1,3}(?:,[0-9]{3})+|[0-9]{3,7})\s*/g) || [];
-  return matches
-    .map((raw) => Number(raw.replace(/,/g, "").trim()))
-    .filter((num) => Number.isFinite(num) && num > 0);
-};
-
-const inferFlyerListed = (item: any): boolean | null => {
-  if (typeof item?.listed_in_flyer === "boolean") {
-    return item.listed_in_flyer;
-  }
-  const text = `${item?.reason ?? ""}\n${item?.evidence?.source_description ?? ""}`;
-  if (!text.trim()) return null;
-  if (FLYER_MISSING_REGEX.test(text)) return false;
-  if (FLYER_PRESENT_REGEX.test(text)) return true;
-  return null;
-};
-
-const extractFlyerPrice = (item: any): number | null => {
-  const explicit = toNumberOrNull(item?.flyer_price);
-  if (explicit !== null && explicit > 0) return explicit;
-
-  const text = `${item?.reason ?? ""}\n${item?.evidence?.source_description ?? ""}`;
-  const contextualMatch = text.match(/(?:図面|募集図面|マイソク)[^0-9]{0,20}([0-9０-９,，]{3,9})\s*円?/);
-  if (contextualMatch?.[1]) {
-    const contextualPrice = toNumberOrNull(contextualMatch[1]);
-    if (contextualPrice !== null && contextualPrice > 0) return contextualPrice;
-  }
-
-  const candidates = extractPricesFromText(text);
-  if (candidates.length === 0) return null;
-  const original = toNumberOrNull(item?.price_original);
-  if (original !== null) {
-    const cheaperCandidates = candidates.filter((price) => price < original);
-    if (cheaperCandidates.length > 0) {
-      return Math.min(...cheaperCandidates);
-    }
-  }
-  return Math.min(...candidates);
-};
-
-const isFireInsuranceItem = (item: any): boolean => {
-  return item?.is_insurance === true || FIRE_INSURANCE_REGEX.test(String(item?.name ?? ""));
-};
-
-const isKeyExchangeItem = (item: any): boolean => {
-  return KEY_EXCHANGE_REGEX.test(String(item?.name ?? ""));
-};
-
-const recalculateTotals = (json: any) => {
-  if (!Array.isArray(json?.items)) return;
-
-  const normalizeStatus = (status: unknown): string => String(status ?? "").toLowerCase();
-
-  const itemsOriginalTotal = json.items.reduce((sum: number, item: any) => {
-    return sum + toNonNegative(item?.price_original);
-  }, 0);
-
-  const warningAmount = json.items.reduce((sum: number, item: any) => {
-    return normalizeStatus(item?.status) === "warning"
-      ? sum + toNonNegative(item?.price_original)
-      : sum;
-  }, 0);
-
-  const discountAmount = json.items.reduce((sum: number, item: any) => {
-    const status = normalizeStatus(item?.status);
-    const original = toNonNegative(item?.price_original);
-    const fair = toNonNegative(item?.price_fair, original);
-
-    if (status === "cut") {
-      return sum + original;
-    }
-    if (status === "negotiable") {
-      return sum + Math.max(0, original - fair);
-    }
-    return sum;
-  }, 0);
-
-  // 画面に表示される項目合計と整合させるため、itemsの合計を優先する
-  const totalOriginal = itemsOriginalTotal > 0
-    ? itemsOriginalTotal
-    : toNonNegative(json?.total_original, 0);
-  const totalFair = Math.max(0, totalOriginal - discountAmount);
-  const riskScore = totalOriginal > 0
-    ? Math.min(100, Math.round((discountAmount / totalOriginal) * 100))
-    : 0;
-
-  json.total_original = totalOriginal;
-  json.total_fair = totalFair;
-  json.discount_amount = discountAmount;
-  json.warning_amount = warningAmount;
-  json.risk_score = riskScore;
-};
-
-const applyFlyerPriorityRules = (json: any, hasFlyerUpload: boolean) => {
-  if (!Array.isArray(json?.items)) return;
-
-  json.items = json.items.map((item: any) => {
-    const original = toNonNegative(item?.price_original);
-    const baseReason = typeof item?.reason === "string" ? item.reason : "";
-    const mergedText = `${baseReason}\n${item?.evidence?.source_description ?? ""}`;
-    const listedInFlyer = inferFlyerListed(item);
-    const flyerPrice = extractFlyerPrice(item);
-    const hasMissingFlyerHint = FLYER_MISSING_REGEX.test(mergedText);
-    const hasNullOriginal = item?.price_original === null;
-    const normalizedStatus = String(item?.status ?? "").toLowerCase();
-
-    const nextItem = {
-      ...item,
-      price_original: original,
-      requires_confirmation: hasNullOriginal,
-      reason: hasNullOriginal
-        ? `${baseReason || "金額の読み取りが不完全です"}（※読み取り要確認）`
-        : baseReason,
-      listed_in_flyer: listedInFlyer
-    };
-
-    if (!hasFlyerUpload) {
-      // 図面未アップロード時は鍵交換代を削減可能扱いにしない
-      if (
-        isKeyExchangeItem(nextItem) &&
-        (normalizedStatus === "cut" || normalizedStatus === "negotiable" || normalizedStatus === "warning")
-      ) {
-        nextItem.status = "warning";
-        nextItem.price_fair = original;
-        nextItem.reason = "図面が未アップロードのため、鍵交換代の妥当性は要確認です。管理会社への確認後に判断してください。";
-        nextItem.requires_confirmation = true;
-        nextItem.listed_in_flyer = null;
-        nextItem.flyer_price = null;
-      }
-      return nextItem;
-    }
-
-    // 図面に記載された火災保険の方が安い場合は、図面価格を適正額として優先する。
-    if (
-      isFireInsuranceItem(nextItem) &&
-      flyerPrice !== null &&
-      flyerPrice > 0 &&
-      original > flyerPrice
-    ) {
-      nextItem.status = "negotiable";
-      nextItem.price_fair = flyerPrice;
-      nextItem.reason = `募集図面の火災保険料（¥${formatYen(flyerPrice)}）の方が安いため、図面金額を適正額として差額分を削減可能額に反映しました。`;
-      nextItem.requires_confirmation = false;
-      nextItem.is_insurance = true;
-      nextItem.listed_in_flyer = true;
-      nextItem.flyer_price = flyerPrice;
-      return nextItem;
-    }
-
-    // 鍵交換代が見積にのみあり図面に記載がない場合は、削減交渉対象として扱う。
-    const keyExchangeMissingInFlyer = isKeyExchangeItem(nextItem) && (
-      listedInFlyer === false ||
-      hasMissingFlyerHint
-    );
-    if (keyExchangeMissingInFlyer && original > 0) {
-      nextItem.status = "negotiable";
-      nextItem.price_fair = 0;
-      nextItem.reason = "募集図面に鍵交換代の記載が見当たらないため、見積書への上乗せの可能性があります。削減交渉の対象です。";
-      nextItem.requires_confirmation = true;
-      nextItem.listed_in_flyer = false;
-      nextItem.flyer_price = null;
-      return nextItem;
-    }
-
-    return nextItem;
-  });
-};
-
 export async function POST(req: Request) {
   try {
     // APIキーの再確認（リクエスト時）
@@ -325,211 +58,86 @@ export async function POST(req: Request) {
     }
 
     const formData = await req.formData();
-    const estimateFile = formData.get("estimate") as File | null;
-    const planFile = formData.get("plan") as File | null;
-    const conditionFile = formData.get("condition") as File | null;
+    // 各欄とも複数ファイル（複数枚の写真・PDF）に対応
+    const estimateFiles = getUploadFiles(formData, "estimate");
+    const planFiles = getUploadFiles(formData, "plan");
+    const conditionFiles = getUploadFiles(formData, "condition");
 
-    if (!estimateFile) {
+    if (estimateFiles.length === 0) {
       return NextResponse.json({ error: "見積書の画像が必要です" }, { status: 400 });
     }
 
-    // ファイルサイズの検証
-    if (estimateFile.size > 20 * 1024 * 1024) {
-      return NextResponse.json({ error: "見積書の画像サイズが大きすぎます（20MB以下にしてください）" }, { status: 400 });
-    }
-    if (planFile && planFile.size > 20 * 1024 * 1024) {
-      return NextResponse.json({ error: "募集図面の画像サイズが大きすぎます（20MB以下にしてください）" }, { status: 400 });
-    }
-    if (conditionFile && conditionFile.size > 20 * 1024 * 1024) {
-      return NextResponse.json({ error: "条件欄の画像サイズが大きすぎます（20MB以下にしてください）" }, { status: 400 });
-    }
-
-    // ファイルタイプの検証
-    if (!estimateFile.type.startsWith('image/')) {
-      return NextResponse.json({ error: "見積書は画像ファイルである必要があります" }, { status: 400 });
-    }
-    if (planFile && !planFile.type.startsWith('image/')) {
-      return NextResponse.json({ error: "募集図面は画像ファイルである必要があります" }, { status: 400 });
-    }
-    if (conditionFile && !conditionFile.type.startsWith('image/')) {
-      return NextResponse.json({ error: "条件欄は画像ファイルである必要があります" }, { status: 400 });
+    // ファイルサイズ・タイプの検証（画像またはPDF）
+    const uploadSlots = [
+      { files: estimateFiles, label: "見積書" },
+      { files: planFiles, label: "募集図面" },
+      { files: conditionFiles, label: "条件欄" },
+    ];
+    for (const { files, label } of uploadSlots) {
+      for (const file of files) {
+        const uploadError = validateUploadFile(file, label);
+        if (uploadError) {
+          return NextResponse.json({ error: uploadError }, { status: 400 });
+        }
+      }
     }
 
     const primaryModel = process.env.GEMINI_MODEL_NAME || "gemini-2.5-pro";
-    
-    const hasFlyer = !!planFile || !!conditionFile;
 
+    const describeFiles = (files: File[]) =>
+      files.length > 0 ? `✅ ${files.map((file) => `${file.name} (${file.size} bytes)`).join(", ")}` : "なし";
     console.log("🔧 設定確認:");
     console.log("  - 使用モデル:", primaryModel);
     console.log("  - APIキー設定:", GEMINI_API_KEY ? `✅ 設定済み (${GEMINI_API_KEY.substring(0, 10)}...)` : "❌ 未設定");
-    console.log("  - 見積書ファイル:", estimateFile ? `✅ ${estimateFile.name} (${estimateFile.size} bytes)` : "❌ なし");
-    console.log("  - 図面ファイル:", planFile ? `✅ ${planFile.name} (${planFile.size} bytes)` : "なし");
-    console.log("  - 条件欄ファイル:", conditionFile ? `✅ ${conditionFile.name} (${conditionFile.size} bytes)` : "なし");
+    console.log("  - 見積書ファイル:", describeFiles(estimateFiles));
+    console.log("  - 図面ファイル:", describeFiles(planFiles));
+    console.log("  - 条件欄ファイル:", describeFiles(conditionFiles));
+
+    // ページ単位に分解（PDFは1ページずつ、複数ファイルはアップロード順）
+    // 上限を超えるPDFは分割する前に打ち切る
+    let estimatePages: DocumentPage[] | null;
+    let planPages: DocumentPage[] | null;
+    let conditionPages: DocumentPage[] | null;
+    try {
+      estimatePages = await filesToPages(estimateFiles);
+      planPages = estimatePages && (await filesToPages(planFiles, MAX_DOCUMENT_PAGES - estimatePages.length));
+      conditionPages =
+        estimatePages &&
+        planPages &&
+        (await filesToPages(conditionFiles, MAX_DOCUMENT_PAGES - estimatePages.length - planPages.length));
+    } catch (pageError: any) {
+      console.error("❌ ファイルのページ分解失敗:", pageError.message);
+      return NextResponse.json({ 
+        error: "ファイルの読み込みに失敗しました（PDFが破損しているか、パスワードが設定されている可能性があります）", 
+        details: pageError.message 
+      }, { status: 400 });
+    }
+
+    if (!estimatePages || !planPages || !conditionPages) {
+      return NextResponse.json({ 
+        error: `ページ数が多すぎます（見積書・図面あわせて${MAX_DOCUMENT_PAGES}ページまで）` 
+      }, { status: 400 });
+    }
 
-    // 【重要】画像パーツを安全に作成
+    // 【重要】画像パーツを安全に作成（前処理・品質チェック）
     // この段階で厳密なバリデーションが行われる
-    const imageParts: GeminiImagePart[] = [];
-    
-    // 見積書画像パーツ作成
-    let estimateImagePart: GeminiImagePart;
+    let documentParts: DocumentParts;
     try {
-      estimateImagePart = await createImagePart(estimateFile);
-      imageParts.push(estimateImagePart);
-      console.log("✅ 見積書画像パーツ作成成功:", {
-        mimeType: estimateImagePart.inlineData.mimeType,
-        dataLength: estimateImagePart.inlineData.data.length,
-      });
+      documentParts = await buildDocumentParts({ estimate: estimatePages, plan: planPages, condition: conditionPages });
     } catch (imageError: any) {
-      console.error("❌ 見積書画像パーツ作成失敗:", imageError.message);
+      console.error("❌ 見積書パーツ作成失敗:", imageError.message);
       return NextResponse.json({ 
         error: "見積書画像の処理に失敗しました", 
         details: imageError.message 
       }, { status: 400 });
     }
-
-    // 図面画像パーツ作成（オプション）
-    if (planFile) {
-      try {
-        const planImagePart = await createImagePart(planFile);
-        imageParts.push(planImagePart);
-        console.log("✅ 図面画像パーツ作成成功:", {
-          mimeType: planImagePart.inlineData.mimeType,
-          dataLength: planImagePart.inlineData.data.length,
-        });
-      } catch (imageError: any) {
-        console.error("⚠️ 図面画像パーツ作成失敗（スキップ）:", imageError.message);
-        // 図面はオプションなので、失敗しても続行
-      }
-    }
-
-    // 条件欄画像パーツ作成（オプション）
-    if (conditionFile) {
-      try {
-        const conditionImagePart = await createImagePart(conditionFile);
-        imageParts.push(conditionImagePart);
-        console.log("✅ 条件欄画像パーツ作成成功:", {
-          mimeType: conditionImagePart.inlineData.mimeType,
-          dataLength: conditionImagePart.inlineData.data.length,
-        });
-      } catch (imageError: any) {
-        console.error("⚠️ 条件欄画像パーツ作成失敗（スキップ）:", imageError.message);
-        // 条件欄もオプションなので、失敗しても続行
-      }
-    }
+    const estimateImagePart = documentParts.imageParts[0];
 
     // ========================================
-    // 【第1段階】画像の種類を判定
+    // 【第1段階】画像の種類を判定（見積書の1枚目のみ使用）
     // ========================================
-    const classificationPrompt = `
-この画像を分析して、以下のどれに該当するか判定してください。
-
-1. "estimate" - 賃貸の見積書・初期費用明細書
-2. "flyer" - 賃貸の募集図面・マイソク
-3. "face" - 人の顔が写っている写真
-4. "animal" - 動物が写っている写真
-5. "food" - 食べ物の写真
-6. "scenery" - 風景・建物の写真
-7. "other" - その他
-
-JSON形式で出力してください:
-{
-  "type": "estimate" | "flyer" | "face" | "animal" | "food" | "scenery" | "other",
-  "confidence": 0-100,
-  "description": "画像の簡単な説明"
-}
-`;
-
-    // 分類用コンテンツを構築（見積書画像のみ使用）
-    let classificationContent: GeminiContentPart[];
-    try {
-      classificationContent = buildGeminiContent([estimateImagePart], classificationPrompt);
-      console.log("✅ 分類用コンテンツ構築成功");
-      debugGeminiContent(classificationContent);
-    } catch (buildError: any) {
-      console.error("❌ 分類用コンテンツ構築失敗:", buildError.message);
-      return NextResponse.json({ 
-        error: "リクエストの構築に失敗しました", 
-        details: buildError.message 
-      }, { status: 500 });
-    }
-
-    // 【ガード】API呼び出し前の最終チェック
-    const classificationValidation = validateContentBeforeApiCall(classificationContent);
-    if (!classificationValidation.valid) {
-      console.error("❌ 分類コンテンツ検証失敗:", classificationValidation.error);
-      return NextResponse.json({ 
-        error: "画像データが不正です", 
-        details: classificationValidation.error 
-      }, { status: 400 });
-    }
-    
-    // 【追加検証】テキストパーツが正しい形式であることを確認
-    for (let i = 0; i < classificationContent.length; i++) {
-      const part = classificationContent[i];
-      if ("text" in part) {
-        if (typeof part !== "object" || Array.isArray(part) || typeof part.text !== "string") {
-          console.error(`❌ 致命的エラー: 分類コンテンツのパーツ[${i}]（テキスト）が正しい形式ではありません`);
-          return NextResponse.json({ 
-            error: "リクエストの形式が不正です", 
-            details: `テキストパーツ[${i}]が { text: string } 形式ではありません` 
-          }, { status: 400 });
-        }
-        console.log(`✅ 分類コンテンツ パーツ[${i}]（テキスト）検証OK: { text: "${part.text.substring(0, 30)}..." }`);
-      }
-    }
-    
-    const model = genAI.getGenerativeModel({ 
-      model: primaryModel, 
-      generationConfig: { 
-        responseMimeType: "application/json",
-        temperature: 0
-      }
-    });
-    
-    console.log("🔍 画像分類開始... モデル:", primaryModel);
-    let classification;
-    try {
-      // 【重要】generateContentにはパーツ配列を直接渡す（SDKの正しい使い方）
-      // 各パーツは必ず { inlineData: {...} } または { text: string } のオブジェクト形式である必要がある
-      console.log("📤 generateContent呼び出し前の最終確認（分類）:");
-      console.log(`  - パーツ数: ${classificationContent.length}`);
-      classificationContent.forEach((part, idx) => {
-        console.log(`  - パーツ[${idx}]: ${"inlineData" in part ? "画像" : "text" in part ? "テキスト" : "不明"}, 型: ${typeof part}`);
-      });
-      
-      const classificationResult = await model.generateContent(classificationContent);
-      const classificationText = classificationResult.response.text();
-      console.log("✅ 分類API応答受信（最初の500文字）:", classificationText.substring(0, 500));
-      const cleanedClassification = classificationText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      classification = JSON.parse(cleanedClassification);
-      console.log("✅ 画像分類成功:", classification);
-    } catch (classificationError: any) {
-      console.error("❌ ========== 画像分類エラー ==========");
-      console.error("エラータイプ:", classificationError?.constructor?.name || typeof classificationError);
-      console.error("エラーメッセージ:", classificationError?.message || "メッセージなし");
-      console.error("エラースタック:", classificationError?.stack || "スタックなし");
-      
-      // ByteStringエラーの場合は詳細な情報を出力
-      if (classificationError?.message?.includes("ByteString")) {
-        console.error("⚠️ ByteStringエラーが発生しました - 画像データに無効な文字が含まれています");
-        debugGeminiContent(classificationContent);
-      }
-      
-      // APIキー関連のエラーをチェック
-      if (classificationError?.message?.includes("API_KEY") || 
-          classificationError?.message?.includes("api key") || 
-          classificationError?.message?.includes("API key") ||
-          classificationError?.message?.includes("401") ||
-          classificationError?.message?.includes("403")) {
-        console.error("⚠️ APIキー関連のエラーの可能性が高いです");
-        console.error("GEMINI_API_KEY の設定を確認してください");
-      }
-      
-      console.error("=====================================");
-      throw new Error(`画像分類に失敗しました: ${classificationError.message}`);
-    }
-    
-    console.log("画像分類結果:", classification);
+    const model = createAnalysisModel();
+    const classification = await classifyDocumentImage(model, estimateImagePart);
 
     // ========================================
     // 【裏コマンド】関係ない画像の場合
@@ -891,552 +499,11 @@ JSON形式で出力:
     }
 
     // ========================================
-    // 【通常モード】見積書/図面の診断
+    // 【通常モード】第2〜4段階: 抽出 → 検証 → 診断（lib/document-analysis.ts）
     // ========================================
-    console.log("通常診断モード開始...");
-    
-    const prompt = `
-あなたは「入居者の味方をする、経験豊富な不動産コンサルタント」です。
-見積書と募集図面を**厳密に照合**し、不当な費用を見つけ出してください。
-
-## 【画像の説明】
-- 1枚目: 見積書（必須）
-- 2枚目以降: 募集図面（マイソク）または条件欄のアップ画像（任意）
-
----
-
-## 【禁止事項・制約】
-- **絶対に使用禁止のワード**: 「AD」「広告料」「バックマージン」「キックバック」などの業界裏事情用語は一切使わないこと
-- **過度な期待を持たせる表現の禁止**: 「仲介手数料が0円になる」といった保証できない内容は書かないこと
-- **仲介手数料が賃料の0.5ヶ月分（税別）以下の場合**: 「fair（適正）」とすること
-- **削減可能額の最大化**: 削減できる可能性がある項目は、必ず「cut」または「negotiable」として判定し、削減可能額に計上してください。「fair」は本当に削減の余地がない場合のみ使用してください
-
----
-
-## 【重要】類似項目の名称マッチング
-
-以下の項目は**同一項目**として扱ってください：
-- 「入居者安心サポート」「24時間サポート」「24時間ライフサポート」「安心サポート」「緊急サポート」→ すべて同じ
-- 「消毒」「抗菌」「室内消毒」「室内抗菌」「消毒施工」「抗菌消臭」「室内抗菌・消毒施工費」→ すべて同じ
-
----
-
-## 【最重要】判定ルールと4つのカテゴリ
-
-以下の優先順位に従って、機械的に判定を行ってください。
-
-### 優先順位0：【図面優先の強制ルール】※最優先で必ず適用
-1. **火災保険（図面と見積の金額差）**
-   - 条件: 図面にも火災保険の金額記載があり、**見積書 > 図面**
-   - 判定: **negotiable**
-   - 適正価格: **図面の金額（price_fair = flyer_price）**
-   - 理由: 図面金額を優先し、差額を削減可能額に含める
-
-2. **鍵交換代（見積にあり、図面に記載なし）**
-   - 条件: 見積書に鍵交換代があり、図面に鍵交換代の記載が確認できない
-   - 判定: **negotiable**（削減可能項目に入れる）
-   - 適正価格: 0円
-   - 理由: 図面未記載のため上乗せの可能性があり、削減交渉対象
-
-### 優先順位1：【仲介手数料の厳格判定】
-**重要**: 仲介手数料は事前の同意がない場合、法律的に賃料の0.5ヶ月分（税別）＝0.55ヶ月分（税込）が原則です。これを超える場合は必ず削減可能として判定してください。
-
-| 条件 | 判定 (status) | 適正価格 (price_fair) | 理由 (reason) |
-| :--- | :--- | :--- | :--- |
-| **賃料の1ヶ月分（税込）以上の場合** | **negotiable** | 賃料の0.55ヶ月分（税込） | "事前の同意がない場合、法律的に賃料の0.5ヶ月(税別)が原則です。1ヶ月分以上の場合、交渉により0.5ヶ月（税別）まで減額できる可能性が高いです。" |
-| **賃料の0.6ヶ月分（税込）以上、1ヶ月分未満の場合** | **negotiable** | 賃料の0.55ヶ月分（税込） | "事前の同意がない場合、法律的に賃料の0.5ヶ月(税別)が原則です。交渉により0.5ヶ月（税別）まで減額できる可能性があります。" |
-| **賃料の0.55ヶ月分（税込）以下の場合** | **fair** | そのまま | "適正な金額です。" |
-
-※火災保険は「優先順位2.5：要確認項目」で扱い、negotiableにはしないでください。
-
-### 優先順位2：【付帯費用の厳格判定】
-**対象キーワード**: 害虫駆除, 室内消毒, 消臭抗菌, 安心サポート, 緊急サポート, 書類作成費（※24時間サポート・事務手数料・家賃引き落とし手数料・火災保険は対象外→優先順位2.5で要確認として判定）
-
-**重要原則**: 上記対象の付帯費用は原則として「不要（0円にできる）」と判定してください。削減可能額に計上してください。
-
-**重要**: 鍵交換費用はここに入れないこと（優先順位0で処理）
-
-1. **図面がアップロードされていない場合 OR 図面に該当項目の記載が確認できない場合**
-   - 判定: **cut** （削減可能額に計上）
-   - 適正価格: 0円
-   - 理由: "一般的には任意のオプションサービスです。不要であれば外せます。交渉により削減できます。"
-
-2. **図面に記載があり「任意」「オプション」と明記されている場合**
-   - 判定: **cut** （削減可能額に計上）
-   - 適正価格: 0円
-   - 理由: "任意のオプションサービスです。不要であれば外せます。"
-
-3. **図面に記載があり「必須」と明記されている場合**
-   - 判定: **negotiable** （削減可能額に計上）
-   - 適正価格: 0円
-   - 理由: "図面に記載がありますが、交渉次第で外せる可能性が高いです。削減を試みる価値があります。"
-
-4. **図面に記載がなく、かつ一般的に不要と判断できる項目**
-   - 判定: **cut** （削減可能額に計上）
-   - 適正価格: 0円
-   - 理由: "一般的には不要なオプションサービスです。交渉により削減できます。"
-
-### 優先順位2.5：【要確認項目】（Warning）※削減可能額に含めない・必ず遵守
-以下の項目は**必ず status: "warning"（要確認・黄）**として判定してください。negotiableやcutにしないでください。管理会社の方針により外せない場合があるため、断定的な表現を避けます。
-
-| 項目（キーワード） | 判定 (status) | 適正価格 (price_fair) | 理由 (reason) |
-| :--- | :--- | :--- | :--- |
-| **24時間サポート / 24時間ライフサポート / 入居者安心サポート / 安心サポート** | **warning** | 見積書の金額のまま（変更しない） | "管理会社指定で必須の場合がありますが、加入義務がない場合もあります。契約前に確認しましょう。" |
-| **事務手数料 / 書類作成費（事務関連）** | **warning** | 見積書の金額のまま | "必須の場合もありますが、取り外せる可能性もあるため確認を推奨します。" |
-| **家賃引き落とし手数料 / 口座振替手数料** | **warning** | 見積書の金額のまま | "必須の場合もありますが、取り外せる可能性もあるため確認を推奨します。" |
-| **火災保険** | **warning**（15,000円を超える場合のみ） | 15,000 | "割高の可能性があります。自分自身で加入が可能か、また可能な場合、詳細の条件を確認しましょう。安いものであれば1.5万円程度で加入可能なものもあります。" |
-| **火災保険** | **fair**（15,000円以下の場合） | そのまま | "適正な金額です。" |
-| **鍵交換代 / 鍵セット費 / キーセット** | **warning** | 見積書の金額のまま | "取り外し不可なケースがほとんどですが、稀に外せる場合もあるので念のため確認を推奨します。" |
-
-**重要**: 火災保険の項目の name や reason に「推定」という文字を含めないでください。上記以外の項目で「要確認」としたい場合は、図面に「必須」と明記され削減が困難と判断される場合のみ「warning」を使用してください。
-
-### 優先順位3：【要確認項目のその他】
-上記2.5で定めた以外で「warning」を使う場合は、図面に明確に「必須」と記載があり、かつ削減が困難と判断される場合のみにしてください。
-
-### 優先順位4：【ホワイトリスト項目】（適正）
-対象: **敷金, 礼金, 賃料, 前家賃, 共益費/管理費, 更新料, 保証会社利用料, 町内会費, 口座振替手数料, クリーニング費**（※鍵交換代・鍵セット費・キーセットは優先順位0/2.5の条件を優先）
-
-**重要**: これらの項目は基本的に適正ですが、削減可能な余地がある場合は必ず「negotiable」として判定し、削減可能額に計上してください。
-
-1. **基本ルール**
-   - 見積書に記載があれば、**図面から読み取れなくても "fair"** と判定する
-   - 理由: "物件固有の条件であり、適正な費用です。"
-
-2. **例外（Cut/Negotiableにするケース）**
-   - 図面に明確に**「礼金0円」「礼金なし」**という文字が読み取れた場合に限り、**cut** とする（鍵交換代は要確認項目のため、ここではcutにしない）
-   - 更新料が高額（賃料の1ヶ月分以上）の場合、**negotiable** として判定し、適正価格を設定する
-   - 保証会社利用料が相場（3,000〜5,000円）を大幅に超える場合、**negotiable** として判定する
-
----
-
-## 【出力形式】JSON
-
-Markdown記法は含めず、純粋なJSON文字列だけを返してください。
-
-## 【最重要】判定の厳格化ルール
-
-**削減可能額を最大化するために、以下のルールを厳格に守ってください：**
-
-1. **「fair（適正）」は最小限に**: 本当に削減の余地がない場合のみ「fair」と判定してください。少しでも削減できる可能性がある場合は「negotiable」または「cut」として判定し、削減可能額に計上してください。
-
-2. **付帯費用は原則「cut」**: 「除菌消臭」「書類作成費」など、優先順位2.5に該当しない付帯費用は、図面に「必須」と明記されていない限り「cut（0円）」として判定してください。※24時間サポート・事務手数料・家賃引き落とし手数料・火災保険は必ず「warning」にすること。
-
-3. **仲介手数料の維持**: 仲介手数料は事前の同意がない場合、法律的に賃料の0.5ヶ月分（税別）が原則であり、それを超える場合、必ず「negotiable」（削減可能・赤）のままにしてください。要確認（黄）にしないでください。
-
-4. **要確認項目（warning）の必須ルール**: 24時間サポート、事務手数料、家賃引き落とし手数料、火災保険（15,000円超）は必ず「warning」として判定してください。これらは削減可能額に含めません。
-
-5. **削減可能額の算出**: discount_amount には **status が「negotiable」または「cut」の項目**を合算してください。negotiableは (price_original - price_fair) の差額、cutは price_original の全額を加算します。「warning」は合計に含めないでください。
-
-{
-  "property_name": "物件名（不明なら'物件名入力なし'）",
-  "room_number": "号室",
-  "items": [
-    {
-      "name": "見積書に記載された項目名",
-      "price_original": 見積書の金額（数値）,
-      "price_fair": 適正価格（数値）,
-      "status": "fair|negotiable|cut|warning",
-      "reason": "上記の判定ルールに基づいた具体的なアドバイス",
-      "is_insurance": true/false（火災保険の場合のみtrue）,
-      "listed_in_flyer": true/false/null（図面に記載があるか。図面未アップロード時はnull）,
-      "flyer_price": 図面記載金額（数値 or null）
-    }
-  ],
-  "total_original": 見積書合計,
-  "total_fair": 適正合計（warningは含めず、fair・negotiable・cutの項目のみで計算）,
-  "discount_amount": 削減可能額（negotiableの差額 + cutの全額。warningは含めない）,
-  "warning_amount": warning項目の合計金額,
-  "has_flyer": 図面がアップロードされているかどうか（true/false）,
-  "pro_review": {
-    "content": "この物件の初期費用における最大の問題点と、次に取るべき具体的なアクション。warning項目がある場合は図面確認を促す内容を含めること。"
-  },
-  "risk_score": 0〜100（削減額の割合に応じて算出、warning分は含めない）
-}
-`;
-
-    // 通常診断用のコンテンツを構築
-    let mainContent: GeminiContentPart[];
-    try {
-      mainContent = buildGeminiContent(imageParts, prompt);
-      console.log("✅ 通常診断用コンテンツ構築成功");
-      debugGeminiContent(mainContent);
-    } catch (buildError: any) {
-      console.error("❌ 通常診断用コンテンツ構築失敗:", buildError.message);
-      return NextResponse.json({ 
-        error: "リクエストの構築に失敗しました", 
-        details: buildError.message 
-      }, { status: 500 });
-    }
-
-    // 【ガード】API呼び出し前の最終チェック
-    const mainValidation = validateContentBeforeApiCall(mainContent);
-    if (!mainValidation.valid) {
-      console.error("❌ 通常診断コンテンツ検証失敗:", mainValidation.error);
-      return NextResponse.json({ 
-        error: "画像データが不正です", 
-        details: mainValidation.error 
-      }, { status: 400 });
-    }
-    
-    // 【追加検証】テキストパーツが正しい形式であることを確認
-    for (let i = 0; i < mainContent.length; i++) {
-      const part = mainContent[i];
-      if ("text" in part) {
-        if (typeof part !== "object" || Array.isArray(part) || typeof part.text !== "string") {
-          console.error(`❌ 致命的エラー: 通常診断コンテンツのパーツ[${i}]（テキスト）が正しい形式ではありません`);
-          return NextResponse.json({ 
-            error: "リクエストの形式が不正です", 
-            details: `テキストパーツ[${i}]が { text: string } 形式ではありません` 
-          }, { status: 400 });
-        }
-        console.log(`✅ 通常診断コンテンツ パーツ[${i}]（テキスト）検証OK: { text: "${part.text.substring(0, 30)}..." }`);
-      }
-    }
-    
-    console.log("🤖 通常診断モード: AIリクエスト送信...");
-    let result;
-    let responseText;
-    try {
-      // 【重要】generateContentにはパーツ配列を直接渡す（SDKの正しい使い方）
-      // 各パーツは必ず { inlineData: {...} } または { text: string } のオブジェクト形式である必要がある
-      console.log("📤 generateContent呼び出し前の最終確認（通常診断）:");
-      console.log(`  - パーツ数: ${mainContent.length}`);
-      mainContent.forEach((part, idx) => {
-        console.log(`  - パーツ[${idx}]: ${"inlineData" in part ? "画像" : "text" in part ? "テキスト" : "不明"}, 型: ${typeof part}`);
-      });
-      
-      result = await model.generateContent(mainContent);
-      responseText = result.response.text();
-      console.log("✅ AI応答を受信しました（長さ:", responseText.length, "文字）");
-    } catch (generateError: any) {
-      console.error("❌ ========== AI生成エラー ==========");
-      console.error("エラータイプ:", generateError?.constructor?.name || typeof generateError);
-      console.error("エラーメッセージ:", generateError?.message || "メッセージなし");
-      console.error("エラースタック:", generateError?.stack || "スタックなし");
-      
-      // ByteStringエラーの場合は詳細な情報を出力
-      if (generateError?.message?.includes("ByteString")) {
-        console.error("⚠️ ByteStringエラーが発生しました - 画像データに無効な文字が含まれています");
-        debugGeminiContent(mainContent);
-      }
-      
-      // APIキー関連のエラーをチェック
-      if (generateError?.message?.includes("API_KEY") || 
-          generateError?.message?.includes("api key") || 
-          generateError?.message?.includes("API key") ||
-          generateError?.message?.includes("401") ||
-          generateError?.message?.includes("403")) {
-        console.error("⚠️ APIキー関連のエラーの可能性が高いです");
-        console.error("GEMINI_API_KEY の設定を確認してください");
-      }
-      
-      console.error("=====================================");
-      throw generateError;
-    }
-    
-    // JSONパース
-    let json;
-    try {
-      const cleanedText = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      console.log("📝 パース前のテキスト（最初の1000文字）:", cleanedText.substring(0, 1000));
-      json = JSON.parse(cleanedText);
-      console.log("✅ JSONパース成功");
-    } catch (parseError: any) {
-      console.error("❌ ========== JSON Parse Error ==========");
-      console.error("エラーメッセージ:", parseError.message);
-      console.error("エラースタック:", parseError.stack);
-      console.error("レスポンス全文の長さ:", responseText.length);
-      console.error("レスポンス全文（最初の2000文字）:", responseText.substring(0, 2000));
-      console.error("レスポンス全文（最後の500文字）:", responseText.substring(Math.max(0, responseText.length - 500)));
-      console.error("=========================================");
-      throw new Error(`AIの応答の解析に失敗しました: ${parseError.message}\n応答の最初の500文字: ${responseText.substring(0, 500)}`);
-    }
-    
-    // 後処理（図面優先ルール + 合計値再計算）
-    const hasFlyerUpload = Boolean(planFile || conditionFile);
-    json.has_flyer = hasFlyerUpload;
-
-    if (Array.isArray(json.items)) {
-      applyFlyerPriorityRules(json, hasFlyerUpload);
-
-      const hasUnconfirmed = json.items.some((item: any) => item.requires_confirmation);
-      json.has_unconfirmed_items = hasUnconfirmed;
-      json.unconfirmed_item_names = json.items
-        .filter((item: any) => item.requires_confirmation)
-        .map((item: any) => item.name);
-      
-      // 金額計算を単純化: 削減可能額・要確認合計・適正合計を再計算
-      try {
-        const toNum = (v: any): number =>
-          typeof v === 'number' ? v : (typeof v === 'string' ? parseFloat(v) || 0 : 0);
-
-        const normalizeText = (text: string): string =>
-          text
-            .replace(/\s+/g, ' ')
-            .replace(/[　]/g, ' ')
-            .trim();
-
-        const extractBrokerageRatio = (text: string): number | null => {
-          const normalized = normalizeText(text);
-          if (!normalized) return null;
-
-          const hasTax = /税|税込|消費税|\\+税|＋税|tax/i.test(normalized);
-
-          const monthMatch = normalized.match(/([0-9]+(?:\.[0-9]+)?)\s*(?:ヶ月|カ月|か月|月)(?:分)?/);
-          if (monthMatch) {
-            const months = parseFloat(monthMatch[1]);
-            if (Number.isFinite(months) && months > 0) {
-              const adjusted = hasTax && months <= 1 ? months * 1.1 : months;
-              if (adjusted > 0.1 && adjusted <= 2.5) {
-                return Math.round(adjusted * 100) / 100;
-              }
-            }
-          }
-
-          const percentMatch = normalized.match(/([0-9]+(?:\.[0-9]+)?)\s*%/);
-          if (percentMatch) {
-            const percent = parseFloat(percentMatch[1]);
-            if (Number.isFinite(percent) && percent > 0) {
-              const ratio = percent / 100;
-              const adjusted = hasTax ? ratio * 1.1 : ratio;
-              if (adjusted > 0.1 && adjusted <= 2.5) {
-                return Math.round(adjusted * 100) / 100;
-              }
-            }
-          }
-
-          return null;
-        };
-
-        // ========== Step 0: 仲介手数料の強制補正 ==========
-        // AIの出力に依存せず、必ず正しい値を算出してセットする
-        
-        // 家賃の取得（複数パターンで検索）
-        let rentItem = json.items.find((item: any) => 
-          item && item.name && 
-          /^家賃$|^賃料$|^月額賃料$|^月額家賃$|^月額$/.test(String(item.name).trim())
-        );
-        // フォールバック: 「家賃」「賃料」「月額」を含み、前家賃・日割りを除外
-        if (!rentItem) {
-          rentItem = json.items.find((item: any) => 
-            item && item.name && 
-            /家賃|賃料|月額/.test(String(item.name)) && 
-            !/前家賃|翌月|日割|共益|管理費|手数料/.test(String(item.name))
-          );
-        }
-        const rent = rentItem ? toNum(rentItem.price_original) : 0;
-        let inferredRent = 0;
-        let inferredRatio = 0;
-        
-        console.log("=== 仲介手数料計算デバッグ ===");
-        console.log("家賃項目:", rentItem ? { name: rentItem.name, price: rentItem.price_original } : "見つからず");
-        console.log("家賃（rent）:", rent);
-        
-        // 仲介手数料の取得
-        const brokerageIndex = json.items.findIndex((item: any) => 
-          item && item.name && /仲介/.test(String(item.name))
-        );
-        console.log("仲介手数料インデックス:", brokerageIndex);
-        
-        if (brokerageIndex >= 0) {
-          const brokerageItem = json.items[brokerageIndex];
-          const brokerageOriginal = toNum(brokerageItem.price_original);
-          console.log("仲介手数料（請求額）:", brokerageOriginal);
-
-          if (rent <= 0 && brokerageOriginal > 0) {
-            const brokerageEvidenceText = [brokerageItem.name, brokerageItem.reason]
-              .filter(Boolean)
-              .join(' ');
-            const ratio = extractBrokerageRatio(brokerageEvidenceText);
-            if (ratio) {
-              inferredRatio = ratio;
-              inferredRent = Math.round(brokerageOriginal / ratio);
-              console.log("家賃推測（補足テキストから逆算）:", {
-                ratio,
-                inferredRent,
-                evidence: brokerageEvidenceText
-              });
-            } else {
-              console.warn("⚠️ 補足テキストから家賃推測ができませんでした");
-            }
-          }
-
-          const rentForCalc = rent > 0 ? rent : inferredRent;
-
-          if (rentForCalc > 0) {
-            // 適正価格 = 家賃 × 0.55（0.5ヶ月 + 税10%）
-            const brokerageFair = Math.round(rentForCalc * 0.55);
-            // 削減可能額 = 請求額 - 適正価格
-            const brokerageDiscount = brokerageOriginal - brokerageFair;
-            
-            console.log("適正価格（rent × 0.55）:", brokerageFair);
-            console.log("削減可能額:", brokerageDiscount);
-            
-            // 100円以上の差額がある場合は negotiable
-            if (brokerageDiscount > 100) {
-              json.items[brokerageIndex] = {
-                ...brokerageItem,
-                price_fair: brokerageFair,
-                status: 'negotiable',
-                reason: `事前の同意がない場合、法律的に賃料の0.5ヶ月(税別)が原則です。交渉により${brokerageFair.toLocaleString()}円まで減額できる可能性があります。`
-              };
-              console.log("✅ 仲介手数料を negotiable に設定:", {
-                original: brokerageOriginal,
-                fair: brokerageFair,
-                discount: brokerageDiscount
-              });
-            } else {
-              // 差額が小さい場合は適正
-              json.items[brokerageIndex] = {
-                ...brokerageItem,
-                price_fair: brokerageOriginal,
-                status: 'fair',
-                reason: "適正な金額です。"
-              };
-              console.log("✅ 仲介手数料は適正（差額100円以下）");
-            }
-          } else {
-            console.warn("⚠️ 家賃が取得できず、補足情報からも推測できないため仲介手数料の補正をスキップします");
-          }
-        } else {
-          console.log("仲介手数料項目が見つかりませんでした");
-        }
-        console.log("=== 仲介手数料計算デバッグ終了 ===");
-
-        // ========== Step 1: 削減可能額の機械的合計 ==========
-        // ステータスが「negotiable」の項目の (price_original - price_fair) を全て足す
-        const discountAmount = json.items
-          .filter((item: any) => item && item.status === 'negotiable')
-          .reduce((sum: number, item: any) => {
-            const original = toNum(item.price_original);
-            const fair = toNum(item.price_fair);
-            const itemDiscount = Math.max(0, original - fair);
-            console.log(`  negotiable項目: ${item.name}, ${original} - ${fair} = ${itemDiscount}`);
-            return sum + itemDiscount;
-          }, 0);
-        json.discount_amount = discountAmount;
-
-        // ========== Step 2: cut項目の削減額も加算（削除推奨=全額削減可能） ==========
-        const cutAmount = json.items
-          .filter((item: any) => item && item.status === 'cut')
-          .reduce((sum: number, item: any) => {
-            const original = toNum(item.price_original);
-            console.log(`  cut項目: ${item.name}, ${original}円が削減可能`);
-            return sum + original;
-          }, 0);
-        
-        // 合計削減可能額 = negotiable の差額 + cut の全額
-        json.discount_amount = discountAmount + cutAmount;
-        console.log(`削減可能額合計: negotiable=${discountAmount} + cut=${cutAmount} = ${json.discount_amount}`);
-
-        // ========== Step 3: 要確認項目の合計 ==========
-        const warningAmount = json.items
-          .filter((item: any) => item && item.status === 'warning')
-          .reduce((sum: number, item: any) => {
-            const original = toNum(item.price_original);
-            console.log(`  warning項目: ${item.name}, ${original}円`);
-            return sum + original;
-          }, 0);
-        json.warning_amount = warningAmount;
-
-        // C. 適正合計 = 提示額合計 - 削減可能額（個別積み上げではなく必ずこの式）
-        const totalOriginal = typeof json.total_original === 'number' ? json.total_original : toNum(json.total_original);
-        json.total_fair = Math.max(0, totalOriginal - discountAmount);
-        json.total_original = totalOriginal;
-
-        // ========== Step 4: 判定ヘッドライン（家賃・仲介手数料・要確認数から算出）とデバッグ情報 ==========
-        // 注: rent と brokerageIndex は Step 0 で定義済み
-        const warningCount = json.items.filter((item: any) => item && (item.status === 'warning' || item.status === 'WARNING')).length;
-        const brokerageItemForHeadline = brokerageIndex >= 0 ? json.items[brokerageIndex] : null;
-        const brokerageAmount = brokerageItemForHeadline ? toNum(brokerageItemForHeadline.price_original) : 0;
-        const rentVal = rent > 0 ? rent : inferredRent;
-        const rentSource = rent > 0 ? 'extracted' : inferredRent > 0 ? 'inferred' : 'missing';
-        let headline: string | null = null;
-        let ratio = 0;
-        let logicPath = 'None';
-        if (rentVal > 0 && brokerageAmount > 0) {
-          ratio = brokerageAmount / rentVal;
-          // 【判定A】仲介手数料が家賃の1.1ヶ月分以上 かつ 要確認項目が4つ以上
-          if (ratio >= 1.1 && warningCount >= 4) {
-            headline = "大幅に削減できる可能性が高いです";
-            logicPath = 'Condition A (High Reduction)';
-          }
-          // 【判定B】仲介手数料が家賃の1.1ヶ月分以上 かつ 要確認項目が3つ以下
-          else if (ratio >= 1.1 && warningCount <= 3) {
-            headline = "削減できる可能性が非常に高いです";
-            logicPath = 'Condition B (Likely Reduction)';
-          }
-          // 【判定C】それ以外
-          else {
-            headline = "適正な範囲であると言えます";
-            logicPath = 'Condition C (Fair)';
-          }
-        } else {
-          if (!hasFlyer) {
-            headline = "図面を追加でアップロードすることを強く推奨します";
-            logicPath = 'Condition D (No rent & no flyer)';
-          } else {
-            headline = "適正な範囲であると言えます";
-            logicPath = 'Condition C (Fallback without rent)';
-          }
-        }
-        json.headline = headline;
-        json.debug = {
-          rent_extracted: rent,
-          rent_inferred: inferredRent,
-          rent_source: rentSource,
-          inferred_ratio: inferredRatio,
-          brokerage_amount: brokerageAmount,
-          ratio: Math.round(ratio * 100) / 100,
-          warning_count: warningCount,
-          has_flyer: hasFlyer,
-          logic_path: logicPath
-        };
-
-        console.log("金額再計算:", {
-          discount_amount: json.discount_amount,
-          warning_amount: json.warning_amount,
-          total_original: json.total_original,
-          total_fair: json.total_fair,
-          headline: json.headline
-        });
-      } catch (calcError: any) {
-        console.error("金額再計算エラー:", calcError);
-        console.warn("金額の再計算に失敗しました。AIが返した値をそのまま使用します。");
-      }
-    }
-
-    // headline が未設定の場合は null をセット（型: string | null を保証）
-    if (json.headline === undefined) {
-      json.headline = null;
-    }
-    // debug が未設定の場合（try がスキップされた場合など）は簡易デバッグ情報をセット
-    if (json.debug === undefined && json.items && Array.isArray(json.items)) {
-      const toNumFallback = (v: any) => typeof v === 'number' ? v : (typeof v === 'string' ? parseFloat(v) || 0 : 0);
-      const wc = json.items.filter((i: any) => i && (i.status === 'warning' || i.status === 'WARNING')).length;
-      const bi = json.items.findIndex((i: any) => i && i.name && /仲介/.test(String(i.name)));
-      const rentItem = json.items.find((i: any) => i && i.name && /家賃|賃料|月額/.test(String(i.name)) && !/前家賃|翌月|日割|共益|管理費|手数料/.test(String(i.name)));
-      const r = rentItem ? toNumFallback(rentItem.price_original) : 0;
-      const b = bi >= 0 ? toNumFallback(json.items[bi].price_original) : 0;
-      json.debug = {
-        rent_extracted: r,
-        brokerage_amount: b,
-        ratio: r > 0 ? Math.round((b / r) * 100) / 100 : 0,
-        warning_count: wc,
-        logic_path: r === 0 ? 'Error: Rent is 0' : 'None'
-      };
-    }
-
-    recalculateTotals(json);
-
-    console.log("診断完了:", {
-      items_count: json.items?.length,
-      total_original: json.total_original,
-      discount_amount: json.discount_amount,
-      headline: json.headline
-    });
+    const diagnosis = await diagnoseDocumentParts(model, documentParts);
 
-    return NextResponse.json({ result: json });
+    return NextResponse.json({ result: diagnosis });
 
   } catch (error: any) {
     console.error("❌ ========== サーバーエラー ==========");
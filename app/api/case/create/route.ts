@@ -3,11 +3,14 @@
  *
  * POST /api/case/create
  * Input: { result: AnalysisResult }
- * Output: { caseId: string, caseToken: string }
+ * Output: { caseId: string, caseToken: string, accessToken: string }
+ *
+ * caseToken はLINE連携用（10分TTL、ワンタイム）。
+ * accessToken は案件の操作用（案件IDでの再診断などで x-case-token ヘッダーに指定）。
  */
 
 import { NextResponse } from 'next/server';
-import { createCase, createCaseToken } from '@/lib/kv';
+import { createCaseToken, createCaseWithAccessToken } from '@/lib/kv';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -24,8 +27,8 @@ export async function POST(req: Request) {
       );
     }
 
-    // 1. 案件を作成
-    const caseId = await createCase(result);
+    // 1. 案件を作成（操作トークンは作成者にだけ返す）
+    const { caseId, accessToken } = await createCaseWithAccessToken(result);
 
     // 2. caseTokenを発行（10分TTL）
     let caseToken = await createCaseToken(caseId);
@@ -37,6 +40,7 @@ export async function POST(req: Request) {
       caseId,
       caseToken,
       token: caseToken,
+      accessToken,
     });
   } catch (error: any) {
     console.error('Case creation error:', error);
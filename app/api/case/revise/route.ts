@@ -0,0 +1,86 @@
+/**
+ * 見積書更新API（再見積書を同じ案件に紐づけて差分を返す）
+ *
+ * POST /api/case/revise
+ * Input: FormData { caseId: string, estimate: File（画像 or PDF、複数可） }
+ * Output: { revision: { revised_at, result, diff }, outcome: CaseOutcome }
+ * Headers: x-case-token（案件作成時の accessToken。/api/case/create）
+ *
+ * 再見積書を診断し、元の見積書と項目ごとに比較する（削除・減額・増額・変更なし・新規追加）。
+ * 元の見積書の合計との差は交渉結果（/api/outcome）の実際の削減額として記録する。
+ */
+
+import { NextResponse } from 'next/server';
+import { CASE_ACCESS_TOKEN_HEADER, getCase, verifyCaseAccessToken } from '@/lib/kv';
+import { reviseCaseEstimate } from '@/lib/case-revision';
+import {
+  MAX_DOCUMENT_PAGES,
+  filesToPages,
+  getUploadFiles,
+  validateUploadFile,
+} from '@/lib/document-pages';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData();
+    const caseId = formData.get('caseId');
+    const files = getUploadFiles(formData, 'estimate');
+
+    if (typeof caseId !== 'string' || !caseId) {
+      return NextResponse.json({ error: '案件IDが必要です' }, { status: 400 });
+    }
+    if (files.length === 0) {
+      return NextResponse.json({ error: '再見積書のファイルが必要です' }, { status: 400 });
+    }
+    for (const file of files) {
+      const error = validateUploadFile(file, '再見積書');
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+    }
+
+    const caseData = await getCase(caseId);
+    if (!caseData?.result) {
+      return NextResponse.json({ error: '案件が見つかりません', details: caseId }, { status: 404 });
+    }
+    // 案件を作成した人だけが再見積書を追加できる（LINEで作成した案件はLINEのトークから追加）
+    if (!verifyCaseAccessToken(caseData, req.headers.get(CASE_ACCESS_TOKEN_HEADER))) {
+      return NextResponse.json({ error: 'この案件を操作する権限がありません' }, { status: 403 });
+    }
+    if (caseData.result.is_secret_mode) {
+      return NextResponse.json({ error: 'この診断結果には見積書がありません' }, { status: 400 });
+    }
+
+    const pages = await filesToPages(files);
+    if (!pages) {
+      return NextResponse.json(
+        { error: `ページ数が多すぎます（${MAX_DOCUMENT_PAGES}ページ以下にしてください）` },
+        { status: 400 }
+      );
+    }
+
+    const revised = await reviseCaseEstimate(caseData, pages, 'web');
+    if (!revised) {
+      return NextResponse.json(
+        { error: '再見積書から費用項目を読み取れませんでした', details: '見積書全体が写った画像を送信してください' },
+        { status: 422 }
+      );
+    }
+
+    console.log('[Case revise] revised', caseId, {
+      original: revised.revision.diff.total_original,
+      revised: revised.revision.diff.total_revised,
+      added: revised.revision.diff.added_total,
+    });
+    return NextResponse.json(revised);
+  } catch (error: any) {
+    console.error('Case revise error:', error);
+    return NextResponse.json(
+      { error: '再見積書の読み取りに失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
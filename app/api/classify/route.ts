@@ -9,13 +9,15 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextResponse } from "next/server";
 import {
-  createImagePart,
+  createImagePartFromBuffer,
   createTextPart,
   buildGeminiContent,
   debugGeminiContent,
   containsNonAscii,
   GeminiContentPart,
 } from "@/lib/gemini-utils";
+import { logImageProcessing, preprocessImage } from "@/lib/image-preprocessing";
+import { fileToPages, getUploadFiles, validateUploadFile } from "@/lib/document-pages";
 
 export const maxDuration = 30;
 
@@ -38,26 +40,17 @@ export async function POST(req: Request) {
     }
 
     const formData = await req.formData();
-    const estimateFile = formData.get("estimate") as File | null;
+    // 複数枚アップロードされた場合も分類は1枚目だけで行う
+    const [estimateFile] = getUploadFiles(formData, "estimate");
 
     if (!estimateFile) {
       return NextResponse.json({ error: "画像が必要です" }, { status: 400 });
     }
 
-    // ファイルタイプの検証
-    if (!estimateFile.type.startsWith("image/")) {
-      return NextResponse.json(
-        { error: "画像ファイルである必要があります" },
-        { status: 400 }
-      );
-    }
-
-    // ファイルサイズの検証
-    if (estimateFile.size > 20 * 1024 * 1024) {
-      return NextResponse.json(
-        { error: "画像サイズが大きすぎます（20MB以下にしてください）" },
-        { status: 400 }
-      );
+    // ファイルタイプ・サイズの検証
+    const validationError = validateUploadFile(estimateFile, "画像");
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
     console.log("🔍 画像分類開始:", {
@@ -69,7 +62,11 @@ export async function POST(req: Request) {
     // 画像パーツを作成（ここで厳密なバリデーションが行われる）
     let imagePart;
     try {
-      imagePart = await createImagePart(estimateFile);
+      // PDFは1ページ目だけを前処理せずにそのまま渡す
+      const [firstPage] = await fileToPages(estimateFile);
+      const processedImage = firstPage.isPdf ? firstPage : await preprocessImage(firstPage);
+      logImageProcessing("estimate", 1, firstPage.buffer.length, processedImage.buffer.length);
+      imagePart = createImagePartFromBuffer(processedImage);
       console.log("✅ 画像パーツ作成成功:", {
         mimeType: imagePart.inlineData.mimeType,
         dataLength: imagePart.inlineData.data.length,
@@ -0,0 +1,82 @@
+/**
+ * 物件比較API
+ *
+ * POST /api/compare
+ * Input: { cases: { caseId: string, accessToken: string }[] } または { results: { label?: string, result: DiagnosisResult }[] }
+ * Output: { comparison: ComparisonResult }
+ *
+ * 案件IDで比較する場合は、案件ごとにアクセストークン（/api/case/create の accessToken）が必要。
+ *
+ * 診断済みの案件（または同一セッション内の複数の診断結果）を
+ * 賃料・初期費用・適正額・削減可能額・要確認額・実質月額（2年）で並べる。
+ */
+
+import { NextResponse } from 'next/server';
+import { getCase, verifyCaseAccessToken } from '@/lib/kv';
+import {
+  MAX_COMPARISON_CANDIDATES,
+  candidateLabel,
+  compareCandidates,
+  type ComparisonCandidate,
+} from '@/lib/comparison';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const candidates: ComparisonCandidate[] = [];
+
+    if (Array.isArray(body?.cases)) {
+      const cases = body.cases.filter(
+        (entry: any): entry is { caseId: string; accessToken?: unknown } => typeof entry?.caseId === 'string'
+      );
+      for (const { caseId, accessToken } of cases.slice(0, MAX_COMPARISON_CANDIDATES)) {
+        const caseData = await getCase(caseId);
+        if (!caseData?.result) {
+          return NextResponse.json(
+            { error: '案件が見つかりません', details: caseId },
+            { status: 404 }
+          );
+        }
+        if (!verifyCaseAccessToken(caseData, typeof accessToken === 'string' ? accessToken : null)) {
+          return NextResponse.json(
+            { error: 'この案件を操作する権限がありません', details: caseId },
+            { status: 403 }
+          );
+        }
+        candidates.push({
+          label: candidateLabel(caseData.result, candidates.length),
+          case_id: caseId,
+          result: caseData.result,
+        });
+      }
+    } else if (Array.isArray(body?.results)) {
+      for (const entry of body.results.slice(0, MAX_COMPARISON_CANDIDATES)) {
+        if (!entry?.result || !Array.isArray(entry.result.items)) continue;
+        candidates.push({
+          label: typeof entry.label === 'string' && entry.label.trim()
+            ? entry.label.trim()
+            : candidateLabel(entry.result, candidates.length),
+          result: entry.result,
+        });
+      }
+    }
+
+    if (candidates.length < 2) {
+      return NextResponse.json(
+        { error: '比較には2件以上の診断結果が必要です' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ comparison: compareCandidates(candidates) });
+  } catch (error: any) {
+    console.error('Compare error:', error);
+    return NextResponse.json(
+      { error: '比較に失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
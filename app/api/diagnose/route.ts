@@ -0,0 +1,63 @@
+/**
+ * 再診断API（抽出JSONのみから診断を再実行）
+ *
+ * POST /api/diagnose
+ * Input: { extracted_facts: ExtractionResult, diagnosis_inputs?: DiagnosisInputs } または { caseId: string }
+ * Output: { result: DiagnosisResult }
+ *
+ * 画像・Gemini呼び出しは不要。判定ロジック変更後の再計算やデバッグに使用する。
+ * caseId を指定する場合は x-case-token（案件作成時の accessToken）が必要。
+ * 案件に保存した再読み取りの結果と画像品質（diagnosis_inputs）も入力にして、元の診断を再現する。
+ */
+
+import { NextResponse } from 'next/server';
+import { CASE_ACCESS_TOKEN_HEADER, getCase, verifyCaseAccessToken } from '@/lib/kv';
+import { normalizeExtractionResult } from '@/lib/extraction';
+import { diagnose, diagnoseOptionsFrom } from '@/lib/diagnosis';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    let extractedFacts = body?.extracted_facts;
+    let diagnosisInputs = body?.diagnosis_inputs;
+
+    if (!extractedFacts && typeof body?.caseId === 'string') {
+      const caseData = await getCase(body.caseId);
+      if (!caseData) {
+        return NextResponse.json(
+          { error: '案件が見つかりません' },
+          { status: 404 }
+        );
+      }
+      if (!verifyCaseAccessToken(caseData, req.headers.get(CASE_ACCESS_TOKEN_HEADER))) {
+        return NextResponse.json(
+          { error: 'この案件を操作する権限がありません' },
+          { status: 403 }
+        );
+      }
+      extractedFacts = caseData.result?.extracted_facts;
+      diagnosisInputs = caseData.result?.diagnosis_inputs;
+    }
+
+    if (!extractedFacts?.estimate) {
+      return NextResponse.json(
+        { error: '抽出結果（extracted_facts）が必要です' },
+        { status: 400 }
+      );
+    }
+
+    const extraction = normalizeExtractionResult(extractedFacts, !!extractedFacts.flyer);
+    const result = diagnose(extraction, diagnoseOptionsFrom(diagnosisInputs));
+
+    return NextResponse.json({ result });
+  } catch (error: any) {
+    console.error('Diagnose error:', error);
+    return NextResponse.json(
+      { error: '再診断に失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -10,7 +10,7 @@
 import { NextResponse } from 'next/server';
 import { verifyAccessToken, createLineClient } from '@/lib/line-client';
 import { consumeCaseToken, linkCaseToUser, setActiveCase, getCase, setConversationState } from '@/lib/kv';
-import type { Message } from '@line/bot-sdk';
+import { buildCaseHandoff } from '@/lib/line-conversation';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -130,148 +130,16 @@ export async function POST(req: Request) {
         throw new Error('Case data not found');
       }
 
-      const result = caseData.result;
-      const propertyName = result.property_name || '物件名不明';
-      const roomNumber = result.room_number || '';
-      const propertyDisplay = roomNumber ? `${propertyName} ${roomNumber}` : propertyName;
-      const propertyConfirmFlex: Message = {
-        type: 'flex',
-        altText: '確認する物件はこの物件で合ってますか？',
-        contents: {
-          type: 'bubble',
-          body: {
-            type: 'box',
-            layout: 'vertical',
-            contents: [
-              {
-                type: 'text',
-                text: '物件の確認',
-                weight: 'bold',
-                size: 'xl',
-                color: '#333333',
-                margin: 'md',
-                align: 'center',
-              },
-              {
-                type: 'text',
-                text: propertyDisplay,
-                size: 'lg',
-                color: '#666666',
-                margin: 'sm',
-                align: 'center',
-                wrap: true,
-              },
-              {
-                type: 'separator',
-                margin: 'lg',
-              },
-              {
-                type: 'box',
-                layout: 'vertical',
-                spacing: 'sm',
-                margin: 'lg',
-                contents: [
-                  {
-                    type: 'button',
-                    style: 'primary',
-                    color: '#007AFF',
-                    height: 'sm',
-                    action: {
-                      type: 'message',
-                      label: 'はい',
-                      text: 'はい',
-                    },
-                  },
-                  {
-                    type: 'button',
-                    style: 'secondary',
-                    color: '#808080',
-                    height: 'sm',
-                    action: {
-                      type: 'message',
-                      label: 'いいえ',
-                      text: 'いいえ',
-                    },
-                  },
-                  {
-                    type: 'button',
-                    style: 'primary',
-                    color: '#FF9500',
-                    height: 'sm',
-                    action: {
-                      type: 'message',
-                      label: '相談したい',
-                      text: '相談したい',
-                    },
-                  },
-                ],
-              },
-            ],
-          },
-          styles: {
-            body: {
-              backgroundColor: '#FFFFFF',
-            },
-          },
-        },
-      };
-
-      // 裏コマンド（占いモード）の場合
-      if (result.is_secret_mode) {
-        const message = `✨ ${result.fortune_title || 'スペシャル診断'}\n\n${result.fortune_summary || ''}\n\n「履歴」と送信すると、いつでも結果を確認できます。`;
-
-        await client.pushMessage(lineUserId, [
-          { type: 'text', text: message },
-        ]);
-      } else {
-        // 通常の診断結果
-        let message = `✅ 診断結果を引き継ぎました！\n\n`;
-        message += `【物件情報】\n`;
-        message += `${result.property_name || '物件名不明'}`;
-        if (result.room_number) {
-          message += ` ${result.room_number}`;
-        }
-        message += `\n\n`;
-        message += `【診断サマリー】\n`;
-        message += `見積書合計: ${result.total_original?.toLocaleString() || '0'}円\n`;
-        message += `適正価格: ${result.total_fair?.toLocaleString() || '0'}円\n`;
-        message += `💰 削減可能額: ${result.discount_amount?.toLocaleString() || '0'}円\n`;
-        message += `⚠️ リスクスコア: ${result.risk_score || 0}点\n\n`;
-
-        // 削減可能な項目を抽出
-        const cutItems = result.items?.filter((item: any) => item.status === 'cut') || [];
-        const negotiableItems = result.items?.filter((item: any) => item.status === 'negotiable') || [];
-
-        if (cutItems.length > 0) {
-          message += `【削減可能項目】\n`;
-          cutItems.forEach((item: any) => {
-            message += `❌ ${item.name}: ${item.price_original?.toLocaleString() || 0}円\n`;
-            message += `   → ${item.reason}\n`;
-          });
-          message += `\n`;
-        }
-
-        if (negotiableItems.length > 0) {
-          message += `【交渉推奨項目】\n`;
-          negotiableItems.forEach((item: any) => {
-            message += `⚡ ${item.name}: ${item.price_original?.toLocaleString() || 0}円\n`;
-            message += `   → ${item.reason}\n`;
-          });
-          message += `\n`;
-        }
-
-        message += `「履歴」と送信すると、いつでも詳細を確認できます。`;
-
+      // 引き継ぎのメッセージと会話状態は Webhook の友だち追加と共通（lib/line-conversation.ts）
+      const handoff = buildCaseHandoff(caseData);
+      if (handoff.next) {
         // 会話状態を保存（このあと分岐を開始する）
-        await setConversationState(lineUserId, 'property_confirm', caseId);
-
-        // 登録直後は replyToken が無いので pushMessage に統一し、
-        // 「診断結果 + 質問」を messages 配列で1回のAPI呼び出しで必ずセット送信する
-        await client.pushMessage(lineUserId, [
-          { type: 'text', text: message },
-          propertyConfirmFlex,
-        ]);
+        await setConversationState(lineUserId, handoff.next.step, handoff.next.caseId);
       }
+
+      // 登録直後は replyToken が無いので pushMessage に統一し、
+      // 「診断結果（カルーセル。項目が多い場合はテキスト） + 質問」を messages 配列で1回のAPI呼び出しで必ずセット送信する
+      await client.pushMessage(lineUserId, handoff.replies);
     } catch (messageError: any) {
       // メッセージ送信が失敗した場合
       console.error('Failed to send LINE message', {
@@ -0,0 +1,56 @@
+/**
+ * 交渉フレーズAPI
+ *
+ * POST /api/negotiation
+ * Input: { caseId: string } または { result: DiagnosisResult }
+ * Headers: x-case-token（caseId を指定する場合。/api/case/create の accessToken）
+ * Output: { items: NegotiationItemScript[], emails: { polite, firm } }
+ *
+ * 「交渉可」「削除推奨」の項目ごとの電話・メール・LINE用フレーズと、
+ * 見積書全体の交渉メール下書きを返す（lib/negotiation-script.ts）。
+ */
+
+import { NextResponse } from 'next/server';
+import { CASE_ACCESS_TOKEN_HEADER, getCase, verifyCaseAccessToken } from '@/lib/kv';
+import { buildNegotiationScripts } from '@/lib/negotiation-script';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    let result = body?.result;
+
+    if (typeof body?.caseId === 'string') {
+      const caseData = await getCase(body.caseId);
+      if (!caseData?.result) {
+        return NextResponse.json(
+          { error: '案件が見つかりません', details: body.caseId },
+          { status: 404 }
+        );
+      }
+      if (!verifyCaseAccessToken(caseData, req.headers.get(CASE_ACCESS_TOKEN_HEADER))) {
+        return NextResponse.json(
+          { error: 'この案件を操作する権限がありません' },
+          { status: 403 }
+        );
+      }
+      result = caseData.result;
+    }
+
+    if (!result || !Array.isArray(result.items)) {
+      return NextResponse.json({ error: '診断結果が必要です' }, { status: 400 });
+    }
+    if (result.is_secret_mode) {
+      return NextResponse.json({ error: 'この診断結果には交渉対象の項目がありません' }, { status: 400 });
+    }
+
+    return NextResponse.json(buildNegotiationScripts(result));
+  } catch (error: any) {
+    console.error('Negotiation script error:', error);
+    return NextResponse.json(
+      { error: '交渉フレーズの作成に失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * 交渉結果API
+ *
+ * GET  /api/outcome?caseId=xxx
+ * Output: { targets: { item_index, name, status, price_original, price_fair }[], outcome: CaseOutcome | null }
+ *
+ * POST /api/outcome
+ * Input: { caseId: string, items: { item_index, status, price_agreed? }[] }
+ * Output: { outcome: CaseOutcome }
+ *
+ * Headers: x-case-token（案件作成時の accessToken。/api/case/create）
+ *
+ * status: accepted（応じてもらえた）/ partial（一部減額）/ refused（断られた）/ not_asked（交渉していない）
+ * 再見積書のアップロード（見積書の更新）は /api/case/revise。
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  CASE_ACCESS_TOKEN_HEADER,
+  getCase,
+  saveCaseOutcome,
+  verifyCaseAccessToken,
+  type CaseData,
+} from '@/lib/kv';
+import { buildCaseOutcome, listOutcomeTargets, normalizeOutcomeInputs } from '@/lib/outcomes';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: Request) {
+  try {
+    const caseData = await authorizeCase(req, new URL(req.url).searchParams.get('caseId'));
+    if (caseData instanceof NextResponse) return caseData;
+
+    const targets = listOutcomeTargets(caseData.result).map(({ index, item }) => ({
+      item_index: index,
+      name: item.name,
+      status: item.status,
+      price_original: item.price_original,
+      price_fair: item.price_fair,
+    }));
+
+    return NextResponse.json({ targets, outcome: caseData.outcome ?? null });
+  } catch (error: any) {
+    console.error('Outcome GET error:', error);
+    return NextResponse.json(
+      { error: '交渉結果の取得に失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const caseData = await authorizeCase(req, body?.caseId);
+    if (caseData instanceof NextResponse) return caseData;
+    if (caseData.result.is_secret_mode) {
+      return NextResponse.json({ error: 'この診断結果には交渉対象の項目がありません' }, { status: 400 });
+    }
+
+    // 再見積書がアップロード済みなら、実際の削減額はその合計から計算する
+    const items = normalizeOutcomeInputs(caseData.result, body.items);
+    const outcome = buildCaseOutcome(caseData.result, items, caseData.outcome?.revised_estimate ?? null);
+    await saveCaseOutcome(caseData.case_id, outcome, { reported: true });
+
+    console.log('[Outcome] recorded', caseData.case_id, {
+      realized: outcome.realized_savings,
+      expected: outcome.expected_savings,
+    });
+    return NextResponse.json({ outcome });
+  } catch (error: any) {
+    console.error('Outcome POST error:', error);
+    return NextResponse.json(
+      { error: '交渉結果の保存に失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 案件の操作トークンを検証（案件を作成した人だけが交渉結果を記録・取得できる）
+ * @returns 案件データ、または返却すべきエラーレスポンス
+ */
+async function authorizeCase(req: Request, caseId: unknown): Promise<CaseData | NextResponse> {
+  if (typeof caseId !== 'string' || !caseId) {
+    return NextResponse.json({ error: '案件IDが必要です' }, { status: 400 });
+  }
+
+  const caseData = await getCase(caseId);
+  if (!caseData?.result) {
+    return NextResponse.json({ error: '案件が見つかりません', details: caseId }, { status: 404 });
+  }
+
+  if (!verifyCaseAccessToken(caseData, req.headers.get(CASE_ACCESS_TOKEN_HEADER))) {
+    return NextResponse.json({ error: 'この案件を操作する権限がありません' }, { status: 403 });
+  }
+
+  return caseData;
+}
@@ -0,0 +1,48 @@
+/**
+ * 交渉結果の集計API（運用向け）
+ *
+ * GET /api/outcome/stats
+ * Output: { stats: { cases, expected_savings_total, realized_savings_total, rules: { [rule_id]: { counts, acceptance_rate } } } }
+ *
+ * acceptance_rate = (accepted + partial) ÷ 交渉した件数（not_asked を除く）
+ * Headers: x-admin-token（ADMIN_TOKEN と一致すること。未設定の場合は使用不可。lib/admin-auth.ts）
+ */
+
+import { NextResponse } from 'next/server';
+import { getOutcomeStats } from '@/lib/kv';
+import { authorizeAdmin } from '@/lib/admin-auth';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: Request) {
+  const unauthorized = authorizeAdmin(req);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const stats = await getOutcomeStats();
+    if (!stats) {
+      return NextResponse.json({ stats: null });
+    }
+
+    const rules = Object.fromEntries(
+      Object.entries(stats.rules).map(([ruleId, counts]) => {
+        const asked = counts.accepted + counts.partial + counts.refused;
+        return [
+          ruleId,
+          {
+            counts,
+            acceptance_rate: asked > 0 ? Math.round(((counts.accepted + counts.partial) / asked) * 1000) / 10 : null,
+          },
+        ];
+      })
+    );
+
+    return NextResponse.json({ stats: { ...stats, rules } });
+  } catch (error: any) {
+    console.error('Outcome stats error:', error);
+    return NextResponse.json(
+      { error: '集計の取得に失敗しました', details: error.message },
+      { status: 500 }
+    );
+  }
+}
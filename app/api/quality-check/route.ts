@@ -0,0 +1,71 @@
+/**
+ * 画像品質の事前チェックAPI（Geminiを呼ばない）
+ *
+ * POST /api/quality-check
+ * Input: FormData { estimate: File[], plan?: File[], condition?: File[] }（同名フィールドで複数枚可）
+ * Output: {
+ *   ok: boolean,            // 読み取り不能レベルの問題がなければ true
+ *   images: { field, page_index, label, quality, problems, recommendations }[]
+ * }
+ *
+ * /api/analyze の前に呼び、ピンボケ・白飛びなど明らかに読めない写真は
+ * 撮り直しを促すことで、無駄なAI呼び出しと誤った診断を防ぐ。
+ * PDFは画素の品質を測れないためチェック対象外（検証のみ行う）。
+ */
+
+import { NextResponse } from "next/server";
+import { checkImageQuality, fileToImageBuffer } from "@/lib/image-preprocessing";
+import { getUploadFiles, isPdfFile, pageLabel, validateUploadFile } from "@/lib/document-pages";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+const IMAGE_FIELDS = [
+  { field: "estimate", label: "見積書" },
+  { field: "plan", label: "募集図面" },
+  { field: "condition", label: "条件欄" },
+] as const;
+
+export async function POST(req: Request) {
+  try {
+    const formData = await req.formData();
+
+    if (getUploadFiles(formData, "estimate").length === 0) {
+      return NextResponse.json({ error: "見積書の画像が必要です" }, { status: 400 });
+    }
+
+    const images = [];
+    for (const { field, label } of IMAGE_FIELDS) {
+      const files = getUploadFiles(formData, field);
+
+      for (const [index, file] of files.entries()) {
+        const fileLabel = pageLabel(label, index, files.length);
+        const validationError = validateUploadFile(file, fileLabel);
+        if (validationError) {
+          return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+        if (isPdfFile(file)) continue;
+
+        const report = await checkImageQuality(await fileToImageBuffer(file));
+        images.push({
+          field,
+          page_index: index,
+          label: fileLabel,
+          quality: report.quality,
+          problems: report.problems,
+          recommendations: report.recommendations,
+        });
+        console.log(`[Quality] ${field}[${index}]: ${report.quality}`, report.metrics);
+      }
+    }
+
+    const ok = images.every((image) => image.problems.every((problem) => problem.severity !== "error"));
+    return NextResponse.json({ ok, images });
+  } catch (error: any) {
+    console.error("Quality check error:", error);
+    return NextResponse.json(
+      { error: "画像の品質チェックに失敗しました", details: error.message },
+      { status: 500 }
+    );
+  }
+}
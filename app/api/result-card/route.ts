@@ -0,0 +1,63 @@
+/**
+ * 診断結果カード画像API
+ *
+ * GET /api/result-card?caseId=xxx + x-case-token          案件の診断結果から描画（結果ページ用）
+ * GET /api/result-card?caseId=xxx&expires=...&sig=...     同上（LINE Bot用の署名つきURL。lib/result-card.tsx）
+ * GET /api/result-card?shareId=xxx  共有データから描画（公開範囲の設定を適用済み・閲覧数はカウントしない）
+ * Output: image/png（1080×1350）
+ */
+
+import { NextResponse } from "next/server";
+import { CASE_ACCESS_TOKEN_HEADER, getCase, getShare, verifyCaseAccessToken } from "@/lib/kv";
+import { renderResultCard, verifyResultCardSignature } from "@/lib/result-card";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// crypto.randomUUID()
+const CASE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// crypto.randomBytes(16) の base64url（/api/share と同じ）
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const caseId = searchParams.get("caseId");
+    const shareId = searchParams.get("shareId");
+
+    let data: any = null;
+    if (caseId) {
+      if (!CASE_ID_PATTERN.test(caseId)) {
+        return NextResponse.json({ error: "案件IDが無効です" }, { status: 400 });
+      }
+      const caseData = await getCase(caseId);
+      if (
+        caseData &&
+        !verifyCaseAccessToken(caseData, req.headers.get(CASE_ACCESS_TOKEN_HEADER)) &&
+        !verifyResultCardSignature(caseId, searchParams.get("expires"), searchParams.get("sig"))
+      ) {
+        return NextResponse.json({ error: "この案件を操作する権限がありません" }, { status: 403 });
+      }
+      data = caseData?.result ?? null;
+    } else if (shareId) {
+      if (!SHARE_ID_PATTERN.test(shareId)) {
+        return NextResponse.json({ error: "共有IDが無効です" }, { status: 400 });
+      }
+      data = (await getShare(shareId))?.data ?? null;
+    } else {
+      return NextResponse.json({ error: "caseId または shareId が必要です" }, { status: 400 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: "診断結果が見つからないか、有効期限が切れています" }, { status: 404 });
+    }
+
+    const image = await renderResultCard(data);
+    // 共有リンクは取り消しできるため、キャッシュは短めにする
+    image.headers.set("Cache-Control", caseId ? "private, max-age=3600" : "public, max-age=300");
+    return image;
+  } catch (error: any) {
+    console.error("Result card API Error:", error);
+    return NextResponse.json({ error: "画像の生成に失敗しました", details: error.message }, { status: 500 });
+  }
+}
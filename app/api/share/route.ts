@@ -1,10 +1,40 @@
-import { NextResponse } from "next/server";
-
-// 一時的なストレージ（本番環境ではデータベースやRedisなどを使用）
-const shareStorage = new Map<string, { data: any; createdAt: number }>();
+/**
+ * 共有リンクAPI
+ *
+ * POST   /api/share  Input: { result, redaction? }  Output: { shareId, expiresAt, manageToken }
+ * POST   /api/share  Input: { result, redaction?, preview: true }  Output: { preview, redaction }（保存しない）
+ * GET    /api/share?id=xxx  Output: { result }（閲覧数をカウント）
+ * GET    /api/share?id=xxx + x-share-token  Output: { result, manage: { view_count, expires_at } }（カウントしない）
+ * PATCH  /api/share?id=xxx + x-share-token  Input: { extendDays }  Output: { manage }
+ * DELETE /api/share?id=xxx + x-share-token  Output: { success: true }
+ *
+ * manageToken は作成者にだけ返し、リンクの取り消し・延長・閲覧数の確認に使う。
+ * redaction は公開範囲の設定（lib/share-redaction.ts）。
+ * 共有データは KV（lib/kv.ts）にTTL付きで保存する。
+ * インスタンスをまたいでも・コールドスタート後でもリンクが切れないようにするため。
+ * 有効期間は SHARE_TTL_DAYS で変更可能（デフォルト30日）。
+ */
 
-// 24時間後に自動削除
-const EXPIRY_TIME = 24 * 60 * 60 * 1000;
+import { NextResponse } from "next/server";
+import {
+  MAX_SHARE_TTL_DAYS,
+  createShare,
+  extendShare,
+  getShare,
+  getShareViews,
+  incrementShareViews,
+  revokeShare,
+  verifyShareManageToken,
+  type ShareData,
+} from "@/lib/kv";
+import { buildShareData, normalizeRedactionOptions } from "@/lib/share-redaction";
+
+export const runtime = "nodejs";
+
+// crypto.randomBytes(16) の base64url（22文字）
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+const MANAGE_TOKEN_HEADER = "x-share-token";
 
 export async function POST(req: Request) {
   try {
@@ -15,46 +45,18 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "結果データが必要です" }, { status: 400 });
     }
 
-    // 一意のIDを生成
-    const shareId = Math.random().toString(36).substring(2, 15) + 
-                    Math.random().toString(36).substring(2, 15);
-
-    // 結果を保存（物件名などの個人情報を除外した共有用データ）
-    const shareData: any = {
-      items: result.items,
-      total_original: result.total_original,
-      total_fair: result.total_fair,
-      discount_amount: result.discount_amount,
-      pro_review: result.pro_review,
-      risk_score: result.risk_score,
-    };
-
-    // 裏コマンドモードのデータも含める
-    if (result.is_secret_mode) {
-      shareData.is_secret_mode = result.is_secret_mode;
-      shareData.secret_type = result.secret_type;
-      shareData.fortune_title = result.fortune_title;
-      shareData.fortune_subtitle = result.fortune_subtitle;
-      shareData.emoji_char = result.emoji_char;
-      shareData.emoji_reason = result.emoji_reason;
-      shareData.fortune_person_type = result.fortune_person_type;
-      shareData.fortune_items = result.fortune_items;
-      shareData.fortune_action_advice = result.fortune_action_advice;
-      shareData.fortune_lucky_color = result.fortune_lucky_color;
-      shareData.fortune_lucky_number = result.fortune_lucky_number;
-      shareData.fortune_power_spot = result.fortune_power_spot;
-      shareData.fortune_summary = result.fortune_summary;
-    }
+    // 公開範囲の設定に従って共有用データを作成（物件名・抽出JSONは常に除外）
+    const redaction = normalizeRedactionOptions(body.redaction);
+    const shareData = buildShareData(result, redaction);
 
-    shareStorage.set(shareId, {
-      data: shareData,
-      createdAt: Date.now(),
-    });
+    // プレビューのみ（保存しない）
+    if (body.preview === true) {
+      return NextResponse.json({ preview: shareData, redaction });
+    }
 
-    // 期限切れデータをクリーンアップ
-    cleanupExpiredData();
+    const { share, manageToken } = await createShare(shareData);
 
-    return NextResponse.json({ shareId });
+    return NextResponse.json({ shareId: share.share_id, expiresAt: share.expires_at, manageToken });
   } catch (error: any) {
     console.error("Share API Error:", error);
     return NextResponse.json({ error: "保存エラーが発生しました" }, { status: 500 });
@@ -66,32 +68,36 @@ export async function GET(req: Request) {
     const { searchParams } = new URL(req.url);
     const shareId = searchParams.get("id");
 
-    console.log("Share GET request - ID:", shareId);
-    console.log("Current storage size:", shareStorage.size);
-    console.log("Storage keys:", Array.from(shareStorage.keys()));
-
     if (!shareId) {
       console.error("Share GET Error: No ID provided");
       return NextResponse.json({ error: "共有IDが必要です" }, { status: 400 });
     }
 
-    const stored = shareStorage.get(shareId);
+    if (!SHARE_ID_PATTERN.test(shareId)) {
+      return NextResponse.json({ error: "共有IDが無効です" }, { status: 400 });
+    }
+
+    // KVのTTLで期限切れのデータは消えるため、見つからない場合は期限切れも含む
+    const share = await getShare(shareId);
 
-    if (!stored) {
-      console.error("Share GET Error: ID not found in storage:", shareId);
-      return NextResponse.json({ error: "共有リンクが見つかりません" }, { status: 404 });
+    if (!share) {
+      console.warn("Share GET: not found or expired:", shareId);
+      return NextResponse.json({ error: "共有リンクが見つからないか、有効期限が切れています" }, { status: 404 });
     }
 
-    // 期限切れチェック
-    const age = Date.now() - stored.createdAt;
-    if (age > EXPIRY_TIME) {
-      console.log("Share GET: Link expired, age:", age, "EXPIRY_TIME:", EXPIRY_TIME);
-      shareStorage.delete(shareId);
-      return NextResponse.json({ error: "共有リンクの有効期限が切れています" }, { status: 410 });
+    // 作成者（管理トークンあり）の閲覧はカウントせず、管理情報を返す
+    if (verifyShareManageToken(share, req.headers.get(MANAGE_TOKEN_HEADER))) {
+      return NextResponse.json({ result: share.data, manage: await toManageInfo(share) });
     }
 
-    console.log("Share GET: Success, returning data for ID:", shareId);
-    return NextResponse.json({ result: stored.data });
+    try {
+      await incrementShareViews(share);
+    } catch (countError) {
+      // 閲覧数の更新に失敗しても表示は続ける
+      console.warn("Share GET: failed to count view:", countError);
+    }
+
+    return NextResponse.json({ result: share.data });
   } catch (error: any) {
     console.error("Share GET Error:", error);
     console.error("Error stack:", error.stack);
@@ -99,11 +105,66 @@ export async function GET(req: Request) {
   }
 }
 
-function cleanupExpiredData() {
-  const now = Date.now();
-  for (const [id, value] of shareStorage.entries()) {
-    if (now - value.createdAt > EXPIRY_TIME) {
-      shareStorage.delete(id);
+
+export async function PATCH(req: Request) {
+  try {
+    const auth = await authorizeManage(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const body = await req.json().catch(() => ({}));
+    const extendDays = Number(body?.extendDays);
+    if (!Number.isFinite(extendDays) || extendDays <= 0 || extendDays > MAX_SHARE_TTL_DAYS) {
+      return NextResponse.json(
+        { error: `延長日数は1〜${MAX_SHARE_TTL_DAYS}日で指定してください` },
+        { status: 400 }
+      );
     }
+
+    const updated = await extendShare(auth, extendDays);
+    console.log("Share PATCH: extended", updated.share_id, "until", updated.expires_at);
+    return NextResponse.json({ manage: await toManageInfo(updated) });
+  } catch (error: any) {
+    console.error("Share PATCH Error:", error);
+    return NextResponse.json({ error: "有効期限の延長に失敗しました", details: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const auth = await authorizeManage(req);
+    if (auth instanceof NextResponse) return auth;
+
+    await revokeShare(auth.share_id);
+    console.log("Share DELETE: revoked", auth.share_id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Share DELETE Error:", error);
+    return NextResponse.json({ error: "共有リンクの削除に失敗しました", details: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * 管理操作の認可（共有IDと管理トークンを検証）
+ * @returns 共有データ、または返却すべきエラーレスポンス
+ */
+async function authorizeManage(req: Request): Promise<ShareData | NextResponse> {
+  const shareId = new URL(req.url).searchParams.get("id");
+  if (!shareId || !SHARE_ID_PATTERN.test(shareId)) {
+    return NextResponse.json({ error: "共有IDが無効です" }, { status: 400 });
   }
+
+  const share = await getShare(shareId);
+  if (!share) {
+    return NextResponse.json({ error: "共有リンクが見つからないか、有効期限が切れています" }, { status: 404 });
+  }
+
+  if (!verifyShareManageToken(share, req.headers.get(MANAGE_TOKEN_HEADER))) {
+    return NextResponse.json({ error: "この共有リンクを管理する権限がありません" }, { status: 403 });
+  }
+
+  return share;
+}
+
+async function toManageInfo(share: ShareData) {
+  return { view_count: await getShareViews(share), expires_at: share.expires_at, created_at: share.created_at };
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 type SimResult = {
   ok?: boolean;
@@ -11,6 +11,9 @@ type SimResult = {
   };
 };
 
+// 受付箱（/admin/inbox）と同じ管理トークンを使う
+const TOKEN_STORAGE_KEY = "adminToken";
+
 const buttons = [
   { label: "はい", value: "はい" },
   { label: "いいえ", value: "いいえ" },
@@ -18,6 +21,10 @@ const buttons = [
   { label: "申し込みをしたい", value: "申し込みをしたい" },
   { label: "申し込みしない", value: "申し込みしない" },
   { label: "履歴", value: "履歴" },
+  { label: "詳細", value: "詳細" },
+  { label: "見積書PDF", value: "見積書PDF" },
+  { label: "交渉メール", value: "交渉メール" },
+  { label: "見積更新", value: "見積更新" },
 ];
 
 const states = [
@@ -34,6 +41,11 @@ export default function LineTestPage() {
   const [caseId, setCaseId] = useState("demo-case");
   const [result, setResult] = useState<SimResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [adminToken, setAdminToken] = useState("");
+
+  useEffect(() => {
+    setAdminToken(sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? "");
+  }, []);
 
   const runTest = async () => {
     setIsLoading(true);
@@ -41,7 +53,7 @@ export default function LineTestPage() {
     try {
       const res = await fetch("/api/line/simulate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "x-admin-token": adminToken },
         body: JSON.stringify({
           messageText,
           currentState,
@@ -62,7 +74,7 @@ export default function LineTestPage() {
       <div className="max-w-2xl mx-auto">
         <h1 className="text-2xl font-black mb-4">LINE 分岐テスト（簡単版）</h1>
         <p className="text-sm text-slate-600 mb-6">
-          ボタンを押すだけで分岐の結果が表示されます。LINEアプリ不要です。
+          ボタンを押すだけで分岐の結果が表示されます。LINEアプリ不要です。本番のWebhookと同じ分岐（lib/line-conversation.ts）を使います。
         </p>
 
         <div className="bg-white rounded-2xl shadow-lg border border-slate-200 p-5 mb-6">
@@ -108,6 +120,17 @@ export default function LineTestPage() {
             placeholder="demo-case"
           />
 
+          <div className="text-sm font-bold mb-2">管理トークン（ADMIN_TOKEN）</div>
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(e) => {
+              setAdminToken(e.target.value);
+              sessionStorage.setItem(TOKEN_STORAGE_KEY, e.target.value);
+            }}
+            className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm mb-4"
+          />
+
           <button
             onClick={runTest}
             disabled={isLoading}
@@ -62,6 +62,13 @@ type AnalysisResult = {
   has_unconfirmed_items?: boolean;
   unconfirmed_item_names?: string[];
   extraction_quality?: 'high' | 'medium' | 'low';
+  quality_advice?: string[];
+  conflicts?: {
+    field_name: string;
+    label?: string;
+    conflict_type: "value_mismatch" | "flyer_null_estimate_exists" | "low_confidence";
+    description?: string;
+  }[];
   // 裏コマンド用
   is_secret_mode?: boolean;
   secret_type?: string;
@@ -88,35 +95,158 @@ type AnalysisResult = {
 
 type UploadTarget = "estimate" | "plan" | "condition";
 
+// 共有リンクの公開範囲（lib/share-redaction.ts と同じ形）
+type ShareRedaction = {
+  amount_display: "amounts" | "percentages";
+  hide_item_names: boolean;
+  strip_proper_nouns: boolean;
+};
+type SharePreviewData = {
+  amount_display: "amounts" | "percentages";
+  items: { name: string; status: string; price_original: number | null; share_rate?: number }[];
+  pro_review: { content: string };
+  headline: string | null;
+  discount_amount?: number;
+  discount_rate?: number;
+};
+
+// 交渉フレーズ（/api/negotiation）
+type NegotiationChannel = "phone" | "email" | "line";
+type NegotiationTone = "polite" | "firm";
+type NegotiationData = {
+  items: {
+    item_name: string;
+    status: "negotiable" | "cut";
+    basis: string;
+    reduction: number;
+    scripts: Record<NegotiationChannel, Record<NegotiationTone, string>>;
+  }[];
+  emails: Record<NegotiationTone, { subject: string; body: string; total_reduction: number }>;
+};
+
+const NEGOTIATION_CHANNEL_LABELS: Record<NegotiationChannel, string> = { phone: "📞 電話", email: "✉️ メール", line: "💬 LINE" };
+
+// 交渉結果の記録（/api/outcome）
+type OutcomeStatus = "accepted" | "partial" | "refused" | "not_asked";
+type OutcomeData = {
+  items: { item_index: number; status: OutcomeStatus; price_agreed: number | null }[];
+  revised_estimate: { total: number; uploaded_at: string } | null;
+  expected_savings: number;
+  realized_savings: number;
+  realized_source: "revised_estimate" | "items";
+  realization_rate: number | null;
+};
+
+const OUTCOME_STATUS_LABELS: Record<OutcomeStatus, string> = {
+  accepted: "応じてもらえた",
+  partial: "一部減額",
+  refused: "断られた",
+  not_asked: "交渉していない",
+};
+
+// 見積書の更新（/api/case/revise）
+type EstimateDiffStatus = "removed" | "reduced" | "increased" | "unchanged" | "added";
+type EstimateDiffData = {
+  rows: { status: EstimateDiffStatus; name: string; price_original: number | null; price_revised: number | null; difference: number | null }[];
+  total_original: number;
+  total_revised: number;
+  total_difference: number;
+  added_total: number;
+};
+
+const ESTIMATE_DIFF_LABELS: Record<EstimateDiffStatus, { label: string; className: string }> = {
+  added: { label: "🆕 新規追加", className: "bg-red-100 text-red-700" },
+  increased: { label: "⬆️ 増額", className: "bg-orange-100 text-orange-700" },
+  removed: { label: "✅ 削除", className: "bg-green-100 text-green-700" },
+  reduced: { label: "⬇️ 減額", className: "bg-emerald-100 text-emerald-700" },
+  unchanged: { label: "変更なし", className: "bg-gray-100 text-gray-600" },
+};
+
+// 物件比較（/api/compare）
+type ComparisonCandidate = { key: string; label: string; result: AnalysisResult };
+type ComparisonData = {
+  stay_months: number;
+  rows: {
+    label: string;
+    rent: number | null;
+    rent_inferred: boolean;
+    move_in_total: number;
+    total_fair: number;
+    discount_amount: number;
+    warning_amount: number;
+    effective_monthly_cost: number | null;
+    effective_monthly_cost_fair: number | null;
+  }[];
+  best: { move_in_total: number | null; total_fair: number | null; effective_monthly_cost: number | null };
+  notes: string[];
+};
+
+// 画像品質の事前チェック結果（/api/quality-check）
+type QualityCheckImage = {
+  field: UploadTarget;
+  page_index: number;
+  label: string;
+  quality: 'high' | 'medium' | 'low';
+  problems: { code: string; severity: 'error' | 'warning'; label: string; message: string }[];
+};
+
 const DIAGNOSIS_STORAGE_KEY = 'diagnosis_result';
+const COMPARISON_STORAGE_KEY = 'comparison_candidates';
+const SHARE_STORAGE_KEY = 'diagnosis_share';
+const CASE_ID_STORAGE_KEY = 'diagnosis_case_id';
+const CASE_ACCESS_TOKEN_STORAGE_KEY = 'diagnosis_case_access_token';
+const MAX_COMPARISON_CANDIDATES = 5;
+
+// 同じ診断結果を比較リストに二重登録しないためのキー
+const comparisonKeyOf = (r: AnalysisResult) =>
+  `${r.property_name}|${r.room_number}|${r.total_original}|${r.items.map((item) => `${item.name}:${item.price_original}`).join(',')}`;
+
+const isPdfFile = (file: File) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+// --- 画像圧縮関数（PDFはそのまま返す） ---
+// 向きの補正・縮小・切り抜きはサーバー側（lib/image-preprocessing.ts）で行うため、
+// 送信サイズの上限を超える大きな写真だけを長辺4096px（サーバーの切り抜き元の解像度）まで縮める
+const UPLOAD_MAX_DIMENSION = 4096;
+const UPLOAD_MAX_BYTES = 4 * 1024 * 1024;
 
-// --- 画像圧縮関数 ---
 const compressImage = async (file: File): Promise<File> => {
+  if (isPdfFile(file)) return file;
   return new Promise((resolve, reject) => {
     const img = new Image();
     const reader = new FileReader();
     reader.onload = (e) => { img.src = e.target?.result as string; };
     reader.onerror = () => reject(new Error("読み込み失敗"));
+    img.onerror = () => reject(new Error("画像の読み込み失敗"));
     img.onload = () => {
+      const longSide = Math.max(img.width, img.height);
+      if (file.size <= UPLOAD_MAX_BYTES && longSide <= UPLOAD_MAX_DIMENSION) {
+        resolve(file);
+        return;
+      }
+      const scale = Math.min(1, UPLOAD_MAX_DIMENSION / longSide);
       const canvas = document.createElement("canvas");
-      const maxWidth = 1200;
-      const scaleSize = maxWidth / img.width;
-      const width = Math.min(maxWidth, img.width);
-      const height = img.height * (img.width > maxWidth ? scaleSize : 1);
-      canvas.width = width;
-      canvas.height = height;
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
       const ctx = canvas.getContext("2d");
       if (!ctx) { reject(new Error("Canvasエラー")); return; }
-      ctx.drawImage(img, 0, 0, width, height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
       canvas.toBlob((blob) => {
         if (blob) resolve(new File([blob], file.name, { type: "image/jpeg" }));
         else reject(new Error("圧縮失敗"));
-      }, "image/jpeg", 0.7);
+      }, "image/jpeg", 0.9);
     };
     reader.readAsDataURL(file);
   });
 };
 
+// --- PDFプレビュー（ブラウザでの描画はせずファイル名のみ表示） ---
+const PdfPreview = ({ fileName }: { fileName: string }) => (
+  <div className="w-full h-full max-h-64 flex flex-col items-center justify-center gap-2 rounded-lg bg-slate-50 border border-slate-200 py-8">
+    <span className="text-4xl">📄</span>
+    <p className="text-xs text-slate-600 font-bold break-all px-2 text-center">{fileName}</p>
+  </div>
+);
+
 // --- カスタムカメラコンポーネント ---
 const CameraCapture = ({ 
   isOpen, 
@@ -320,6 +450,114 @@ const CameraCapture = ({
   );
 };
 
+// --- 読み取り品質バナー ---
+const QualityBanner = ({ quality, advice }: { quality?: 'high' | 'medium' | 'low'; advice?: string[] }) => {
+  if (!quality || quality === 'high') return null;
+  const isLow = quality === 'low';
+  return (
+    <div className={`mb-6 rounded-xl border p-4 animate-fade-in-up ${isLow ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <p className={`text-sm font-bold mb-1 ${isLow ? 'text-red-700' : 'text-amber-700'}`}>
+        {isLow ? '📷 画像が読み取りにくく、診断結果の信頼性が低い状態です' : '📷 一部の項目が読み取りにくい状態です'}
+      </p>
+      <p className="text-xs text-gray-600 mb-2">
+        {isLow ? '下記を参考に撮影し直して、もう一度診断することをおすすめします。' : '金額が実際の書類と一致しているか確認してください。'}
+      </p>
+      {advice && advice.length > 0 && (
+        <ul className="space-y-1">
+          {advice.map((text, idx) => (
+            <li key={idx} className="text-xs text-gray-700">・{text}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// --- 物件比較テーブル ---
+const ComparisonTable = ({ comparison }: { comparison: ComparisonData }) => {
+  const yen = (value: number | null) => (value !== null ? `¥${value.toLocaleString()}` : '不明');
+  const isBest = (key: keyof ComparisonData['best'], index: number) =>
+    comparison.rows.length > 1 && comparison.best[key] === index;
+  const metrics: { label: string; render: (row: ComparisonData['rows'][number]) => string; best?: keyof ComparisonData['best'] }[] = [
+    { label: '賃料', render: (row) => `${yen(row.rent)}${row.rent_inferred ? '（推定）' : ''}` },
+    { label: '初期費用（提示額）', render: (row) => yen(row.move_in_total), best: 'move_in_total' },
+    { label: '適正額', render: (row) => yen(row.total_fair), best: 'total_fair' },
+    { label: '削減可能額', render: (row) => yen(row.discount_amount) },
+    { label: '要確認額', render: (row) => yen(row.warning_amount) },
+    { label: `実質月額（${comparison.stay_months / 12}年）`, render: (row) => yen(row.effective_monthly_cost), best: 'effective_monthly_cost' },
+    { label: '実質月額（適正額）', render: (row) => yen(row.effective_monthly_cost_fair) },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs md:text-sm border-collapse">
+        <thead>
+          <tr>
+            <th className="text-left p-2 border-b border-gray-200 text-gray-500 font-normal"></th>
+            {comparison.rows.map((row, idx) => (
+              <th key={idx} className="text-right p-2 border-b border-gray-200 font-bold text-slate-800 whitespace-nowrap">{row.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.label}>
+              <td className="p-2 border-b border-gray-100 text-gray-600 whitespace-nowrap">{metric.label}</td>
+              {comparison.rows.map((row, idx) => (
+                <td
+                  key={idx}
+                  className={`p-2 border-b border-gray-100 text-right whitespace-nowrap ${metric.best && isBest(metric.best, idx) ? 'font-bold text-emerald-600' : 'text-slate-800'}`}
+                >
+                  {metric.render(row)}{metric.best && isBest(metric.best, idx) ? ' 👑' : ''}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-500 mt-2">
+        ※実質月額 = (初期費用 + 月額（賃料+管理費）×{comparison.stay_months}ヶ月) ÷ {comparison.stay_months}。フリーレントを考慮した目安です。
+      </p>
+      {comparison.notes.map((note, idx) => (
+        <p key={idx} className="text-[10px] text-amber-600">※{note}</p>
+      ))}
+    </div>
+  );
+};
+
+// --- 見積書の差分テーブル ---
+const EstimateDiffTable = ({ diff }: { diff: EstimateDiffData }) => {
+  const yen = (value: number | null) => (value !== null ? `¥${value.toLocaleString()}` : '不明');
+  const sign = (value: number) => `${value > 0 ? '+' : value < 0 ? '-' : '±'}¥${Math.abs(value).toLocaleString()}`;
+
+  return (
+    <div>
+      <p className="text-sm font-bold text-slate-800 mb-2">
+        合計: {yen(diff.total_original)} → {yen(diff.total_revised)}
+        <span className={diff.total_difference <= 0 ? 'text-emerald-600' : 'text-red-600'}>（{sign(diff.total_difference)}）</span>
+      </p>
+      {diff.added_total > 0 && (
+        <p className="text-xs font-bold text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-2">
+          ⚠️ 新しい費用（計{yen(diff.added_total)}）が追加されています。必要な費用か確認しましょう。
+        </p>
+      )}
+      <ul className="space-y-1">
+        {diff.rows.map((row, idx) => (
+          <li key={idx} className="flex items-center gap-2 text-xs bg-slate-50 rounded-lg px-3 py-2">
+            <span className={`shrink-0 px-2 py-0.5 rounded-full font-bold ${ESTIMATE_DIFF_LABELS[row.status].className}`}>
+              {ESTIMATE_DIFF_LABELS[row.status].label}
+            </span>
+            <span className="flex-1 truncate text-slate-800">{row.name}</span>
+            <span className="text-slate-600 whitespace-nowrap">
+              {row.status === 'added' ? yen(row.price_revised) : row.status === 'removed' ? yen(row.price_original) : `${yen(row.price_original)} → ${yen(row.price_revised)}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
 // --- 占いスコアゲージコンポーネント ---
 const FortuneGauge = ({ score, category }: { score: number; category: string }) => {
   const getGradient = () => {
@@ -569,6 +807,8 @@ const FortuneResult = ({ result }: { result: AnalysisResult }) => {
 export default function Home() {
   const [currentView, setCurrentView] = useState<"top" | "result">("top");
   const [estimateFile, setEstimateFile] = useState<File | null>(null);
+  // 長い見積書の2枚目以降（複数枚選択時）
+  const [estimateExtraFiles, setEstimateExtraFiles] = useState<File[]>([]);
   const [planFile, setPlanFile] = useState<File | null>(null);
   const [conditionFile, setConditionFile] = useState<File | null>(null);
   const [estimatePreview, setEstimatePreview] = useState<string | null>(null);
@@ -580,15 +820,47 @@ export default function Home() {
   const [loadingStep, setLoadingStep] = useState("");
   const [loadingElapsed, setLoadingElapsed] = useState(0);
   const [errorMessage, setErrorMessage] = useState("");
+  const [qualityIssues, setQualityIssues] = useState<QualityCheckImage[] | null>(null);
+  const [comparisonList, setComparisonList] = useState<ComparisonCandidate[]>([]);
+  const [comparison, setComparison] = useState<ComparisonData | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  // 交渉フレーズ（自分で交渉する人向け）
+  const [negotiation, setNegotiation] = useState<NegotiationData | null>(null);
+  const [isLoadingNegotiation, setIsLoadingNegotiation] = useState(false);
+  const [negotiationTone, setNegotiationTone] = useState<NegotiationTone>("polite");
+  const [negotiationChannel, setNegotiationChannel] = useState<NegotiationChannel>("phone");
+  const [copiedNegotiationKey, setCopiedNegotiationKey] = useState<string | null>(null);
+  // 交渉結果の記録（項目ごとの結果＋再見積書）
+  const [isOutcomeOpen, setIsOutcomeOpen] = useState(false);
+  const [outcomeDraft, setOutcomeDraft] = useState<Record<number, { status: OutcomeStatus; price_agreed: string }>>({});
+  const [outcome, setOutcome] = useState<OutcomeData | null>(null);
+  const [isSavingOutcome, setIsSavingOutcome] = useState(false);
+  const [isUploadingRevised, setIsUploadingRevised] = useState(false);
+  const [estimateDiff, setEstimateDiff] = useState<EstimateDiffData | null>(null);
   const progressRef = useRef(0);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const elapsedTimerRef = useRef<NodeJS.Timeout | null>(null);
   const loadingStartRef = useRef<number>(0);
-  const resultRef = useRef<HTMLDivElement>(null);
   const [isCopied, setIsCopied] = useState(false);
   const [shareId, setShareId] = useState<string | null>(null);
+  // 共有リンクの管理トークン（取り消し・延長・閲覧数の確認用。作成者のブラウザにだけ保持）
+  const [shareManageToken, setShareManageToken] = useState<string | null>(null);
+  const [shareManage, setShareManage] = useState<{ view_count: number; expires_at: string } | null>(null);
+  const [isManagingShare, setIsManagingShare] = useState(false);
+  // 共有前のプレビュー（公開範囲を選んでから作成する）
+  const [isSharePreviewOpen, setIsSharePreviewOpen] = useState(false);
+  const [shareRedaction, setShareRedaction] = useState<ShareRedaction>({
+    amount_display: "amounts",
+    hide_item_names: false,
+    strip_proper_nouns: true,
+  });
+  const [sharePreview, setSharePreview] = useState<SharePreviewData | null>(null);
   const [isCreatingShare, setIsCreatingShare] = useState(false);
   const [lineToken, setLineToken] = useState<string | null>(null);
+  // 診断結果の案件ID（結果カード画像の取得に使用）
+  const [caseId, setCaseId] = useState<string | null>(null);
+  // 案件の操作トークン（案件IDで案件を読み書きするAPIに使用）
+  const [caseAccessToken, setCaseAccessToken] = useState<string | null>(null);
   const [isLineInAppBrowser, setIsLineInAppBrowser] = useState(false);
   const [isIOSDevice, setIsIOSDevice] = useState(false);
   const [downloadPreviewUrl, setDownloadPreviewUrl] = useState<string | null>(null);
@@ -615,6 +887,8 @@ export default function Home() {
 
   // 結果画面用の図面入力参照
   const resultPlanInputRef = useRef<HTMLInputElement>(null);
+  // 再見積書の入力参照
+  const revisedEstimateInputRef = useRef<HTMLInputElement>(null);
 
   // 図面追加時の自動再診断フラグ
   const shouldAutoReanalyzeRef = useRef(false);
@@ -651,6 +925,18 @@ export default function Home() {
         // LINE連携トークンも復元
         const savedLineToken = sessionStorage.getItem('diagnosis_line_token');
         if (savedLineToken) setLineToken(savedLineToken);
+        const savedCaseId = sessionStorage.getItem(CASE_ID_STORAGE_KEY);
+        if (savedCaseId) setCaseId(savedCaseId);
+        const savedCaseAccessToken = sessionStorage.getItem(CASE_ACCESS_TOKEN_STORAGE_KEY);
+        if (savedCaseAccessToken) setCaseAccessToken(savedCaseAccessToken);
+
+        // 共有リンクと管理トークンも復元
+        const savedShare = sessionStorage.getItem(SHARE_STORAGE_KEY);
+        if (savedShare) {
+          const share = JSON.parse(savedShare) as { shareId: string; manageToken: string };
+          setShareId(share.shareId);
+          setShareManageToken(share.manageToken);
+        }
       } else {
         sessionStorage.removeItem(DIAGNOSIS_STORAGE_KEY);
       }
@@ -658,28 +944,126 @@ export default function Home() {
       try {
         sessionStorage.removeItem(DIAGNOSIS_STORAGE_KEY);
         sessionStorage.removeItem('diagnosis_line_token');
+        sessionStorage.removeItem(CASE_ID_STORAGE_KEY);
+        sessionStorage.removeItem(CASE_ACCESS_TOKEN_STORAGE_KEY);
       } catch {
         // 無視
       }
     }
   }, []);
 
+  // 比較リストはセッション内で保持（別の物件を診断しても消えない）
+  useEffect(() => {
+    try {
+      const raw = sessionStorage.getItem(COMPARISON_STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw);
+        if (Array.isArray(parsed)) setComparisonList(parsed);
+      }
+    } catch {
+      // 無視
+    }
+  }, []);
+
+  const updateComparisonList = (next: ComparisonCandidate[]) => {
+    setComparisonList(next);
+    setComparison(null);
+    try {
+      sessionStorage.setItem(COMPARISON_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // 無視
+    }
+  };
+
+  const handleAddToComparison = () => {
+    if (!result || result.is_secret_mode) return;
+    const key = comparisonKeyOf(result);
+    if (comparisonList.some((candidate) => candidate.key === key)) return;
+    if (comparisonList.length >= MAX_COMPARISON_CANDIDATES) {
+      alert(`比較できるのは${MAX_COMPARISON_CANDIDATES}件までです。不要な物件をリストから外してください。`);
+      return;
+    }
+    const hasName = result.property_name && result.property_name !== '物件名入力なし';
+    const label = hasName
+      ? `${result.property_name}${result.room_number ? ` ${result.room_number}` : ''}`
+      : `候補${comparisonList.length + 1}`;
+    updateComparisonList([...comparisonList, { key, label, result }]);
+  };
+
+  const handleRemoveFromComparison = (key: string) => {
+    updateComparisonList(comparisonList.filter((candidate) => candidate.key !== key));
+  };
+
+  const handleCompare = async () => {
+    if (comparisonList.length < 2) return;
+    setIsComparing(true);
+    try {
+      const res = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          results: comparisonList.map((candidate) => ({ label: candidate.label, result: candidate.result })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "比較に失敗しました");
+      setComparison(data.comparison);
+    } catch (error: any) {
+      console.error("Compare error:", error);
+      alert(error.message || "比較に失敗しました。もう一度お試しください。");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleLoadNegotiation = async () => {
+    if (!result) return;
+    setIsLoadingNegotiation(true);
+    try {
+      const res = await fetch("/api/negotiation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ result }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "交渉フレーズの作成に失敗しました");
+      setNegotiation(data);
+    } catch (error: any) {
+      console.error("Negotiation error:", error);
+      alert(error.message || "交渉フレーズの作成に失敗しました。もう一度お試しください。");
+    } finally {
+      setIsLoadingNegotiation(false);
+    }
+  };
+
+  const handleCopyNegotiation = async (key: string, text: string) => {
+    const copied = await copyTextToClipboard(text);
+    if (!copied) {
+      window.prompt("自動コピーに失敗しました。下の文面を手動でコピーしてください。", text);
+      return;
+    }
+    setCopiedNegotiationKey(key);
+    setTimeout(() => setCopiedNegotiationKey((prev) => (prev === key ? null : prev)), 2000);
+  };
+
   const handleFileChange = (file: File, target: UploadTarget) => {
-      if (!file.type.startsWith('image/')) {
-        setErrorMessage("画像ファイルを選択してください");
+      if (!file.type.startsWith('image/') && !isPdfFile(file)) {
+        setErrorMessage("画像またはPDFファイルを選択してください");
         return;
       }
       if (file.size > 10 * 1024 * 1024) {
-        setErrorMessage("画像サイズが大きすぎます（10MB以下にしてください）");
+        setErrorMessage("ファイルサイズが大きすぎます（10MB以下にしてください）");
         return;
       }
 
     const preview = URL.createObjectURL(file);
+    setQualityIssues(null);
 
     switch (target) {
       case "estimate":
         if (estimatePreview) URL.revokeObjectURL(estimatePreview);
         setEstimateFile(file);
+        setEstimateExtraFiles([]);
         setEstimatePreview(preview);
         break;
       case "plan":
@@ -701,10 +1085,20 @@ export default function Home() {
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, target: UploadTarget) => {
-    const file = e.target.files?.[0];
+    const files = Array.from(e.target.files ?? []);
+    const [file, ...extraFiles] = files;
     if (file) {
       handleFileChange(file, target);
     }
+    // 見積書は複数枚まとめて選択できる（2枚目以降は続きのページとして送る）
+    if (target === "estimate" && extraFiles.length > 0) {
+      const invalid = extraFiles.find((f) => (!f.type.startsWith('image/') && !isPdfFile(f)) || f.size > 10 * 1024 * 1024);
+      if (invalid) {
+        setErrorMessage(`${invalid.name} は追加できませんでした（10MB以下の画像またはPDFを選択してください）`);
+        return;
+      }
+      setEstimateExtraFiles(extraFiles);
+    }
   };
 
   const openCamera = (target: UploadTarget) => {
@@ -731,7 +1125,7 @@ export default function Home() {
   const [isSecretModeLoading, setIsSecretModeLoading] = useState(false);
   const [secretType, setSecretType] = useState<string | null>(null);
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (options?: { skipQualityCheck?: boolean }) => {
     // 二重送信防止
     if (isLoading) {
       console.warn("診断処理が既に実行中です。二重送信を防止しました。");
@@ -742,6 +1136,7 @@ export default function Home() {
     setLoadingProgress(0);
     progressRef.current = 0;
     setErrorMessage("");
+    setQualityIssues(null);
     setResult(null);
     setIsSecretModeLoading(false);
     setSecretType(null);
@@ -862,6 +1257,13 @@ export default function Home() {
       } catch {
         formData.append("estimate", estimateFile);
       }
+      for (const extraFile of estimateExtraFiles) {
+        try {
+          formData.append("estimate", await compressImage(extraFile));
+        } catch {
+          formData.append("estimate", extraFile);
+        }
+      }
       if (planFile) {
         try {
           const compressedPlan = await compressImage(planFile);
@@ -879,6 +1281,27 @@ export default function Home() {
         }
       }
 
+      // 画像品質の事前チェック（明らかに読めない写真はAI診断の前に撮り直しを促す）
+      if (!options?.skipQualityCheck) {
+        setLoadingStep("画像の品質を確認しています...");
+        try {
+          const qualityRes = await fetch("/api/quality-check", { method: "POST", body: formData });
+          if (qualityRes.ok) {
+            const qualityData: { ok: boolean; images: QualityCheckImage[] } = await qualityRes.json();
+            if (!qualityData.ok) {
+              if (timerRef.current) clearTimeout(timerRef.current);
+              if (elapsedTimerRef.current) clearTimeout(elapsedTimerRef.current);
+              cleanupMessageTimer();
+              setQualityIssues(qualityData.images.filter(image => image.problems.some(p => p.severity === 'error')));
+              setIsLoading(false);
+              return;
+            }
+          }
+        } catch (qualityError) {
+          console.log("品質チェックスキップ（診断を続行）:", qualityError);
+        }
+      }
+
       // まず画像分類を行い、裏コマンドかどうかを判定
       setLoadingStep("画像を解析しています...");
       const classifyFormData = new FormData();
@@ -970,7 +1393,21 @@ export default function Home() {
       setLoadingStep("✨ 診断完了！");
       setTimeout(async () => {
         setResult(data.result);
+        setCaseId(null);
+        setCaseAccessToken(null);
+        setNegotiation(null);
+        setIsOutcomeOpen(false);
+        setOutcome(null);
+        setOutcomeDraft({});
+        setEstimateDiff(null);
         setShareId(null);
+        setShareManageToken(null);
+        setShareManage(null);
+        try {
+          sessionStorage.removeItem(SHARE_STORAGE_KEY);
+        } catch {
+          // 無視
+        }
         setIsLoading(false);
         setCurrentView("result");
         try {
@@ -983,7 +1420,13 @@ export default function Home() {
             body: JSON.stringify({ result: data.result }),
           });
           if (caseRes.ok) {
-            const { caseToken, token } = await caseRes.json();
+            const { caseId: createdCaseId, caseToken, token, accessToken } = await caseRes.json();
+            if (createdCaseId && accessToken) {
+              setCaseId(createdCaseId);
+              setCaseAccessToken(accessToken);
+              sessionStorage.setItem(CASE_ID_STORAGE_KEY, createdCaseId);
+              sessionStorage.setItem(CASE_ACCESS_TOKEN_STORAGE_KEY, accessToken);
+            }
             const resolvedToken = caseToken || token || null;
             if (resolvedToken) {
               setLineToken(resolvedToken);
@@ -1018,17 +1461,29 @@ export default function Home() {
     try {
       sessionStorage.removeItem(DIAGNOSIS_STORAGE_KEY);
       sessionStorage.removeItem('diagnosis_line_token');
+      sessionStorage.removeItem(CASE_ID_STORAGE_KEY);
+      sessionStorage.removeItem(CASE_ACCESS_TOKEN_STORAGE_KEY);
+      sessionStorage.removeItem(SHARE_STORAGE_KEY);
     } catch {
       // 無視
     }
     setEstimateFile(null);
+    setEstimateExtraFiles([]);
     setPlanFile(null);
     setConditionFile(null);
     setEstimatePreview(null);
     setPlanPreview(null);
     setConditionPreview(null);
     setResult(null);
+    setQualityIssues(null);
     setLineToken(null);
+    setCaseId(null);
+    setCaseAccessToken(null);
+    setNegotiation(null);
+    setIsOutcomeOpen(false);
+    setOutcome(null);
+    setOutcomeDraft({});
+    setEstimateDiff(null);
     setDownloadPreviewFile(null);
     setDownloadPreviewUrl((prev) => {
       if (prev) URL.revokeObjectURL(prev);
@@ -1169,11 +1624,18 @@ export default function Home() {
       const res = await fetch("/api/share", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ result }),
+        body: JSON.stringify({ result, redaction: shareRedaction }),
       });
       if (!res.ok) throw new Error("共有リンクの作成に失敗しました");
       const data = await res.json();
       setShareId(data.shareId);
+      setShareManageToken(data.manageToken ?? null);
+      setShareManage(data.expiresAt ? { view_count: 0, expires_at: data.expiresAt } : null);
+      try {
+        sessionStorage.setItem(SHARE_STORAGE_KEY, JSON.stringify({ shareId: data.shareId, manageToken: data.manageToken }));
+      } catch {
+        // 無視
+      }
       return data.shareId;
     } catch (error) {
       console.error("Share creation error:", error);
@@ -1184,9 +1646,121 @@ export default function Home() {
     }
   };
 
+  // 公開される内容のプレビュー（保存はしない）
+  useEffect(() => {
+    if (!isSharePreviewOpen || !result) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/share", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ result, redaction: shareRedaction, preview: true }),
+        });
+        if (!res.ok) throw new Error("プレビューの取得に失敗しました");
+        const data = await res.json();
+        if (!cancelled) setSharePreview(data.preview);
+      } catch (error) {
+        console.error("Share preview error:", error);
+        if (!cancelled) setSharePreview(null);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isSharePreviewOpen, shareRedaction, result]);
+
+  const handleConfirmShare = async () => {
+    const id = await createShareLink();
+    if (!id) return;
+    setIsSharePreviewOpen(false);
+    const url = typeof window !== 'undefined' ? `${window.location.origin}/share/${id}` : "";
+    if (url && await copyTextToClipboard(url)) {
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    }
+  };
+
+  // 共有リンクの閲覧数・有効期限を取得（作成者の閲覧はカウントされない）
+  const refreshShareManage = useCallback(async () => {
+    if (!shareId || !shareManageToken) return;
+    try {
+      const res = await fetch(`/api/share?id=${shareId}`, { headers: { "x-share-token": shareManageToken } });
+      if (res.status === 404) {
+        setShareId(null);
+        setShareManage(null);
+        return;
+      }
+      const data = await res.json();
+      if (data.manage) setShareManage(data.manage);
+    } catch (error) {
+      console.error("Share manage fetch error:", error);
+    }
+  }, [shareId, shareManageToken]);
+
+  useEffect(() => {
+    refreshShareManage();
+  }, [refreshShareManage]);
+
+  const handleExtendShare = async () => {
+    if (!shareId || !shareManageToken || isManagingShare) return;
+    setIsManagingShare(true);
+    try {
+      const res = await fetch(`/api/share?id=${shareId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "x-share-token": shareManageToken },
+        body: JSON.stringify({ extendDays: 30 }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "有効期限の延長に失敗しました");
+      setShareManage(data.manage);
+    } catch (error: any) {
+      console.error("Share extend error:", error);
+      alert(error.message || "有効期限の延長に失敗しました");
+    } finally {
+      setIsManagingShare(false);
+    }
+  };
+
+  const handleRevokeShare = async () => {
+    if (!shareId || !shareManageToken || isManagingShare) return;
+    if (!confirm("共有リンクを削除しますか？削除すると、投稿済みのリンクからも診断結果が見られなくなります。")) return;
+    setIsManagingShare(true);
+    try {
+      const res = await fetch(`/api/share?id=${shareId}`, {
+        method: "DELETE",
+        headers: { "x-share-token": shareManageToken },
+      });
+      if (!res.ok && res.status !== 404) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "共有リンクの削除に失敗しました");
+      }
+      setShareId(null);
+      setShareManageToken(null);
+      setShareManage(null);
+      try {
+        sessionStorage.removeItem(SHARE_STORAGE_KEY);
+      } catch {
+        // 無視
+      }
+    } catch (error: any) {
+      console.error("Share revoke error:", error);
+      alert(error.message || "共有リンクの削除に失敗しました");
+    } finally {
+      setIsManagingShare(false);
+    }
+  };
+
   const generateShareText = () => {
     if (!result) return "";
     const discount = result.discount_amount ?? calculateDiscountAmount(result.items);
+    // 金額を非公開にした共有では割合だけを載せる
+    if (shareRedaction.amount_display === "percentages") {
+      const rate = result.total_original > 0 ? Math.round((discount / result.total_original) * 1000) / 10 : 0;
+      return `【賃貸初期費用AI診断】\n` +
+             `削減目安：初期費用の-${rate}%\n\n` +
+             `これから部屋探しする人は要チェック！👇\n`;
+    }
     return `【賃貸初期費用AI診断】\n` +
            `提示額：¥${formatYen(result.total_original)}\n` +
            `訂正金額：¥${formatYen(result.total_fair)}\n` +
@@ -1227,14 +1801,11 @@ export default function Home() {
 
   const handleCopyLink = async () => {
     try {
-      let url = getShareUrl();
+      const url = getShareUrl();
       if (!url) {
-        const id = await createShareLink();
-        if (!id) {
-          alert("共有リンクの作成に失敗しました。もう一度お試しください。");
-          return;
-        }
-        url = typeof window !== 'undefined' ? `${window.location.origin}/share/${id}` : "";
+        // 初回は公開範囲を選んでプレビューを確認してから作成する
+        setIsSharePreviewOpen(true);
+        return;
       }
       if (url) {
         // URLだけをコピー（テキストは含めない）
@@ -1256,55 +1827,126 @@ export default function Home() {
     }
   };
   
-  const handleDownloadImage = async () => {
-    if (!resultRef.current) {
-      console.error("resultRef.current is null");
-      alert("保存に失敗しました：結果画面が見つかりません");
-      return;
+  /**
+   * 案件IDと操作トークンを取得（診断直後の案件作成に失敗していた場合はここで作成）
+   */
+  const ensureCase = async (): Promise<{ caseId: string; accessToken: string } | null> => {
+    if (caseId && caseAccessToken) return { caseId, accessToken: caseAccessToken };
+    if (!result) return null;
+    const res = await fetch('/api/case/create', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ result }),
+    });
+    if (!res.ok) return null;
+    const { caseId: createdCaseId, accessToken } = await res.json();
+    if (!createdCaseId || !accessToken) return null;
+    setCaseId(createdCaseId);
+    setCaseAccessToken(accessToken);
+    try {
+      sessionStorage.setItem(CASE_ID_STORAGE_KEY, createdCaseId);
+      sessionStorage.setItem(CASE_ACCESS_TOKEN_STORAGE_KEY, accessToken);
+    } catch {
+      // 無視
     }
+    return { caseId: createdCaseId, accessToken };
+  };
+
+  const applyOutcome = (data: OutcomeData) => {
+    setOutcome(data);
+    setOutcomeDraft(
+      Object.fromEntries(
+        data.items.map((item) => [
+          item.item_index,
+          { status: item.status, price_agreed: item.status === "partial" && item.price_agreed !== null ? String(item.price_agreed) : "" },
+        ])
+      )
+    );
+  };
+
+  const handleOpenOutcome = async () => {
+    setIsOutcomeOpen(true);
     try {
-      const html2canvas = (await import("html2canvas")).default;
-      const exportBg = result?.is_secret_mode ? "#0f172a" : "#ffffff";
-      const canvas = await html2canvas(resultRef.current, { 
-        backgroundColor: exportBg, 
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        allowTaint: false,
-        onclone: (clonedDoc: Document) => {
-          // キャプチャ時にアニメーション/トランジション由来の「真っ白」を防ぐ
-          const style = clonedDoc.createElement("style");
-          style.textContent = `
-            *, *::before, *::after {
-              animation: none !important;
-              transition: none !important;
-            }
-          `;
-          clonedDoc.head.appendChild(style);
-
-          // 結果領域の背景と可視状態を強制（opacity/transformが残って白抜けするのを防ぐ）
-          const exportEl = clonedDoc.getElementById("result-export");
-          if (exportEl) {
-            (exportEl as HTMLElement).style.backgroundColor = exportBg;
-            (exportEl as HTMLElement).style.opacity = "1";
-            (exportEl as HTMLElement).style.transform = "none";
-            (exportEl as HTMLElement).style.filter = "none";
-            
-            // 裏コマンドモードの場合、FortuneResultコンポーネント内の要素も確認
-            if (result?.is_secret_mode) {
-              const fortuneElements = clonedDoc.querySelectorAll('[class*="bg-gradient"]');
-              fortuneElements.forEach((el) => {
-                const htmlEl = el as HTMLElement;
-                // グラデーション背景を保持しつつ、不透明度を確保
-                htmlEl.style.opacity = "1";
-                htmlEl.style.transform = "none";
-              });
-            }
-          }
-        },
-      } as Parameters<typeof html2canvas>[1]);
-      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
-      if (!blob) throw new Error("画像データの生成に失敗しました");
+      const ensured = await ensureCase();
+      if (!ensured) return;
+      const res = await fetch(`/api/outcome?caseId=${encodeURIComponent(ensured.caseId)}`, {
+        headers: { "x-case-token": ensured.accessToken },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      if (data.outcome) applyOutcome(data.outcome);
+    } catch (error) {
+      console.error("Outcome load error:", error);
+    }
+  };
+
+  const handleSaveOutcome = async () => {
+    setIsSavingOutcome(true);
+    try {
+      const ensured = await ensureCase();
+      if (!ensured) throw new Error("案件の作成に失敗しました");
+      const res = await fetch("/api/outcome", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-case-token": ensured.accessToken },
+        body: JSON.stringify({
+          caseId: ensured.caseId,
+          items: Object.entries(outcomeDraft).map(([index, draft]) => ({
+            item_index: Number(index),
+            status: draft.status,
+            price_agreed: draft.status === "partial" ? Number(draft.price_agreed.replace(/[^0-9]/g, "")) : null,
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "交渉結果の保存に失敗しました");
+      applyOutcome(data.outcome);
+    } catch (error: any) {
+      console.error("Outcome save error:", error);
+      alert(error.message || "交渉結果の保存に失敗しました。もう一度お試しください。");
+    } finally {
+      setIsSavingOutcome(false);
+    }
+  };
+
+  const handleUploadRevisedEstimate = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsUploadingRevised(true);
+    try {
+      const ensured = await ensureCase();
+      if (!ensured) throw new Error("案件の作成に失敗しました");
+      const formData = new FormData();
+      formData.append("caseId", ensured.caseId);
+      for (const file of files) {
+        formData.append("estimate", await compressImage(file));
+      }
+      const res = await fetch("/api/case/revise", {
+        method: "POST",
+        headers: { "x-case-token": ensured.accessToken },
+        body: formData,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "再見積書の読み取りに失敗しました");
+      setEstimateDiff(data.revision.diff);
+      applyOutcome(data.outcome);
+    } catch (error: any) {
+      console.error("Revised estimate error:", error);
+      alert(error.message || "再見積書の読み取りに失敗しました。もう一度お試しください。");
+    } finally {
+      setIsUploadingRevised(false);
+      if (revisedEstimateInputRef.current) revisedEstimateInputRef.current.value = "";
+    }
+  };
+
+  const handleDownloadImage = async () => {
+    try {
+      // 結果カードはサーバーで描画する（/api/result-card）
+      const ensured = await ensureCase();
+      if (!ensured) throw new Error("案件の作成に失敗しました");
+      const res = await fetch(`/api/result-card?caseId=${encodeURIComponent(ensured.caseId)}`, {
+        headers: { "x-case-token": ensured.accessToken },
+      });
+      if (!res.ok) throw new Error("画像データの生成に失敗しました");
+      const blob = await res.blob();
 
       const imageFile = new File([blob], "診断結果.png", { type: "image/png" });
       const shouldUseLineCompatibleFlow = isLineInAppBrowser || isIOSDevice;
@@ -1436,12 +2078,22 @@ export default function Home() {
               <div className="bg-white border-2 border-dashed border-gray-300 rounded-2xl p-4 md:p-6 relative overflow-hidden hover:border-blue-400 transition-all group flex-1 min-h-72 flex flex-col shadow-sm">
                 {estimatePreview ? (
                   <div className="relative flex-1 flex items-center justify-center py-4">
-                    <img src={estimatePreview} className="w-full h-full max-h-64 object-contain rounded-lg" alt="見積書プレビュー" />
+                    {estimateFile && isPdfFile(estimateFile) ? (
+                      <PdfPreview fileName={estimateFile.name} />
+                    ) : (
+                      <img src={estimatePreview} className="w-full h-full max-h-64 object-contain rounded-lg" alt="見積書プレビュー" />
+                    )}
+                    {estimateExtraFiles.length > 0 && (
+                      <span className="absolute bottom-2 left-2 bg-blue-600 text-white text-xs font-bold px-2 py-1 rounded-full">
+                        ほか{estimateExtraFiles.length}枚
+                      </span>
+                    )}
                     <button
                       onClick={(e) => {
                         trackButtonClick(e);
                         if (estimatePreview) URL.revokeObjectURL(estimatePreview);
                         setEstimateFile(null);
+                        setEstimateExtraFiles([]);
                         setEstimatePreview(null);
                       }}
                       className="absolute top-2 right-2 bg-red-500 text-white w-7 h-7 rounded-full flex items-center justify-center hover:bg-red-600 text-sm z-10"
@@ -1459,7 +2111,7 @@ export default function Home() {
                         className="w-16 h-16 md:w-20 md:h-20 object-contain drop-shadow-md"
                       />
                     </div>
-                    <p className="text-gray-500 text-xs md:text-sm mb-3 md:mb-4">見積書の画像</p>
+                    <p className="text-gray-500 text-xs md:text-sm mb-3 md:mb-4">見積書の画像・PDF</p>
                     <div className="flex gap-2 justify-center flex-wrap">
                       <button
                         onClick={(e) => {
@@ -1483,7 +2135,8 @@ export default function Home() {
                     <input
                       ref={estimateInputRef}
                       type="file"
-                      accept="image/*"
+                      accept="image/*,application/pdf"
+                      multiple
                       onChange={(e) => handleInputChange(e, "estimate")}
                       className="hidden"
                     />
@@ -1503,7 +2156,11 @@ export default function Home() {
               <div className="bg-white border-2 border-dashed border-gray-300 rounded-2xl p-4 md:p-6 relative overflow-hidden hover:border-blue-400 transition-all group flex-1 min-h-72 flex flex-col shadow-sm">
                 {planPreview ? (
                   <div className="relative flex-1 flex items-center justify-center py-4">
-                    <img src={planPreview} className="w-full h-full max-h-64 object-contain rounded-lg" alt="募集図面プレビュー" />
+                    {planFile && isPdfFile(planFile) ? (
+                      <PdfPreview fileName={planFile.name} />
+                    ) : (
+                      <img src={planPreview} className="w-full h-full max-h-64 object-contain rounded-lg" alt="募集図面プレビュー" />
+                    )}
                     <button
                       onClick={(e) => {
                         trackButtonClick(e);
@@ -1526,7 +2183,7 @@ export default function Home() {
                         className="w-16 h-16 md:w-20 md:h-20 object-contain drop-shadow-md"
                       />
                     </div>
-                    <p className="text-gray-500 text-xs md:text-sm mb-3 md:mb-4">図面の画像</p>
+                    <p className="text-gray-500 text-xs md:text-sm mb-3 md:mb-4">図面の画像・PDF</p>
                     <div className="flex gap-2 justify-center flex-wrap">
                       <button
                         onClick={(e) => {
@@ -1550,7 +2207,7 @@ export default function Home() {
                     <input
                       ref={planInputRef}
                       type="file"
-                      accept="image/*"
+                      accept="image/*,application/pdf"
                       onChange={(e) => handleInputChange(e, "plan")}
                       className="hidden"
                     />
@@ -1560,6 +2217,12 @@ export default function Home() {
             </div>
           </div>
 
+          {comparisonList.length > 0 && (
+            <p className="text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded-lg px-3 py-2 mb-2">
+              🏠 比較リストに{comparisonList.length}件保存中です。この物件も診断すると結果画面で並べて比較できます。
+            </p>
+          )}
+
           {/* 撮影のコツ（アップロードボックス直下） */}
           <div className="mt-1 tipsCard text-left">
             <div className="flex flex-col gap-1">
@@ -1691,6 +2354,39 @@ export default function Home() {
             )}
           </div>
           {errorMessage && <div className="mt-6 bg-red-50 text-red-600 px-4 py-3 rounded-lg text-center text-sm font-bold border-2 border-red-200">{errorMessage}</div>}
+          {qualityIssues && qualityIssues.length > 0 && (
+            <div className="mt-6 bg-amber-50 px-4 py-4 rounded-lg border-2 border-amber-200 text-left">
+              <p className="text-sm font-bold text-amber-700 mb-2">📷 写真が読み取りにくいため、撮り直しをおすすめします</p>
+              <div className="space-y-3">
+                {qualityIssues.map((image) => (
+                  <div key={`${image.field}-${image.page_index}`}>
+                    <p className="text-xs font-bold text-slate-700">
+                      {image.label}: {image.problems.filter(p => p.severity === 'error').map(p => p.label).join(' / ')}
+                    </p>
+                    <ul className="mt-1 space-y-0.5">
+                      {image.problems.map((problem, idx) => (
+                        <li key={idx} className="text-xs text-gray-600">・{problem.message}</li>
+                      ))}
+                    </ul>
+                    <button
+                      type="button"
+                      onClick={() => openCamera(image.field)}
+                      className="mt-2 text-xs font-bold bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700"
+                    >
+                      {image.label}を撮り直す
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleAnalyze({ skipQualityCheck: true })}
+                className="mt-4 w-full text-xs text-gray-500 underline"
+              >
+                このまま診断する
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -1712,7 +2408,7 @@ export default function Home() {
             {/* 裏コマンドモード: 占い風UI */}
             {result.is_secret_mode ? (
               <>
-                <div id="result-export" ref={resultRef} style={{ backgroundColor: "#0f172a" }} className="rounded-3xl overflow-hidden">
+                <div id="result-export" style={{ backgroundColor: "#0f172a" }} className="rounded-3xl overflow-hidden">
                   <FortuneResult result={result} />
                 </div>
 
@@ -1841,7 +2537,7 @@ export default function Home() {
           ) : (
           /* 通常モード: 診断結果UI */
           <>
-          <div id="result-export" ref={resultRef} className="bg-white p-8 rounded-3xl border-2 border-gray-200 shadow-xl relative overflow-hidden mb-8 animate-scale-in text-slate-700">
+          <div id="result-export" className="bg-white p-8 rounded-3xl border-2 border-gray-200 shadow-xl relative overflow-hidden mb-8 animate-scale-in text-slate-700">
             <div className="border-b border-gray-200 pb-3 mb-3 animate-fade-in-up">
               <div className="text-center mb-1">
                 <p className="text-xs text-gray-500 font-bold tracking-wider uppercase mb-1">物件名</p>
@@ -1877,6 +2573,28 @@ export default function Home() {
               )}
             </div>
 
+            <QualityBanner quality={result.extraction_quality} advice={result.quality_advice} />
+
+            {/* ⚖️ 図面と見積書の食い違い */}
+            {(result.conflicts ?? []).filter(c => c.conflict_type !== 'low_confidence').length > 0 && (
+              <div className="mb-6 border border-orange-200 bg-orange-50 rounded-xl p-4 animate-fade-in-up">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-xl">⚖️</span>
+                  <h3 className="text-sm font-bold text-orange-700">図面と見積書の食い違い</h3>
+                </div>
+                <ul className="space-y-1">
+                  {(result.conflicts ?? []).filter(c => c.conflict_type !== 'low_confidence').map((conflict, idx) => (
+                    <li key={idx} className="text-xs text-gray-700">
+                      ・{conflict.description ?? conflict.label ?? conflict.field_name}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-[10px] text-gray-500 mt-2">
+                  不動産会社に図面と見積書のどちらが正しいか確認しましょう。
+                </p>
+              </div>
+            )}
+
             {/* 🔴 削減可能な項目 (cut/negotiable) */}
             {result.items.filter(i => i.status === 'cut' || i.status === 'negotiable').length > 0 && (
               <div className="mb-6">
@@ -2022,14 +2740,405 @@ export default function Home() {
             >
               {isCreatingShare ? "⏳ 準備中..." : isCopied ? "✨ コピーしました！" : "🔗 共有用リンクコピー"}
             </button>
+            {isSharePreviewOpen && !shareId && (
+              <div className="w-full bg-white border-2 border-blue-200 rounded-xl p-4 text-xs text-slate-700">
+                <p className="font-bold text-sm text-slate-800 mb-2">🔒 共有する内容を選んでください</p>
+                <div className="flex flex-col gap-1.5 mb-3">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={shareRedaction.amount_display === "amounts"}
+                      onChange={() => setShareRedaction((prev) => ({ ...prev, amount_display: "amounts" }))}
+                    />
+                    金額を表示する
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={shareRedaction.amount_display === "percentages"}
+                      onChange={() => setShareRedaction((prev) => ({ ...prev, amount_display: "percentages" }))}
+                    />
+                    割合（%）だけを表示する
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={shareRedaction.hide_item_names}
+                      onChange={(e) => setShareRedaction((prev) => ({ ...prev, hide_item_names: e.target.checked }))}
+                    />
+                    項目名を一般的な名称にする
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={shareRedaction.strip_proper_nouns}
+                      onChange={(e) => setShareRedaction((prev) => ({ ...prev, strip_proper_nouns: e.target.checked }))}
+                    />
+                    物件名・会社名・電話番号を伏せる
+                  </label>
+                </div>
+                <p className="font-bold text-slate-500 mb-1">公開される内容のプレビュー</p>
+                {sharePreview ? (
+                  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 mb-3 max-h-56 overflow-y-auto">
+                    <p className="font-bold text-slate-800 mb-1">
+                      削減可能{sharePreview.amount_display === "percentages"
+                        ? `な割合: -${sharePreview.discount_rate ?? 0}%`
+                        : `額: -¥${formatYen(sharePreview.discount_amount ?? 0)}`}
+                    </p>
+                    {sharePreview.headline && <p className="mb-1">{sharePreview.headline}</p>}
+                    <ul className="mb-2">
+                      {sharePreview.items.map((item, idx) => (
+                        <li key={idx} className="flex justify-between border-b border-slate-100 py-0.5">
+                          <span>{item.name}</span>
+                          <span>
+                            {sharePreview.amount_display === "percentages"
+                              ? `${item.share_rate ?? 0}%`
+                              : `¥${formatYen(item.price_original ?? 0)}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-slate-500 whitespace-pre-wrap">{sharePreview.pro_review.content.slice(0, 200)}{sharePreview.pro_review.content.length > 200 ? "…" : ""}</p>
+                  </div>
+                ) : (
+                  <p className="text-slate-400 mb-3">プレビューを読み込み中...</p>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={(e) => {
+                      trackButtonClick(e);
+                      handleConfirmShare();
+                    }}
+                    disabled={isCreatingShare || !sharePreview}
+                    className="flex-1 py-2.5 rounded-lg font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isCreatingShare ? "⏳ 作成中..." : "この内容でリンクを作成してコピー"}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      trackButtonClick(e);
+                      setIsSharePreviewOpen(false);
+                    }}
+                    className="px-4 py-2.5 rounded-lg bg-gray-100 text-slate-700 hover:bg-gray-200"
+                  >
+                    キャンセル
+                  </button>
+                </div>
+              </div>
+            )}
             {shareId && (
               <div className="w-full bg-blue-500/20 border border-blue-500/30 rounded-xl p-3 text-xs text-blue-300">
                 <p className="font-bold mb-1">共有リンクが作成されました</p>
                 <p className="text-blue-400 break-all">{typeof window !== 'undefined' ? `${window.location.origin}/share/${shareId}` : ""}</p>
+                {shareManageToken && (
+                  <div className="mt-2 pt-2 border-t border-blue-500/30">
+                    {shareManage && (
+                      <p className="mb-2">
+                        👀 閲覧数: {shareManage.view_count.toLocaleString()}回
+                        <span className="mx-1">/</span>
+                        有効期限: {new Date(shareManage.expires_at).toLocaleDateString("ja-JP")}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={(e) => {
+                          trackButtonClick(e);
+                          refreshShareManage();
+                        }}
+                        className="px-3 py-1.5 rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600"
+                      >
+                        🔄 閲覧数を更新
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          trackButtonClick(e);
+                          handleExtendShare();
+                        }}
+                        disabled={isManagingShare}
+                        className="px-3 py-1.5 rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+                      >
+                        ⏳ 30日延長
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          trackButtonClick(e);
+                          handleRevokeShare();
+                        }}
+                        disabled={isManagingShare}
+                        className="px-3 py-1.5 rounded-lg bg-red-600/80 text-white hover:bg-red-600 disabled:opacity-50"
+                      >
+                        🗑️ リンクを削除
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
 
+          {/* 🗣️ 交渉フレーズ（交渉可・削除推奨の項目ごと＋交渉メール） */}
+          {!result.is_secret_mode && result.items.some((item) => item.status === "negotiable" || item.status === "cut") && (
+            <div className="bg-white border-2 border-gray-200 rounded-xl p-5 mb-6 shadow-sm">
+              <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-1">🗣️ 自分で交渉する</h3>
+              <p className="text-xs text-gray-500 mb-3">交渉可・削除推奨の項目ごとに、そのまま使える文面を作成します。</p>
+              {!negotiation ? (
+                <button
+                  onClick={(e) => {
+                    trackButtonClick(e);
+                    handleLoadNegotiation();
+                  }}
+                  disabled={isLoadingNegotiation}
+                  className="w-full py-2.5 rounded-xl font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isLoadingNegotiation ? "⏳ 作成中..." : "交渉フレーズを作成する"}
+                </button>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {(["polite", "firm"] as const).map((tone) => (
+                      <button
+                        key={tone}
+                        onClick={() => setNegotiationTone(tone)}
+                        className={`px-3 py-1.5 rounded-full border font-bold ${negotiationTone === tone ? "bg-slate-800 text-white border-slate-800" : "bg-white text-slate-600 border-gray-300"}`}
+                      >
+                        {tone === "polite" ? "丁寧" : "強め"}
+                      </button>
+                    ))}
+                    <span className="w-px bg-gray-200 mx-1" />
+                    {(Object.keys(NEGOTIATION_CHANNEL_LABELS) as NegotiationChannel[]).map((channel) => (
+                      <button
+                        key={channel}
+                        onClick={() => setNegotiationChannel(channel)}
+                        className={`px-3 py-1.5 rounded-full border font-bold ${negotiationChannel === channel ? "bg-blue-600 text-white border-blue-600" : "bg-white text-slate-600 border-gray-300"}`}
+                      >
+                        {NEGOTIATION_CHANNEL_LABELS[channel]}
+                      </button>
+                    ))}
+                  </div>
+                  {negotiation.items.map((item, idx) => {
+                    const text = item.scripts[negotiationChannel][negotiationTone];
+                    const key = `item-${idx}`;
+                    return (
+                      <div key={key} className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="text-sm font-bold text-slate-800">
+                            {item.status === "cut" ? "❌" : "⚡"} {item.item_name}
+                          </span>
+                          {item.reduction > 0 && <span className="text-xs font-bold text-red-600">-¥{formatYen(item.reduction)}</span>}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mb-2">根拠: {item.basis}</p>
+                        <p className="text-xs text-slate-700 whitespace-pre-wrap mb-2">{text}</p>
+                        <button
+                          onClick={() => handleCopyNegotiation(key, text)}
+                          className="text-xs font-bold text-blue-600 hover:text-blue-800"
+                        >
+                          {copiedNegotiationKey === key ? "✅ コピーしました" : "📋 コピー"}
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <div className="border-2 border-blue-200 rounded-lg p-3">
+                    <p className="text-sm font-bold text-slate-800 mb-1">✉️ 交渉メール（まとめ）</p>
+                    <p className="text-xs text-slate-600 mb-2">件名: {negotiation.emails[negotiationTone].subject}</p>
+                    <pre className="text-xs text-slate-700 whitespace-pre-wrap font-sans bg-slate-50 rounded p-2 mb-2 max-h-64 overflow-y-auto">{negotiation.emails[negotiationTone].body}</pre>
+                    <button
+                      onClick={() =>
+                        handleCopyNegotiation(
+                          "email",
+                          `件名: ${negotiation.emails[negotiationTone].subject}\n\n${negotiation.emails[negotiationTone].body}`
+                        )
+                      }
+                      className="text-xs font-bold text-blue-600 hover:text-blue-800"
+                    >
+                      {copiedNegotiationKey === "email" ? "✅ コピーしました" : "📋 メールをコピー"}
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-gray-500">LINEで「交渉メール」と送信しても下書きを受け取れます（「交渉メール 強め」で強めの文面）。</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 📄 見積書の更新（再見積書を同じ案件に紐づけて差分を表示） */}
+          {!result.is_secret_mode && (
+            <div className="bg-white border-2 border-gray-200 rounded-xl p-5 mb-6 shadow-sm">
+              <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-1">📄 見積書を更新する</h3>
+              <p className="text-xs text-gray-500 mb-3">修正された見積書が届いたら、この診断結果と項目ごとに比較できます（削除・減額・新しく追加された費用）。</p>
+              <button
+                onClick={(e) => {
+                  trackButtonClick(e);
+                  revisedEstimateInputRef.current?.click();
+                }}
+                disabled={isUploadingRevised}
+                className="w-full py-2.5 rounded-xl font-bold text-sm bg-white text-slate-700 border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isUploadingRevised ? "⏳ 読み取り中..." : "📄 修正後の見積書をアップロード"}
+              </button>
+              <input
+                ref={revisedEstimateInputRef}
+                type="file"
+                accept="image/*,application/pdf"
+                multiple
+                className="hidden"
+                onChange={(e) => handleUploadRevisedEstimate(Array.from(e.target.files ?? []))}
+              />
+              {estimateDiff && (
+                <div className="mt-4">
+                  <EstimateDiffTable diff={estimateDiff} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 🤝 交渉結果の記録（項目ごとの結果＋再見積書で実際の削減額を確認） */}
+          {!result.is_secret_mode && result.items.some((item) => item.status === "negotiable" || item.status === "cut") && (
+            <div className="bg-white border-2 border-gray-200 rounded-xl p-5 mb-6 shadow-sm">
+              <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-1">🤝 交渉結果を記録する</h3>
+              <p className="text-xs text-gray-500 mb-3">交渉後の結果や再見積書を登録すると、実際にいくら安くなったかを確認できます。</p>
+              {!isOutcomeOpen ? (
+                <button
+                  onClick={(e) => {
+                    trackButtonClick(e);
+                    handleOpenOutcome();
+                  }}
+                  className="w-full py-2.5 rounded-xl font-bold text-sm bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100"
+                >
+                  交渉結果を入力する
+                </button>
+              ) : (
+                <div className="space-y-3">
+                  {result.items.map((item, index) => {
+                    if (item.status !== "negotiable" && item.status !== "cut") return null;
+                    const draft = outcomeDraft[index] ?? { status: "not_asked" as OutcomeStatus, price_agreed: "" };
+                    return (
+                      <div key={index} className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+                          <span className="font-bold text-slate-800">{item.name}</span>
+                          <span className="text-xs text-slate-500">¥{formatYen(item.price_original ?? 0)}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-1.5">
+                          {(Object.keys(OUTCOME_STATUS_LABELS) as OutcomeStatus[]).map((status) => (
+                            <button
+                              key={status}
+                              onClick={() =>
+                                setOutcomeDraft((prev) => ({ ...prev, [index]: { ...draft, status } }))
+                              }
+                              className={`px-2.5 py-1 rounded-full border text-xs font-bold ${draft.status === status ? "bg-slate-800 text-white border-slate-800" : "bg-white text-slate-600 border-gray-300"}`}
+                            >
+                              {OUTCOME_STATUS_LABELS[status]}
+                            </button>
+                          ))}
+                        </div>
+                        {draft.status === "partial" && (
+                          <label className="flex items-center gap-2 mt-2 text-xs text-slate-600">
+                            合意した金額 ¥
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              value={draft.price_agreed}
+                              onChange={(e) =>
+                                setOutcomeDraft((prev) => ({ ...prev, [index]: { ...draft, price_agreed: e.target.value } }))
+                              }
+                              className="flex-1 border border-gray-300 rounded px-2 py-1"
+                              placeholder="例: 30000"
+                            />
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={(e) => {
+                        trackButtonClick(e);
+                        handleSaveOutcome();
+                      }}
+                      disabled={isSavingOutcome}
+                      className="flex-1 min-w-[140px] py-2.5 rounded-xl font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isSavingOutcome ? "⏳ 保存中..." : "💾 交渉結果を保存"}
+                    </button>
+                  </div>
+                  {outcome && (
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-slate-700">
+                      <p className="font-bold text-green-700 mb-1">
+                        実際の削減額: ¥{formatYen(outcome.realized_savings)}
+                        {outcome.realization_rate !== null && `（削減可能額の${outcome.realization_rate}%）`}
+                      </p>
+                      <p className="text-xs text-slate-600">診断時の削減可能額: ¥{formatYen(outcome.expected_savings)}</p>
+                      {outcome.revised_estimate ? (
+                        <p className="text-xs text-slate-600">
+                          再見積書の合計: ¥{formatYen(outcome.revised_estimate.total)}（元の見積書 ¥{formatYen(result.total_original)}）
+                        </p>
+                      ) : (
+                        <p className="text-[10px] text-gray-500">※項目ごとの結果から計算しています。「見積書を更新」から再見積書を登録すると合計の差で計算します。</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 🏠 物件比較（複数の候補を同じ物差しで並べる） */}
+          {!result.is_secret_mode && (
+            <div className="bg-white border-2 border-gray-200 rounded-xl p-5 mb-6 shadow-sm">
+              <div className="flex items-center justify-between gap-2 mb-3">
+                <h3 className="font-bold text-slate-800 flex items-center gap-2">🏠 物件比較</h3>
+                <span className="text-xs text-gray-500">{comparisonList.length}/{MAX_COMPARISON_CANDIDATES}件</span>
+              </div>
+              {comparisonList.length > 0 && (
+                <ul className="mb-3 space-y-1">
+                  {comparisonList.map((candidate) => (
+                    <li key={candidate.key} className="flex items-center justify-between text-xs text-slate-700 bg-slate-50 rounded-lg px-3 py-2">
+                      <span className="truncate">{candidate.label}（¥{candidate.result.total_original.toLocaleString()}）</span>
+                      <button
+                        onClick={(e) => {
+                          trackButtonClick(e);
+                          handleRemoveFromComparison(candidate.key);
+                        }}
+                        className="text-gray-400 hover:text-red-500 ml-2"
+                        aria-label="比較リストから外す"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={(e) => {
+                    trackButtonClick(e);
+                    handleAddToComparison();
+                  }}
+                  disabled={comparisonList.some((candidate) => candidate.key === comparisonKeyOf(result))}
+                  className="flex-1 min-w-[140px] py-2.5 rounded-xl font-bold text-sm bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {comparisonList.some((candidate) => candidate.key === comparisonKeyOf(result)) ? "✅ 比較リストに追加済み" : "➕ この物件を比較リストに追加"}
+                </button>
+                <button
+                  onClick={(e) => {
+                    trackButtonClick(e);
+                    handleCompare();
+                  }}
+                  disabled={comparisonList.length < 2 || isComparing}
+                  className="flex-1 min-w-[140px] py-2.5 rounded-xl font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isComparing ? "⏳ 比較中..." : "📊 比較する"}
+                </button>
+              </div>
+              {comparisonList.length < 2 && (
+                <p className="text-[10px] text-gray-500 mt-2">別の物件も診断して追加すると、初期費用や実質月額を並べて比較できます。</p>
+              )}
+              {comparison && (
+                <div className="mt-4">
+                  <ComparisonTable comparison={comparison} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* 図面追加ボタン（図面未アップロード時のみ表示） */}
           {result.has_flyer === false && (
             <div className="mb-6 flex flex-col items-center">
@@ -2040,7 +3149,7 @@ export default function Home() {
               {/* 結果画面用の図面アップロードinput（hidden）※accept="image/*"でカメラ・フォトライブラリ・ファイルを選択可能 */}
               <input
                 type="file"
-                accept="image/*"
+                accept="image/*,application/pdf"
                 ref={resultPlanInputRef}
                 className="hidden"
                 onChange={(e) => handleInputChange(e, "plan")}
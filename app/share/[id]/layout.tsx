@@ -0,0 +1,48 @@
+/**
+ * 共有ページ用レイアウト
+ * ページ本体はクライアントで描画するため、OGPメタデータはここでサーバー側から返す
+ * （X・LINEのクローラーはJSを実行しないため）
+ */
+
+import type { Metadata } from "next";
+import { getShare } from "@/lib/kv";
+import { buildSharePreview } from "@/lib/og-image";
+
+const DEFAULT_TITLE = "賃貸見積もりチェッカー";
+const DEFAULT_DESCRIPTION = "AIで見積もりを適正診断";
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+
+  try {
+    const share = await getShare(id);
+    if (!share) {
+      return { title: DEFAULT_TITLE, description: DEFAULT_DESCRIPTION, robots: { index: false } };
+    }
+
+    const preview = buildSharePreview(share.data);
+    return {
+      title: preview.title,
+      description: preview.description,
+      robots: { index: false },
+      openGraph: {
+        title: preview.title,
+        description: preview.description,
+        type: "website",
+        siteName: DEFAULT_TITLE,
+      },
+      twitter: {
+        card: "summary_large_image",
+        title: preview.title,
+        description: preview.description,
+      },
+    };
+  } catch (error) {
+    console.error("Share metadata error:", error);
+    return { title: DEFAULT_TITLE, description: DEFAULT_DESCRIPTION };
+  }
+}
+
+export default function ShareLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,106 @@
+/**
+ * 共有ページのOGP画像（共有ごとに動的生成）
+ * 通常診断: 削減可能額・リスクスコア・ヘッドライン・削除推奨項目
+ * 裏コマンド: 占いタイトル
+ */
+
+import { ImageResponse } from "next/og";
+import { getShare } from "@/lib/kv";
+import { OG_IMAGE_SIZE, buildSharePreview, loadJapaneseFonts, truncateText } from "@/lib/og-image";
+
+export const runtime = "nodejs";
+export const alt = "賃貸初期費用チェッカーの診断結果";
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+const BRAND = "賃貸初期費用チェッカー";
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const share = await getShare(id).catch(() => null);
+  const preview = share ? buildSharePreview(share.data) : null;
+
+  const texts: string[] = [BRAND, "AIが見積書を適正か診断"];
+  let body: React.ReactElement;
+
+  if (!preview) {
+    body = (
+      <div style={{ display: "flex", fontSize: 56, fontWeight: 700, color: "#1e293b" }}>
+        AIが見積書を適正か診断
+      </div>
+    );
+  } else if (preview.is_secret_mode) {
+    const title = truncateText(preview.fortune_title ?? "スペシャル診断", 20);
+    const subtitle = preview.fortune_subtitle ? truncateText(preview.fortune_subtitle, 32) : "";
+    texts.push(title, subtitle);
+    body = (
+      <div style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 24 }}>
+        <div style={{ display: "flex", fontSize: 72, fontWeight: 700, color: "#7c3aed" }}>{title}</div>
+        {subtitle && <div style={{ display: "flex", fontSize: 36, color: "#475569" }}>{subtitle}</div>}
+      </div>
+    );
+  } else {
+    const discountText = preview.discount_text;
+    const headline = preview.headline ? truncateText(preview.headline, 26) : "";
+    const cutLines = preview.top_cut_items.map((item) => `× ${item.name}  ${item.amount_text}`);
+    texts.push("削減できる可能性", discountText, `リスクスコア ${preview.risk_score}/100`, headline, "削除推奨", ...cutLines);
+    body = (
+      <div style={{ display: "flex", width: "100%", gap: 48 }}>
+        <div style={{ display: "flex", flexDirection: "column", flex: 1, gap: 12 }}>
+          <div style={{ display: "flex", fontSize: 32, color: "#475569" }}>削減できる可能性</div>
+          <div style={{ display: "flex", fontSize: 104, fontWeight: 700, color: "#dc2626" }}>{discountText}</div>
+          {headline && <div style={{ display: "flex", fontSize: 36, fontWeight: 700, color: "#1e293b" }}>{headline}</div>}
+          <div style={{ display: "flex", fontSize: 30, color: "#2563eb", marginTop: 8 }}>
+            {`リスクスコア ${preview.risk_score}/100`}
+          </div>
+        </div>
+        {cutLines.length > 0 && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              width: 400,
+              gap: 14,
+              padding: 28,
+              borderRadius: 24,
+              backgroundColor: "#fef2f2",
+              border: "3px solid #fecaca",
+            }}
+          >
+            <div style={{ display: "flex", fontSize: 28, fontWeight: 700, color: "#b91c1c" }}>削除推奨</div>
+            {cutLines.map((line) => (
+              <div key={line} style={{ display: "flex", fontSize: 26, color: "#1e293b" }}>{line}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const fonts = await loadJapaneseFonts(texts.join(""));
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "56px 72px",
+          background: "linear-gradient(135deg, #eff6ff 0%, #ffffff 60%, #eef2ff 100%)",
+          ...(fonts.length > 0 ? { fontFamily: "Noto Sans JP" } : {}),
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 34, fontWeight: 700, color: "#2563eb" }}>{BRAND}</div>
+        <div style={{ display: "flex", flex: 1, alignItems: "center", justifyContent: preview && !preview.is_secret_mode ? "flex-start" : "center" }}>
+          {body}
+        </div>
+        <div style={{ display: "flex", fontSize: 24, color: "#64748b" }}>AIが見積書を適正か診断</div>
+      </div>
+    ),
+    // フォントを取得できなかった場合は既定フォント（日本語は表示されない）で描画する
+    { ...size, fonts: fonts.length > 0 ? fonts : undefined }
+  );
+}
@@ -274,16 +274,24 @@ const FortuneResult = ({ result }: { result: AnalysisResult }) => {
 type AnalysisResult = {
   items?: {
     name: string;
-    price_original: number;
-    price_fair: number;
+    price_original: number | null;
+    price_fair: number | null;
     status: "fair" | "negotiable" | "cut";
     reason: string;
+    // 割合表示の共有のみ
+    share_rate?: number;
+    reduction_rate?: number;
   }[];
+  /** 金額の公開方法（percentages の場合は金額を含まない） */
+  amount_display?: 'amounts' | 'percentages';
   total_original?: number;
   total_fair?: number;
   discount_amount?: number;
+  discount_rate?: number;
   pro_review?: { content: string; };
   risk_score?: number;
+  extraction_quality?: 'high' | 'medium' | 'low';
+  quality_advice?: string[];
   // 裏コマンド用
   is_secret_mode?: boolean;
   secret_type?: string;
@@ -308,6 +316,29 @@ type AnalysisResult = {
   fortune_summary?: string;
 };
 
+// --- 読み取り品質バナー ---
+const QualityBanner = ({ quality, advice }: { quality?: 'high' | 'medium' | 'low'; advice?: string[] }) => {
+  if (!quality || quality === 'high') return null;
+  const isLow = quality === 'low';
+  return (
+    <div className={`mb-6 rounded-xl border p-4 animate-fade-in-up ${isLow ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <p className={`text-sm font-bold mb-1 ${isLow ? 'text-red-700' : 'text-amber-700'}`}>
+        {isLow ? '📷 画像が読み取りにくく、診断結果の信頼性が低い状態です' : '📷 一部の項目が読み取りにくい状態です'}
+      </p>
+      <p className="text-xs text-gray-600 mb-2">
+        {isLow ? '下記を参考に撮影し直して、もう一度診断することをおすすめします。' : '金額が実際の書類と一致しているか確認してください。'}
+      </p>
+      {advice && advice.length > 0 && (
+        <ul className="space-y-1">
+          {advice.map((text, idx) => (
+            <li key={idx} className="text-xs text-gray-700">・{text}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 // --- 危険度ゲージコンポーネント（バー型） ---
 const RiskGauge = ({ score }: { score: number }) => {
   // お金のイメージ：ゴールド/金色のグラデーション
@@ -459,7 +490,7 @@ export default function SharePage() {
           try {
             const errorData = await res.json();
             errorMessage = errorData.error || errorMessage;
-          } catch (e) {
+          } catch {
             // JSON解析に失敗した場合はデフォルトメッセージを使用
             if (res.status === 404) {
               errorMessage = "共有リンクが見つかりませんでした";
@@ -527,6 +558,8 @@ export default function SharePage() {
     );
   }
 
+  const isPercentage = result.amount_display === 'percentages';
+
   return (
     <div className="min-h-dvh bg-[#02060D] text-slate-600 font-sans pb-20">
       <header className="bg-white border-b border-slate-200 sticky top-0 z-50 shadow-sm">
@@ -554,17 +587,33 @@ export default function SharePage() {
 
           {/* Savings Impact */}
           <div className="bg-gradient-to-br from-blue-600 to-indigo-700 text-white rounded-2xl p-6 mb-8 text-center shadow-lg relative overflow-hidden">
-            <p className="text-blue-100 text-sm font-bold mb-2">削減可能額</p>
-            <div className="text-4xl md:text-5xl font-black mb-3 tracking-tight">
-              -{formatYen(result.discount_amount ?? 0)}<span className="text-lg font-medium">円</span>
-            </div>
-            <div className="inline-flex items-center gap-2 bg-white/20 px-4 py-1.5 rounded-full text-sm backdrop-blur-sm">
-              <span className="opacity-80">提示: ¥{formatYen(result.total_original ?? 0)}</span>
-              <span>→</span>
-              <span className="font-bold">適正: ¥{formatYen(result.total_fair ?? 0)}</span>
-            </div>
+            {isPercentage ? (
+              <>
+                <p className="text-blue-100 text-sm font-bold mb-2">削減可能な割合</p>
+                <div className="text-4xl md:text-5xl font-black mb-3 tracking-tight">
+                  -{result.discount_rate ?? 0}<span className="text-lg font-medium">%</span>
+                </div>
+                <div className="inline-flex items-center gap-2 bg-white/20 px-4 py-1.5 rounded-full text-sm backdrop-blur-sm">
+                  <span className="opacity-80">金額は非公開に設定されています</span>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-blue-100 text-sm font-bold mb-2">削減可能額</p>
+                <div className="text-4xl md:text-5xl font-black mb-3 tracking-tight">
+                  -{formatYen(result.discount_amount ?? 0)}<span className="text-lg font-medium">円</span>
+                </div>
+                <div className="inline-flex items-center gap-2 bg-white/20 px-4 py-1.5 rounded-full text-sm backdrop-blur-sm">
+                  <span className="opacity-80">提示: ¥{formatYen(result.total_original ?? 0)}</span>
+                  <span>→</span>
+                  <span className="font-bold">適正: ¥{formatYen(result.total_fair ?? 0)}</span>
+                </div>
+              </>
+            )}
           </div>
 
+          <QualityBanner quality={result.extraction_quality} advice={result.quality_advice} />
+
           {/* Items List */}
           <div className="space-y-3 mb-4">
             {(result.items ?? []).filter(i => i.status !== 'fair').map((item, index) => (
@@ -577,10 +626,17 @@ export default function SharePage() {
                 </div>
                 <div className="flex justify-between items-center">
                   <p className="text-xs text-slate-500">{item.reason}</p>
-                  <div className="text-right whitespace-nowrap ml-2">
-                    <span className="text-xs text-slate-400 line-through block">¥{formatYen(item.price_original ?? 0)}</span>
-                    <span className="text-red-600 font-bold">¥{formatYen(item.price_fair ?? 0)}</span>
-                  </div>
+                  {isPercentage ? (
+                    <div className="text-right whitespace-nowrap ml-2">
+                      <span className="text-xs text-slate-400 block">総額の{item.share_rate ?? 0}%</span>
+                      <span className="text-red-600 font-bold">-{item.reduction_rate ?? 0}%</span>
+                    </div>
+                  ) : (
+                    <div className="text-right whitespace-nowrap ml-2">
+                      <span className="text-xs text-slate-400 line-through block">¥{formatYen(item.price_original ?? 0)}</span>
+                      <span className="text-red-600 font-bold">¥{formatYen(item.price_fair ?? 0)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -592,7 +648,7 @@ export default function SharePage() {
                 {(result.items ?? []).filter(i => i.status === 'fair').map((item, idx) => (
                   <div key={idx} className="flex justify-between border-b border-slate-100 pb-1">
                     <span>{item.name}</span>
-                    <span>¥{formatYen(item.price_fair ?? 0)}</span>
+                    <span>{isPercentage ? `${item.share_rate ?? 0}%` : `¥${formatYen(item.price_fair ?? 0)}`}</span>
                   </div>
                 ))}
               </div>
@@ -673,6 +729,21 @@ export default function SharePage() {
         </div>
         )}
 
+        {/* 結果カード画像（サーバー側で描画・公開範囲の設定を反映済み） */}
+        {typeof params.id === 'string' && (
+          <div className="text-center mb-8">
+            <a
+              href={`/api/result-card?shareId=${encodeURIComponent(params.id)}`}
+              download="診断結果.png"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-block bg-white border-2 border-gray-200 text-slate-700 font-bold py-3 px-8 rounded-xl hover:border-blue-300 hover:text-blue-600 transition-colors"
+            >
+              📷 診断結果を画像で保存
+            </a>
+          </div>
+        )}
+
         {/* CTA Section - 拡散用 */}
         <div className="bg-gradient-to-br from-blue-600 to-indigo-700 text-white rounded-3xl p-8 md:p-12 shadow-2xl relative overflow-hidden mb-8">
           <div className="absolute top-0 right-0 w-64 h-64 bg-white/10 rounded-full blur-3xl -translate-y-1/2 translate-x-1/2"></div>
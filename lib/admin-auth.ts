@@ -0,0 +1,31 @@
+/**
+ * 運用向けAPIの管理トークンの検証
+ *
+ * スタッフの受付箱（/api/admin/tickets）、交渉結果の集計（/api/outcome/stats）、
+ * LINE分岐の擬似実行（/api/line/simulate）で共通。
+ * ADMIN_TOKEN と x-admin-token ヘッダーが一致すること（未設定の場合は使用不可）。
+ */
+
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+export const ADMIN_TOKEN_HEADER = "x-admin-token";
+
+/**
+ * 管理トークンの検証
+ * @returns 返却すべきエラーレスポンス（認可できた場合は null）
+ */
+export function authorizeAdmin(req: Request): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: "ADMIN_TOKEN が設定されていません" }, { status: 503 });
+  }
+
+  // 長さの違いで比較時間が変わらないよう、ハッシュ同士を定数時間で比較
+  const expected = crypto.createHash("sha256").update(token).digest();
+  const actual = crypto.createHash("sha256").update(req.headers.get(ADMIN_TOKEN_HEADER) ?? "").digest();
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
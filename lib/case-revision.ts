@@ -0,0 +1,95 @@
+/**
+ * 見積書の更新（同じ案件に再見積書を紐づける）
+ *
+ * 不動産会社から修正版の見積書が届いたときに、新しく診断し直すのではなく
+ * 元の案件（case_id）に再見積書の診断結果と差分（lib/estimate-diff.ts）を追加する。
+ * 図面は元の案件の抽出結果を使う。
+ * 再見積書の合計は交渉結果（lib/outcomes.ts）の実際の削減額にも反映する。
+ *
+ * Web（/api/case/revise）とLINE（waiting_images 状態での画像受信）の両方から使う。
+ */
+
+import type { DiagnosisResult } from "@/lib/types";
+import type { DocumentPage } from "@/lib/document-pages";
+import { diagnose } from "@/lib/diagnosis";
+import { createAnalysisModel, extractEstimatePages } from "@/lib/document-analysis";
+import { diffEstimates, type EstimateDiff } from "@/lib/estimate-diff";
+import {
+  buildCaseOutcome,
+  normalizeOutcomeInputs,
+  type CaseOutcome,
+  type ItemOutcomeInput,
+  type RevisedEstimate,
+} from "@/lib/outcomes";
+import { saveCaseOutcome, saveCaseRevision, type CaseData } from "@/lib/kv";
+
+export interface CaseRevision {
+  revised_at: string;
+  source: "web" | "line";
+  /** 再見積書の診断結果 */
+  result: DiagnosisResult;
+  /** 元の見積書との差分 */
+  diff: EstimateDiff;
+}
+
+/**
+ * 再見積書を読み取って案件に追加
+ * @returns 再見積書から費用項目を読み取れなかった場合は null
+ */
+export async function reviseCaseEstimate(
+  caseData: CaseData,
+  pages: DocumentPage[],
+  source: CaseRevision["source"]
+): Promise<{ revision: CaseRevision; outcome: CaseOutcome } | null> {
+  const extraction = await extractEstimatePages(createAnalysisModel(), pages);
+  const result = diagnose({ estimate: extraction.estimate, flyer: caseData.result?.extracted_facts?.flyer ?? null });
+  if (result.items.length === 0) return null;
+
+  const revision: CaseRevision = {
+    revised_at: new Date().toISOString(),
+    source,
+    result,
+    diff: diffEstimates(caseData.result?.items ?? [], result.items),
+  };
+
+  // 交渉結果が未入力なら、差分から推定した結果を入れておく（画面で修正可能。入力されるまで集計には含めない）
+  const recorded = caseData.outcome_reported === true && !!caseData.outcome;
+  const items = recorded
+    ? caseData.outcome!.items
+    : normalizeOutcomeInputs(caseData.result, suggestOutcomeInputs(revision.diff, caseData.result));
+  const revisedEstimate: RevisedEstimate = {
+    total: result.total_original,
+    line_items: result.items.map((item) => ({ name: item.name, price: item.price_original })),
+    uploaded_at: revision.revised_at,
+  };
+  const outcome = buildCaseOutcome(caseData.result, items, revisedEstimate);
+
+  await saveCaseRevision(caseData.case_id, revision);
+  await saveCaseOutcome(caseData.case_id, outcome, { reported: recorded });
+
+  return { revision, outcome };
+}
+
+/**
+ * 差分から交渉結果を推定（削除 → 応じてもらえた、減額 → 適正額以下なら応じてもらえた・それ以外は一部減額）
+ */
+function suggestOutcomeInputs(diff: EstimateDiff, original: Partial<DiagnosisResult>): ItemOutcomeInput[] {
+  const inputs: ItemOutcomeInput[] = [];
+  for (const row of diff.rows) {
+    if (row.original_index === null) continue;
+    const item = original.items?.[row.original_index];
+    if (!item || (item.status !== "negotiable" && item.status !== "cut")) continue;
+
+    if (row.status === "removed") {
+      inputs.push({ item_index: row.original_index, status: "accepted" });
+    } else if (row.status === "reduced" && row.price_revised !== null) {
+      const expected = item.status === "cut" ? 0 : item.price_fair ?? 0;
+      inputs.push(
+        row.price_revised <= expected
+          ? { item_index: row.original_index, status: "accepted" }
+          : { item_index: row.original_index, status: "partial", price_agreed: row.price_revised }
+      );
+    }
+  }
+  return inputs;
+}
@@ -0,0 +1,215 @@
+/**
+ * 複数物件の比較
+ *
+ * 診断済みの複数の候補（案件 or 同一セッション内の診断結果）を
+ * 同じ物差しで並べるための正規化テーブルを作る。
+ * 判定は行わず、診断結果と抽出JSONから数値を取り出して揃えるだけ。
+ *
+ * 実質月額（2年居住）= (初期費用 + 月額（賃料 + 管理費）×（24 − フリーレント月数）) ÷ 24
+ * ※初期費用に含まれる前家賃・返還される敷金は区別せずにそのまま含める（目安値）
+ */
+
+import type { DiagnosisResult, ExtractedField, ExtractionResult } from "@/lib/types";
+import { formatYen, normalizeNumberText, toNonNegative, toNumberOrNull } from "@/lib/number-utils";
+
+/** 実質月額の計算に使う居住期間（月） */
+export const COMPARISON_STAY_MONTHS = 24;
+
+/** 一度に比較できる候補数 */
+export const MAX_COMPARISON_CANDIDATES = 5;
+
+/** 比較の入力（診断結果 + 表示名） */
+export interface ComparisonCandidate {
+  label: string;
+  case_id?: string;
+  result: Partial<DiagnosisResult>;
+}
+
+/** 比較テーブルの1行 */
+export interface ComparisonRow {
+  label: string;
+  case_id: string | null;
+  property_name: string | null;
+  /** 賃料（円）。読み取れなかった場合は null */
+  rent: number | null;
+  /** 賃料が仲介手数料からの推定値か */
+  rent_inferred: boolean;
+  management_fee: number | null;
+  /** 初期費用合計（提示額） */
+  move_in_total: number;
+  total_fair: number;
+  discount_amount: number;
+  warning_amount: number;
+  free_rent_months: number;
+  /** 実質月額（提示額ベース）。賃料不明の場合は null */
+  effective_monthly_cost: number | null;
+  /** 実質月額（削減後の適正額ベース） */
+  effective_monthly_cost_fair: number | null;
+}
+
+export interface ComparisonResult {
+  stay_months: number;
+  rows: ComparisonRow[];
+  /** 各指標で最も有利な候補の行インデックス（比較できない場合は null） */
+  best: {
+    move_in_total: number | null;
+    total_fair: number | null;
+    effective_monthly_cost: number | null;
+  };
+  /** 比較時の注意（賃料不明・推定など） */
+  notes: string[];
+}
+
+/**
+ * 候補を比較テーブルに変換
+ */
+export function compareCandidates(candidates: ComparisonCandidate[]): ComparisonResult {
+  const rows = candidates.slice(0, MAX_COMPARISON_CANDIDATES).map(buildComparisonRow);
+  const notes: string[] = [];
+
+  for (const row of rows) {
+    if (row.rent === null) {
+      notes.push(`${row.label}は賃料を読み取れなかったため、実質月額を計算できません`);
+    } else if (row.rent_inferred) {
+      notes.push(`${row.label}の賃料は仲介手数料からの推定値です`);
+    }
+  }
+
+  return {
+    stay_months: COMPARISON_STAY_MONTHS,
+    rows,
+    best: {
+      move_in_total: findMinIndex(rows.map((row) => row.move_in_total)),
+      total_fair: findMinIndex(rows.map((row) => row.total_fair)),
+      effective_monthly_cost: findMinIndex(rows.map((row) => row.effective_monthly_cost)),
+    },
+    notes,
+  };
+}
+
+/**
+ * 1件の診断結果を比較行に変換
+ */
+export function buildComparisonRow(candidate: ComparisonCandidate): ComparisonRow {
+  const { result } = candidate;
+  const facts = result.extracted_facts;
+  const rentInfo = resolveComparisonRent(result);
+  const managementFee = pickFactValue(facts, "management_fee");
+  const freeRentMonths = Math.min(COMPARISON_STAY_MONTHS, toNonNegative(pickFactValue(facts, "free_rent_months")));
+
+  const moveInTotal = toNonNegative(result.total_original);
+  const totalFair = toNonNegative(result.total_fair, moveInTotal);
+  const monthlyCost = rentInfo.rent !== null ? rentInfo.rent + (managementFee ?? 0) : null;
+  const effective = (initialCost: number) =>
+    monthlyCost !== null
+      ? Math.round((initialCost + monthlyCost * (COMPARISON_STAY_MONTHS - freeRentMonths)) / COMPARISON_STAY_MONTHS)
+      : null;
+
+  const propertyName = result.property_name && result.property_name !== "物件名入力なし" ? result.property_name : null;
+
+  return {
+    label: candidate.label,
+    case_id: candidate.case_id ?? null,
+    property_name: propertyName,
+    rent: rentInfo.rent,
+    rent_inferred: rentInfo.inferred,
+    management_fee: managementFee,
+    move_in_total: moveInTotal,
+    total_fair: totalFair,
+    discount_amount: toNonNegative(result.discount_amount),
+    warning_amount: toNonNegative(result.warning_amount),
+    free_rent_months: freeRentMonths,
+    effective_monthly_cost: effective(moveInTotal),
+    effective_monthly_cost_fair: effective(totalFair),
+  };
+}
+
+/**
+ * 候補の表示名（物件名があれば物件名、なければ「候補N」）
+ */
+export function candidateLabel(result: Partial<DiagnosisResult>, index: number): string {
+  const name = result.property_name && result.property_name !== "物件名入力なし" ? result.property_name : null;
+  const room = result.room_number ? ` ${result.room_number}` : "";
+  return name ? `${name}${room}` : `候補${index + 1}`;
+}
+
+/**
+ * LINE返信用の比較テキスト
+ */
+export function formatComparisonText(comparison: ComparisonResult): string {
+  const yen = (value: number | null) => (value !== null ? `¥${formatYen(value)}` : "不明");
+  const mark = (key: keyof ComparisonResult["best"], index: number) =>
+    comparison.best[key] === index && comparison.rows.length > 1 ? " 👑" : "";
+
+  let message = `🏠 物件比較（${comparison.rows.length}件）\n`;
+  comparison.rows.forEach((row, index) => {
+    message += `\n${index + 1}. ${row.label}\n`;
+    message += `賃料: ${yen(row.rent)}${row.rent_inferred ? "（推定）" : ""}\n`;
+    message += `初期費用: ${yen(row.move_in_total)}${mark("move_in_total", index)}\n`;
+    message += `適正額: ${yen(row.total_fair)}${mark("total_fair", index)}\n`;
+    message += `削減可能額: ${yen(row.discount_amount)}\n`;
+    if (row.warning_amount > 0) {
+      message += `要確認: ${yen(row.warning_amount)}\n`;
+    }
+    message += `実質月額（${comparison.stay_months / 12}年）: ${yen(row.effective_monthly_cost)}${mark("effective_monthly_cost", index)}\n`;
+  });
+
+  message += `\n※実質月額 = (初期費用 + 月額×${comparison.stay_months}ヶ月) ÷ ${comparison.stay_months}（フリーレント考慮）`;
+  if (comparison.notes.length > 0) {
+    message += `\n※${comparison.notes.join("\n※")}`;
+  }
+  return message;
+}
+
+/**
+ * LINEの「比較」コマンドを解釈
+ * - 「比較」→ []（直近の案件を比較）
+ * - 「比較 1 3」「比較1,3」→ 履歴番号の0始まりインデックス
+ * @returns 比較コマンドでなければ null
+ */
+export function parseCompareCommand(messageText: string): number[] | null {
+  const match = messageText.trim().match(/^(?:比較|ひかく|compare)\s*([0-9０-９,，、\s]*)$/i);
+  if (!match) return null;
+  const numbers = normalizeNumberText(match[1]).match(/\d/g) ?? [];
+  return [...new Set(numbers.map((n) => parseInt(n, 10) - 1).filter((index) => index >= 0))];
+}
+
+/**
+ * 比較用の賃料（診断時に解決した賃料 → 抽出JSONの順）
+ */
+function resolveComparisonRent(result: Partial<DiagnosisResult>): { rent: number | null; inferred: boolean } {
+  const extracted = toNonNegative(result.debug?.rent_extracted);
+  if (extracted > 0) return { rent: extracted, inferred: false };
+
+  const fromFacts = pickFactValue(result.extracted_facts, "rent");
+  if (fromFacts !== null && fromFacts > 0) return { rent: fromFacts, inferred: false };
+
+  const inferred = toNonNegative(result.debug?.rent_inferred);
+  if (inferred > 0) return { rent: inferred, inferred: true };
+
+  return { rent: null, inferred: false };
+}
+
+/**
+ * 抽出JSONから数値を取り出す（見積書 → 図面の順）
+ */
+function pickFactValue(
+  facts: ExtractionResult | undefined,
+  key: "rent" | "management_fee" | "free_rent_months"
+): number | null {
+  for (const source of [facts?.estimate, facts?.flyer]) {
+    const field = source?.[key] as ExtractedField<number> | undefined;
+    const value = toNumberOrNull(field?.value);
+    if (value !== null && value >= 0) return value;
+  }
+  return null;
+}
+
+function findMinIndex(values: (number | null)[]): number | null {
+  let bestIndex: number | null = null;
+  values.forEach((value, index) => {
+    if (value === null) return;
+    if (bestIndex === null || value < (values[bestIndex] as number)) bestIndex = index;
+  });
+  return bestIndex;
+}
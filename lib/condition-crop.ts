@@ -0,0 +1,70 @@
+/**
+ * 条件欄の自動切り出し
+ *
+ * 募集図面（マイソク）全体の画像から、賃料・敷金・礼金・諸費用などが
+ * 書かれた条件欄の位置をAIに特定させ、高解像度で切り出す。
+ * 条件欄のアップ写真をアップロードしなかったユーザーでも、
+ * 細かい文字を読み取れるようにするための補助処理。
+ */
+
+import { toNumberOrNull } from "@/lib/number-utils";
+
+/** 条件欄の位置（0〜1000の正規化座標） */
+export interface ConditionRegion {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+/** 画像全体に対してこれ以上の面積を占める場合は切り出す意味がない */
+const MAX_AREA_RATIO = 0.85;
+/** これより小さい範囲は誤検出とみなす */
+const MIN_AREA_RATIO = 0.02;
+
+/**
+ * 条件欄の位置を特定するプロンプト
+ */
+export function buildConditionLocatePrompt(): string {
+  return `
+この画像は賃貸物件の募集図面（マイソク）です。
+賃料・管理費・敷金・礼金・仲介手数料・保険・鍵交換・保証会社・その他費用などの
+「契約条件・費用」がまとまって書かれている欄（条件欄・備考欄）の位置を特定してください。
+間取り図・写真・地図・会社情報の欄は含めないでください。
+
+## 【出力形式】
+Markdown記法は含めず、純粋なJSONだけを返してください。
+座標は画像の左上を(0, 0)、右下を(1000, 1000)とした正規化座標です。
+{
+  "found": true,
+  "box_2d": [ymin, xmin, ymax, xmax]
+}
+条件欄が見つからない場合は { "found": false, "box_2d": null } を返してください。
+`;
+}
+
+/**
+ * AI応答テキストから条件欄の位置を取り出す（見つからない・不正な場合は null）
+ */
+export function parseConditionRegion(responseText: string): ConditionRegion | null {
+  const cleanedText = responseText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const raw = JSON.parse(cleanedText);
+  if (raw?.found !== true || !Array.isArray(raw.box_2d) || raw.box_2d.length !== 4) {
+    return null;
+  }
+
+  const [ymin, xmin, ymax, xmax] = raw.box_2d.map((v: unknown) => {
+    const num = toNumberOrNull(v);
+    return num === null ? NaN : Math.max(0, Math.min(1000, num));
+  });
+  if ([ymin, xmin, ymax, xmax].some((v) => Number.isNaN(v)) || ymax <= ymin || xmax <= xmin) {
+    return null;
+  }
+
+  const areaRatio = ((ymax - ymin) * (xmax - xmin)) / (1000 * 1000);
+  if (areaRatio < MIN_AREA_RATIO || areaRatio > MAX_AREA_RATIO) {
+    return null;
+  }
+
+  return { ymin, xmin, ymax, xmax };
+}
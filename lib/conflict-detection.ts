@@ -0,0 +1,191 @@
+/**
+ * 図面 vs 見積書の矛盾検出
+ *
+ * 抽出フェーズで別々に読み取った図面と見積書の ExtractedFacts を
+ * フィールドごとに突き合わせ、ConflictItem を生成する。
+ * 画面上の「図面では礼金0ヶ月、見積書では1ヶ月」のような表示に使う。
+ */
+
+import {
+  createEmptyField,
+  type ConflictItem,
+  type ExtractedFacts,
+  type ExtractedField,
+  type ExtractionResult,
+} from "@/lib/types";
+import { formatYen, toNumberOrNull } from "@/lib/number-utils";
+import { matchRule } from "@/lib/rule-engine";
+
+/** この信頼度未満の値は low_confidence として再確認対象にする */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** 金額の一致判定で許容する誤差（円） */
+const AMOUNT_TOLERANCE = 100;
+/** 月数の一致判定で許容する誤差（日割り・端数を許容） */
+const MONTHS_TOLERANCE = 0.05;
+
+type ComparedFieldKey =
+  | "rent"
+  | "management_fee"
+  | "deposit_months"
+  | "key_money_months"
+  | "brokerage_fee"
+  | "brokerage_fee_months"
+  | "guarantee_fee"
+  | "fire_insurance"
+  | "support_service"
+  | "key_exchange"
+  | "administrative_fee"
+  | "free_rent_months";
+
+interface ComparedField {
+  key: ComparedFieldKey;
+  label: string;
+  unit: "yen" | "months";
+  /**
+   * 見積書に請求があるのに図面に記載がない場合に矛盾とみなすか
+   * （付帯費用のみ。家賃などは図面の読み取り漏れの可能性が高いため対象外）
+   */
+  flagMissingInFlyer: boolean;
+  /** 固定フィールドが空のとき明細行から補完するためのルールID */
+  ruleId?: string;
+  /** 固定フィールドが空のとき明細行の金額から月数を求めるための項目名 */
+  monthsLinePattern?: RegExp;
+}
+
+const COMPARED_FIELDS: ComparedField[] = [
+  { key: "rent", label: "賃料", unit: "yen", flagMissingInFlyer: false },
+  { key: "management_fee", label: "管理費・共益費", unit: "yen", flagMissingInFlyer: false },
+  { key: "deposit_months", label: "敷金", unit: "months", flagMissingInFlyer: false, monthsLinePattern: /敷金/ },
+  { key: "key_money_months", label: "礼金", unit: "months", flagMissingInFlyer: false, monthsLinePattern: /礼金/ },
+  { key: "brokerage_fee", label: "仲介手数料", unit: "yen", flagMissingInFlyer: false, ruleId: "brokerage" },
+  { key: "brokerage_fee_months", label: "仲介手数料（月数）", unit: "months", flagMissingInFlyer: false },
+  { key: "guarantee_fee", label: "保証会社利用料", unit: "yen", flagMissingInFlyer: false },
+  { key: "fire_insurance", label: "火災保険", unit: "yen", flagMissingInFlyer: true, ruleId: "fire_insurance" },
+  { key: "support_service", label: "24時間サポート", unit: "yen", flagMissingInFlyer: true, ruleId: "support_service" },
+  { key: "key_exchange", label: "鍵交換代", unit: "yen", flagMissingInFlyer: true, ruleId: "key_exchange" },
+  { key: "administrative_fee", label: "事務手数料", unit: "yen", flagMissingInFlyer: true, ruleId: "administrative_fee" },
+  { key: "free_rent_months", label: "フリーレント", unit: "months", flagMissingInFlyer: false },
+];
+
+/**
+ * フィールド名の表示用ラベルを取得
+ */
+export function getComparedFieldLabel(fieldName: string): string {
+  return COMPARED_FIELDS.find((spec) => spec.key === fieldName)?.label ?? fieldName;
+}
+
+/**
+ * 明細行がそのフィールドの金額を表しているか（円単位のフィールドのみ）
+ */
+export function lineMatchesField(fieldName: string, lineName: string): boolean {
+  const spec = COMPARED_FIELDS.find((field) => field.key === fieldName);
+  return !!spec?.ruleId && matchRule(lineName).id === spec.ruleId;
+}
+
+/**
+ * 図面と見積書の抽出結果を突き合わせて矛盾を列挙
+ * 図面がない場合は見積書側の低信頼度フィールドのみを返す
+ */
+export function detectConflicts(extraction: ExtractionResult): ConflictItem[] {
+  const { estimate, flyer } = extraction;
+  const conflicts: ConflictItem[] = [];
+
+  const estimateRent = toNumberOrNull(estimate.rent.value) ?? toNumberOrNull(flyer?.rent.value);
+  const flyerRent = toNumberOrNull(flyer?.rent.value) ?? estimateRent;
+
+  for (const spec of COMPARED_FIELDS) {
+    const estimateValue = resolveField(estimate, spec, estimateRent);
+    const flyerValue = flyer ? resolveField(flyer, spec, flyerRent) : null;
+    const conflict = compareField(spec, estimateValue, flyerValue);
+    if (conflict) conflicts.push(conflict);
+  }
+
+  return conflicts;
+}
+
+/**
+ * 固定フィールドの値を取得（空なら明細行から補完）
+ */
+function resolveField(
+  facts: ExtractedFacts,
+  spec: ComparedField,
+  rent: number | null
+): ExtractedField<number | string | null> {
+  const field = facts[spec.key] as ExtractedField<number | string | null>;
+  if (field.value !== null) return field;
+
+  if (spec.ruleId) {
+    const line = facts.line_items.find((item) => matchRule(item.name).id === spec.ruleId);
+    if (line && line.value.value !== null) return line.value;
+  }
+
+  if (spec.monthsLinePattern && rent && rent > 0) {
+    const line = facts.line_items.find((item) => spec.monthsLinePattern!.test(item.name));
+    const amount = toNumberOrNull(line?.value.value);
+    if (line && amount !== null) {
+      return {
+        ...line.value,
+        value: Math.round((amount / rent) * 100) / 100,
+        extraction_note: `${line.name}の金額から賃料比で算出`,
+      };
+    }
+  }
+
+  return field;
+}
+
+function compareField(
+  spec: ComparedField,
+  estimateValue: ExtractedField<number | string | null>,
+  flyerValue: ExtractedField<number | string | null> | null
+): ConflictItem | null {
+  const estimateNumber = toNumberOrNull(estimateValue.value);
+  const flyerNumber = flyerValue ? toNumberOrNull(flyerValue.value) : null;
+  const emptyFlyer = flyerValue ?? createEmptyField<number | string | null>("flyer");
+
+  const build = (conflictType: ConflictItem["conflict_type"], description: string): ConflictItem => ({
+    field_name: spec.key,
+    label: spec.label,
+    flyer_value: emptyFlyer,
+    estimate_value: estimateValue,
+    conflict_type: conflictType,
+    needs_verification: true,
+    description,
+  });
+
+  if (flyerValue && estimateNumber !== null && flyerNumber !== null) {
+    const tolerance = spec.unit === "yen" ? AMOUNT_TOLERANCE : MONTHS_TOLERANCE;
+    if (Math.abs(estimateNumber - flyerNumber) > tolerance) {
+      return build(
+        "value_mismatch",
+        `図面では${spec.label}${formatValue(flyerNumber, spec.unit)}、見積書では${formatValue(estimateNumber, spec.unit)}です。`
+      );
+    }
+  }
+
+  if (flyerValue && spec.flagMissingInFlyer && flyerNumber === null && estimateNumber !== null && estimateNumber > 0) {
+    return build(
+      "flyer_null_estimate_exists",
+      `見積書に${spec.label}${formatValue(estimateNumber, spec.unit)}が計上されていますが、図面には記載がありません。`
+    );
+  }
+
+  const shaky = [estimateValue, flyerValue].find(
+    (field) => field && field.value !== null && field.confidence < LOW_CONFIDENCE_THRESHOLD
+  );
+  if (shaky) {
+    const where = shaky.source === "flyer" ? "図面" : "見積書";
+    return build(
+      "low_confidence",
+      `${where}の${spec.label}（${shaky.evidence_text ?? "読み取り値"}）の読み取りが不確実です。`
+    );
+  }
+
+  return null;
+}
+
+function formatValue(value: number, unit: ComparedField["unit"]): string {
+  if (unit === "months") return `${value}ヶ月`;
+  return `${formatYen(value)}円`;
+}
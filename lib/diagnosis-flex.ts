@@ -0,0 +1,241 @@
+/**
+ * 診断結果のLINE Flex Message（カルーセル）
+ *
+ * 1枚目: 物件名・合計（提示額／適正額／削減可能額）・リスクスコアのゲージ
+ * 2枚目以降: 項目ごとのカード（削除推奨・交渉可・要確認・適正で色分け）
+ * 各カードに「詳細」「見積書PDF」「相談する」ボタンを付ける（案件IDつきのpostback。lib/line-postback.ts）。
+ *
+ * カルーセルの上限（12枚・50KB）を超える場合はテキストの要約にフォールバックする。
+ */
+
+import type { FlexBox, FlexBubble, FlexComponent, Message } from "@line/bot-sdk";
+import type { DiagnosisItem, DiagnosisResult, DiagnosisStatus } from "@/lib/types";
+import { formatYen } from "@/lib/number-utils";
+import { buildPostbackAction } from "@/lib/line-postback";
+
+/** LINEのカルーセルの上限 */
+const MAX_BUBBLES = 12;
+const MAX_FLEX_BYTES = 50 * 1024;
+
+/** ボタンと同じ操作のテキストコマンド（postback以前のボタンが送っていたテキスト） */
+export const DIAGNOSIS_FLEX_COMMANDS = {
+  details: "詳細",
+  pdf: "見積書PDF",
+  consultation: "相談したい",
+} as const;
+
+const STATUS_STYLES: Record<DiagnosisStatus, { label: string; color: string; background: string }> = {
+  cut: { label: "削除推奨", color: "#DC2626", background: "#FEF2F2" },
+  negotiable: { label: "交渉可", color: "#EA580C", background: "#FFF7ED" },
+  warning: { label: "要確認", color: "#CA8A04", background: "#FEFCE8" },
+  requires_confirmation: { label: "要確認", color: "#CA8A04", background: "#FEFCE8" },
+  fair: { label: "適正", color: "#059669", background: "#ECFDF5" },
+};
+
+const STATUS_ORDER: DiagnosisStatus[] = ["cut", "negotiable", "warning", "requires_confirmation", "fair"];
+
+/**
+ * 診断結果のメッセージ（カルーセル。大きすぎる場合はテキスト）
+ */
+export function buildDiagnosisMessage(result: Partial<DiagnosisResult>, caseId: string): Message {
+  const items = [...(result.items ?? [])].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  );
+  if (items.length + 1 > MAX_BUBBLES) {
+    return { type: "text", text: formatDiagnosisText(result) };
+  }
+
+  const message: Message = {
+    type: "flex",
+    altText: `診断結果: 削減可能額 ¥${formatYen(result.discount_amount ?? 0)}`,
+    contents: {
+      type: "carousel",
+      contents: [buildSummaryBubble(result, caseId), ...items.map((item) => buildItemBubble(item, caseId))],
+    },
+  };
+  if (Buffer.byteLength(JSON.stringify(message), "utf8") > MAX_FLEX_BYTES) {
+    return { type: "text", text: formatDiagnosisText(result) };
+  }
+  return message;
+}
+
+/**
+ * テキストの要約（Flexにできない場合のフォールバック）
+ */
+export function formatDiagnosisText(result: Partial<DiagnosisResult>): string {
+  let message = `【物件情報】\n${result.property_name || "物件名不明"}`;
+  if (result.room_number) {
+    message += ` ${result.room_number}`;
+  }
+  message += `\n\n【診断サマリー】\n`;
+  message += `見積書合計: ${formatYen(result.total_original ?? 0)}円\n`;
+  message += `適正価格: ${formatYen(result.total_fair ?? 0)}円\n`;
+  message += `💰 削減可能額: ${formatYen(result.discount_amount ?? 0)}円\n`;
+  message += `⚠️ リスクスコア: ${result.risk_score || 0}点\n`;
+
+  const sections: { status: DiagnosisStatus; title: string; mark: string }[] = [
+    { status: "cut", title: "削減可能項目", mark: "❌" },
+    { status: "negotiable", title: "交渉推奨項目", mark: "⚡" },
+  ];
+  for (const section of sections) {
+    const sectionItems = (result.items ?? []).filter((item) => item.status === section.status);
+    if (sectionItems.length === 0) continue;
+    message += `\n【${section.title}】\n`;
+    for (const item of sectionItems) {
+      message += `${section.mark} ${item.name}: ${formatYen(item.price_original ?? 0)}円\n`;
+      message += `   → ${item.reason}\n`;
+    }
+  }
+  return message.trimEnd();
+}
+
+function buildSummaryBubble(result: Partial<DiagnosisResult>, caseId: string): FlexBubble {
+  const riskScore = Math.min(100, Math.max(0, Math.round(result.risk_score ?? 0)));
+  const riskColor = riskScore >= 70 ? "#DC2626" : riskScore >= 40 ? "#EA580C" : "#059669";
+  const propertyName = result.property_name && result.property_name !== "物件名入力なし" ? result.property_name : "物件名不明";
+
+  return {
+    type: "bubble",
+    header: {
+      type: "box",
+      layout: "vertical",
+      backgroundColor: "#1E293B",
+      contents: [
+        { type: "text", text: "診断結果", size: "xs", color: "#CBD5E1" },
+        {
+          type: "text",
+          text: result.room_number ? `${propertyName} ${result.room_number}` : propertyName,
+          weight: "bold",
+          size: "lg",
+          color: "#FFFFFF",
+          wrap: true,
+        },
+      ],
+    },
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "md",
+      contents: [
+        priceRow("見積書合計", `¥${formatYen(result.total_original ?? 0)}`),
+        priceRow("適正価格", `¥${formatYen(result.total_fair ?? 0)}`),
+        { type: "separator" },
+        {
+          type: "box",
+          layout: "vertical",
+          contents: [
+            { type: "text", text: "削減可能額", size: "sm", color: "#666666" },
+            {
+              type: "text",
+              text: `¥${formatYen(result.discount_amount ?? 0)}`,
+              size: "xxl",
+              weight: "bold",
+              color: "#DC2626",
+            },
+          ],
+        },
+        {
+          type: "box",
+          layout: "vertical",
+          spacing: "xs",
+          contents: [
+            priceRow("リスクスコア", `${riskScore}/100`, riskColor),
+            riskGauge(riskScore, riskColor),
+          ],
+        },
+      ],
+    },
+    footer: buildButtons(caseId),
+  };
+}
+
+function buildItemBubble(item: DiagnosisItem, caseId: string): FlexBubble {
+  const style = STATUS_STYLES[item.status] ?? STATUS_STYLES.requires_confirmation;
+  const contents: FlexComponent[] = [
+    { type: "text", text: style.label, size: "sm", weight: "bold", color: style.color },
+    { type: "text", text: item.name, size: "lg", weight: "bold", color: "#1E293B", wrap: true },
+    priceRow("見積額", item.price_original !== null ? `¥${formatYen(item.price_original)}` : "不明"),
+  ];
+  if (item.status === "negotiable" || item.status === "cut") {
+    contents.push(priceRow("適正額", `¥${formatYen(item.status === "cut" ? 0 : item.price_fair ?? 0)}`, style.color));
+  }
+  if (item.reason) {
+    contents.push({ type: "text", text: item.reason, size: "xs", color: "#475569", wrap: true, maxLines: 6 });
+  }
+
+  return {
+    type: "bubble",
+    size: "kilo",
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "sm",
+      backgroundColor: style.background,
+      contents,
+    },
+    footer: buildButtons(caseId),
+  };
+}
+
+function buildButtons(caseId: string): FlexBox {
+  return {
+    type: "box",
+    layout: "vertical",
+    spacing: "sm",
+    contents: [
+      {
+        type: "button",
+        style: "primary",
+        color: "#007AFF",
+        height: "sm",
+        action: buildPostbackAction("詳細", "details", caseId),
+      },
+      {
+        type: "button",
+        style: "secondary",
+        height: "sm",
+        action: buildPostbackAction("見積書PDF", "estimate_pdf", caseId),
+      },
+      {
+        type: "button",
+        style: "primary",
+        color: "#FF9500",
+        height: "sm",
+        action: buildPostbackAction("相談する", "consult", caseId),
+      },
+    ],
+  };
+}
+
+function priceRow(label: string, value: string, color = "#333333"): FlexBox {
+  return {
+    type: "box",
+    layout: "horizontal",
+    contents: [
+      { type: "text", text: label, size: "sm", color: "#666666", flex: 0 },
+      { type: "text", text: value, size: "sm", weight: "bold", color, align: "end" },
+    ],
+  };
+}
+
+/** リスクスコアのゲージ（灰色の帯の上にスコア分の色付きバー） */
+function riskGauge(score: number, color: string): FlexBox {
+  return {
+    type: "box",
+    layout: "vertical",
+    height: "8px",
+    cornerRadius: "4px",
+    backgroundColor: "#E2E8F0",
+    contents: [
+      {
+        type: "box",
+        layout: "vertical",
+        width: `${Math.max(score, 1)}%`,
+        height: "8px",
+        cornerRadius: "4px",
+        backgroundColor: color,
+        contents: [],
+      },
+    ],
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * 診断フェーズ
+ *
+ * 抽出JSON（ExtractionResult）だけを入力に DiagnosisResult を組み立てる。
+ * 各明細の判定は lib/rule-engine.ts のルールに委譲する。
+ * 画像もAIも使わないため、同じ抽出JSONからは常に同じ診断結果になる。
+ */
+
+import type {
+  DiagnosisInputs,
+  DiagnosisItem,
+  DiagnosisResult,
+  ExtractedFacts,
+  ExtractedOtherItem,
+  ExtractionLog,
+  ExtractionResult,
+  VerificationResult,
+} from "@/lib/types";
+import { formatYen, toNonNegative } from "@/lib/number-utils";
+import { listNullFields } from "@/lib/extraction";
+import { evaluateLines, matchRule } from "@/lib/rule-engine";
+import { assessExtractionQuality, type LabeledImageQuality } from "@/lib/extraction-quality";
+import { detectConflicts, getComparedFieldLabel, lineMatchesField } from "@/lib/conflict-detection";
+
+const RENT_EXACT_REGEX = /^(家賃|賃料|月額賃料|月額家賃|月額)$/;
+const RENT_LOOSE_REGEX = /家賃|賃料|月額/;
+const RENT_EXCLUDE_REGEX = /前家賃|翌月|日割|共益|管理費|手数料/;
+
+/** 明細行が読めなかった場合に見積書の固定フィールドから明細を組み立てる際のラベル */
+const FALLBACK_LINE_LABELS: Array<[keyof ExtractedFacts, string]> = [
+  ["brokerage_fee", "仲介手数料"],
+  ["guarantee_fee", "保証会社利用料"],
+  ["fire_insurance", "火災保険"],
+  ["key_exchange", "鍵交換代"],
+  ["support_service", "24時間サポート"],
+  ["administrative_fee", "事務手数料"],
+  ["cleaning_fee", "クリーニング費"],
+];
+
+export interface DiagnoseOptions {
+  /** 検証フェーズ（再読み取り）の結果。extraction には反映済みであること */
+  verification?: VerificationResult[];
+  /** アップロード画像の品質チェック結果 */
+  imageQuality?: LabeledImageQuality[];
+}
+
+/**
+ * 診断結果に保存した入力から DiagnoseOptions を復元（再診断用）
+ */
+export function diagnoseOptionsFrom(inputs: DiagnosisInputs | null | undefined): DiagnoseOptions {
+  return {
+    verification: Array.isArray(inputs?.verification) ? inputs.verification : [],
+    imageQuality: Array.isArray(inputs?.image_quality) ? inputs.image_quality : [],
+  };
+}
+
+/**
+ * 抽出JSONから診断結果を組み立てる
+ */
+export function diagnose(extraction: ExtractionResult, options: DiagnoseOptions = {}): DiagnosisResult {
+  const { verification = [], imageQuality = [] } = options;
+  const { estimate, flyer } = extraction;
+  const hasFlyer = flyer !== null;
+
+  const lines = collectEstimateLines(estimate);
+  const rentInfo = resolveRent(extraction, lines);
+  const items = evaluateLines(lines, { hasFlyer, flyer, rent: rentInfo.rent });
+  const totals = calculateTotals(items);
+
+  const brokerageItem = items.find((item) => item.rule_id === "brokerage");
+  const brokerageAmount = toNonNegative(brokerageItem?.price_original);
+  const warningCount = items.filter((item) => item.status === "warning").length;
+  const { headline, logicPath, ratio } = decideHeadline(rentInfo.rent, brokerageAmount, warningCount, hasFlyer);
+
+  const conflicts = detectConflicts(extraction).map((conflict) => ({
+    ...conflict,
+    needs_verification: !isVerified(conflict.field_name, verification),
+  }));
+  const unresolvedLabels = markUnverifiedItems(items, verification);
+  const unconfirmedItems = items.filter((item) => item.requires_confirmation);
+  const quality = assessExtractionQuality(items, imageQuality);
+  const unconfirmedNames = [...new Set([...unconfirmedItems.map((item) => item.name), ...unresolvedLabels])];
+  const extractionLog: ExtractionLog = {
+    flyer_extracted: hasFlyer && (flyer?.total_items_found ?? 0) > 0,
+    estimate_extracted: lines.length > 0,
+    conflicts_detected: conflicts.map((conflict) => `${conflict.field_name}: ${conflict.conflict_type}`),
+    verification_performed: verification.map(
+      (result) => `${result.source ?? "estimate"}.${result.field_name}: ${result.verification_status}（${result.verification_note}）`
+    ),
+    final_null_fields: listNullFields(estimate),
+  };
+
+  return {
+    property_name: estimate.property_name.value || flyer?.property_name.value || "物件名入力なし",
+    room_number: estimate.room_number.value || flyer?.room_number.value || "",
+    items,
+    ...totals,
+    pro_review: { content: buildProReview(items, totals.discount_amount, hasFlyer) },
+    headline,
+    has_unconfirmed_items: unconfirmedNames.length > 0,
+    unconfirmed_item_names: unconfirmedNames,
+    extraction_quality: quality.quality,
+    quality_advice: quality.advice,
+    has_flyer: hasFlyer,
+    conflicts,
+    extraction_log: extractionLog,
+    extracted_facts: extraction,
+    diagnosis_inputs: { verification, image_quality: imageQuality },
+    debug: {
+      rent_extracted: rentInfo.extracted,
+      rent_inferred: rentInfo.inferred,
+      rent_source: rentInfo.source,
+      brokerage_amount: brokerageAmount,
+      ratio: Math.round(ratio * 100) / 100,
+      warning_count: warningCount,
+      has_flyer: hasFlyer,
+      logic_path: logicPath,
+    },
+  };
+}
+
+/**
+ * 再読み取りで確定したフィールドか（対象外のフィールドは確定扱い）
+ */
+function isVerified(fieldName: string, verification: VerificationResult[]): boolean {
+  return verification
+    .filter((result) => result.field_name === fieldName)
+    .every((result) => result.verification_status === "confirmed");
+}
+
+/**
+ * 再読み取りでも確定できなかったフィールドに対応する明細を要確認にする
+ * @returns 対応する明細がなかったフィールドのラベル
+ */
+function markUnverifiedItems(items: DiagnosisItem[], verification: VerificationResult[]): string[] {
+  const unresolvedLabels: string[] = [];
+  const unresolvedFields = new Set(
+    verification.filter((result) => result.verification_status !== "confirmed").map((result) => result.field_name)
+  );
+
+  for (const fieldName of unresolvedFields) {
+    const label = getComparedFieldLabel(fieldName);
+    const related = items.filter((item) => lineMatchesField(fieldName, item.name) || item.name.includes(label));
+    if (related.length === 0) {
+      unresolvedLabels.push(label);
+      continue;
+    }
+    for (const item of related) {
+      item.requires_confirmation = true;
+    }
+  }
+  return unresolvedLabels;
+}
+
+/**
+ * 見積書の明細行を取得
+ * line_items が読めなかった場合は固定フィールドから最低限の明細を組み立てる
+ */
+function collectEstimateLines(estimate: ExtractedFacts): ExtractedOtherItem[] {
+  if (estimate.line_items.length > 0) {
+    return estimate.line_items;
+  }
+  return FALLBACK_LINE_LABELS.flatMap(([key, label]) => {
+    const field = estimate[key] as ExtractedOtherItem["value"];
+    return field.value !== null ? [{ name: label, value: field }] : [];
+  });
+}
+
+/**
+ * 家賃を決定（見積書 → 図面 → 明細行 → 仲介手数料の月数表記から逆算）
+ */
+function resolveRent(
+  extraction: ExtractionResult,
+  lines: ExtractedOtherItem[]
+): { rent: number; extracted: number; inferred: number; source: "extracted" | "inferred" | "missing" } {
+  const { estimate, flyer } = extraction;
+
+  const rentLine =
+    lines.find((line) => RENT_EXACT_REGEX.test(line.name.trim())) ||
+    lines.find((line) => RENT_LOOSE_REGEX.test(line.name) && !RENT_EXCLUDE_REGEX.test(line.name));
+  const extracted = toNonNegative(estimate.rent.value ?? flyer?.rent.value ?? rentLine?.value.value);
+  if (extracted > 0) {
+    return { rent: extracted, extracted, inferred: 0, source: "extracted" };
+  }
+
+  const brokerageLine = lines.find((line) => matchRule(line.name).id === "brokerage");
+  const brokerageAmount = toNonNegative(brokerageLine?.value.value);
+  const months = toNonNegative(estimate.brokerage_fee_months.value);
+  if (brokerageAmount > 0 && months > 0) {
+    const taxIncluded = estimate.brokerage_fee_tax_included.value === true;
+    const ratio = taxIncluded && months <= 1 ? months * 1.1 : months;
+    const inferred = Math.round(brokerageAmount / ratio);
+    return { rent: inferred, extracted: 0, inferred, source: "inferred" };
+  }
+
+  return { rent: 0, extracted: 0, inferred: 0, source: "missing" };
+}
+
+/**
+ * 合計値の算出
+ * - discount_amount: negotiable の差額 + cut の全額（warning は含めない）
+ * - total_fair: 提示額合計 - 削減可能額
+ */
+export function calculateTotals(items: DiagnosisItem[]): Pick<
+  DiagnosisResult,
+  "total_original" | "total_fair" | "discount_amount" | "warning_amount" | "risk_score"
+> {
+  const totalOriginal = items.reduce((sum, item) => sum + toNonNegative(item.price_original), 0);
+  const warningAmount = items.reduce(
+    (sum, item) => (item.status === "warning" ? sum + toNonNegative(item.price_original) : sum),
+    0
+  );
+  const discountAmount = items.reduce((sum, item) => {
+    const original = toNonNegative(item.price_original);
+    if (item.status === "cut") return sum + original;
+    if (item.status === "negotiable") return sum + Math.max(0, original - toNonNegative(item.price_fair, original));
+    return sum;
+  }, 0);
+
+  return {
+    total_original: totalOriginal,
+    total_fair: Math.max(0, totalOriginal - discountAmount),
+    discount_amount: discountAmount,
+    warning_amount: warningAmount,
+    risk_score: totalOriginal > 0 ? Math.min(100, Math.round((discountAmount / totalOriginal) * 100)) : 0,
+  };
+}
+
+/**
+ * 判定ヘッドライン（家賃・仲介手数料・要確認数から算出）
+ */
+function decideHeadline(
+  rent: number,
+  brokerageAmount: number,
+  warningCount: number,
+  hasFlyer: boolean
+): { headline: string; logicPath: string; ratio: number } {
+  if (rent > 0 && brokerageAmount > 0) {
+    const ratio = brokerageAmount / rent;
+    // 【判定A】仲介手数料が家賃の1.1ヶ月分以上 かつ 要確認項目が4つ以上
+    if (ratio >= 1.1 && warningCount >= 4) {
+      return { headline: "大幅に削減できる可能性が高いです", logicPath: "Condition A (High Reduction)", ratio };
+    }
+    // 【判定B】仲介手数料が家賃の1.1ヶ月分以上 かつ 要確認項目が3つ以下
+    if (ratio >= 1.1) {
+      return { headline: "削減できる可能性が非常に高いです", logicPath: "Condition B (Likely Reduction)", ratio };
+    }
+    return { headline: "適正な範囲であると言えます", logicPath: "Condition C (Fair)", ratio };
+  }
+  if (!hasFlyer) {
+    return {
+      headline: "図面を追加でアップロードすることを強く推奨します",
+      logicPath: "Condition D (No rent & no flyer)",
+      ratio: 0,
+    };
+  }
+  return { headline: "適正な範囲であると言えます", logicPath: "Condition C (Fallback without rent)", ratio: 0 };
+}
+
+/**
+ * 総評テキストを組み立てる（【総括】の次行が画面上の要約になる）
+ */
+function buildProReview(items: DiagnosisItem[], discountAmount: number, hasFlyer: boolean): string {
+  const reducible = items.filter((item) => item.status === "cut" || item.status === "negotiable");
+  const warnings = items.filter((item) => item.status === "warning");
+
+  const lines = ["【総括】"];
+  if (reducible.length > 0) {
+    lines.push(`${reducible.map((item) => item.name).join("・")}で合計約${formatYen(discountAmount)}円の削減が見込めます。`);
+  } else {
+    lines.push("書面上で明確に削減できる項目は見当たりませんでした。");
+  }
+
+  for (const item of reducible) {
+    lines.push(`・${item.name}: ${item.reason}`);
+  }
+  if (warnings.length > 0) {
+    lines.push(`・${warnings.map((item) => item.name).join("・")}は管理会社の方針によって外せる場合があります。契約前に必須かどうかを確認しましょう。`);
+  }
+  if (!hasFlyer) {
+    lines.push("・募集図面を追加すると、図面に記載のない費用の上乗せも確認できます。");
+  }
+  return lines.join("\n");
+}
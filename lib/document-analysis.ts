@@ -0,0 +1,493 @@
+/**
+ * 見積書・図面の解析パイプライン（/api/analyze と LINE の画像受信で共通）
+ *
+ * ページ → Geminiパーツ作成（前処理・品質チェック）→ 画像分類 →
+ * 抽出（Gemini → ExtractedFacts）→ 検証（不確実な項目のみ再読み取り）→ 診断（lib/diagnosis.ts）
+ *
+ * 裏コマンド（見積書・図面以外の画像の特別診断）は /api/analyze のみで行う。
+ *
+ * 【重要】Gemini APIに画像を送信する前に validateContentBeforeApiCall で
+ * 厳密なバリデーションを行い、ByteStringエラーを防止する。
+ */
+
+import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
+import {
+  createImagePartFromBuffer,
+  buildGeminiContent,
+  debugGeminiContent,
+  containsNonAscii,
+  type GeminiImagePart,
+  type GeminiContentPart,
+} from "@/lib/gemini-utils";
+import { buildExtractionPrompt, parseExtractionResponse } from "@/lib/extraction";
+import { diagnose } from "@/lib/diagnosis";
+import { detectConflicts } from "@/lib/conflict-detection";
+import {
+  checkImageQuality,
+  cropNormalizedRegion,
+  logImageProcessing,
+  preprocessImage,
+  type ImageBuffer,
+} from "@/lib/image-preprocessing";
+import { buildConditionLocatePrompt, parseConditionRegion } from "@/lib/condition-crop";
+import { pageLabel, type DocumentPage } from "@/lib/document-pages";
+import type { LabeledImageQuality } from "@/lib/extraction-quality";
+import {
+  applyVerificationResults,
+  buildUnconfirmedResults,
+  buildVerificationPrompt,
+  parseVerificationResponse,
+  selectVerificationImageIndexes,
+  selectVerificationTargets,
+} from "@/lib/verification";
+import type { DiagnosisResult, ExtractionResult, ExtractionSource, VerificationResult } from "@/lib/types";
+
+/** 画像分類の種類（estimate / flyer 以外は裏コマンドの対象） */
+export type ImageClassificationType = "estimate" | "flyer" | "face" | "animal" | "food" | "scenery" | "other";
+
+export interface ImageClassification {
+  type: ImageClassificationType;
+  confidence: number;
+  description: string;
+}
+
+/** Gemini に渡すパーツ一式（パーツと同じ順序のラベル・読み取り元・品質チェック結果） */
+export interface DocumentParts {
+  imageParts: GeminiImagePart[];
+  imageLabels: string[];
+  imageSources: ExtractionSource[];
+  imageQuality: LabeledImageQuality[];
+  /** 条件欄の自動切り出しに使う図面（最初の画像ページ） */
+  planImage: { part: GeminiImagePart; original: ImageBuffer } | null;
+  hasFlyer: boolean;
+  /** 条件欄が別途アップロードされたか（あれば自動切り出しは行わない） */
+  hasConditionPages: boolean;
+}
+
+const CLASSIFICATION_PROMPT = `
+この画像を分析して、以下のどれに該当するか判定してください。
+
+1. "estimate" - 賃貸の見積書・初期費用明細書
+2. "flyer" - 賃貸の募集図面・マイソク
+3. "face" - 人の顔が写っている写真
+4. "animal" - 動物が写っている写真
+5. "food" - 食べ物の写真
+6. "scenery" - 風景・建物の写真
+7. "other" - その他
+
+JSON形式で出力してください:
+{
+  "type": "estimate" | "flyer" | "face" | "animal" | "food" | "scenery" | "other",
+  "confidence": 0-100,
+  "description": "画像の簡単な説明"
+}
+`;
+
+/**
+ * 解析用のモデル（JSON出力・temperature 0）
+ * @throws GEMINI_API_KEY 未設定時
+ */
+export function createAnalysisModel(): GenerativeModel {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY が設定されていません");
+  }
+  return new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: process.env.GEMINI_MODEL_NAME || "gemini-2.5-pro",
+    generationConfig: {
+      responseMimeType: "application/json",
+      temperature: 0,
+    },
+  });
+}
+
+/**
+ * 【ガード関数】Gemini APIを呼び出す前の最終チェック
+ * 不正なデータを検出した場合は valid: false とエラー内容を返す
+ */
+export function validateContentBeforeApiCall(content: GeminiContentPart[]): { valid: boolean; error?: string } {
+  for (let i = 0; i < content.length; i++) {
+    const part = content[i];
+
+    // 【最重要】パーツがオブジェクト形式であることを確認
+    if (!part || typeof part !== "object" || Array.isArray(part)) {
+      return {
+        valid: false,
+        error: `パーツ[${i}]: オブジェクト形式ではありません（型: ${typeof part}, Array: ${Array.isArray(part)}）`
+      };
+    }
+
+    if ("inlineData" in part) {
+      // 画像パーツの検証
+      const data = part.inlineData.data;
+
+      // 型チェック
+      if (typeof data !== "string") {
+        return {
+          valid: false,
+          error: `パーツ[${i}]: dataが文字列ではありません（型: ${typeof data}）`
+        };
+      }
+
+      // 空チェック
+      if (data.length === 0) {
+        return {
+          valid: false,
+          error: `パーツ[${i}]: dataが空です`
+        };
+      }
+
+      // 非ASCIIチェック（最重要）
+      if (containsNonAscii(data)) {
+        const firstNonAsciiIndex = data.split("").findIndex((char) => char.charCodeAt(0) > 127);
+        const charCode = data.charCodeAt(firstNonAsciiIndex);
+        const char = data.charAt(firstNonAsciiIndex);
+        return {
+          valid: false,
+          error: `パーツ[${i}]: Base64データに非ASCII文字を検出。位置=${firstNonAsciiIndex}, コード=${charCode}, 文字="${char}"。プロンプトテキストが画像データに混入しています。`
+        };
+      }
+    } else if ("text" in part) {
+      // 【最重要】テキストパーツが { text: string } 形式であることを確認
+      if (typeof part.text !== "string") {
+        return {
+          valid: false,
+          error: `パーツ[${i}]: textが文字列ではありません（型: ${typeof part.text}）`
+        };
+      }
+
+      // 生の文字列でないことを確認（undiciの_Headers.appendエラーを防ぐ）
+      if (part.constructor === String || typeof part === "string") {
+        return {
+          valid: false,
+          error: `パーツ[${i}]: 生の文字列です。必ず { text: string } オブジェクト形式にしてください`
+        };
+      }
+    } else {
+      return {
+        valid: false,
+        error: `パーツ[${i}]: 無効な形式です（inlineDataもtextもありません）`
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * アップロードされたページを Gemini 用のパーツにする
+ * - 画像: 前処理（向き・傾き・コントラスト補正）+ 品質チェック（前処理前の画像に対して行う）
+ * - PDF: そのまま渡す（文字がデータとして含まれるため前処理・品質チェックは不要）
+ */
+async function preparePage(
+  page: DocumentPage,
+  label: string
+): Promise<{ part: GeminiImagePart; original: ImageBuffer; quality: LabeledImageQuality | null; processedSize: number }> {
+  if (page.isPdf) {
+    return { part: createImagePartFromBuffer(page), original: page, quality: null, processedSize: page.buffer.length };
+  }
+  const quality: LabeledImageQuality = { label, ...(await checkImageQuality(page)) };
+  const processed = await preprocessImage(page);
+  return {
+    part: createImagePartFromBuffer(processed),
+    original: page,
+    quality,
+    processedSize: processed.buffer.length,
+  };
+}
+
+/**
+ * 見積書・図面・条件欄のページからパーツ一式を作る
+ * 図面・条件欄はオプションなので、失敗したページはスキップする
+ * @throws 見積書のパーツ作成に失敗した場合
+ */
+export async function buildDocumentParts(pages: {
+  estimate: DocumentPage[];
+  plan: DocumentPage[];
+  condition: DocumentPage[];
+}): Promise<DocumentParts> {
+  const parts: DocumentParts = {
+    imageParts: [],
+    imageLabels: [],
+    imageSources: [],
+    imageQuality: [],
+    planImage: null,
+    hasFlyer: pages.plan.length > 0 || pages.condition.length > 0,
+    hasConditionPages: pages.condition.length > 0,
+  };
+
+  // 見積書パーツ作成（全ページ）
+  for (const [index, page] of pages.estimate.entries()) {
+    const label = pageLabel("見積書", index, pages.estimate.length);
+    const prepared = await preparePage(page, label);
+    parts.imageParts.push(prepared.part);
+    parts.imageLabels.push(label);
+    parts.imageSources.push("estimate");
+    if (prepared.quality) parts.imageQuality.push(prepared.quality);
+    logImageProcessing("estimate", 1, page.buffer.length, prepared.processedSize);
+  }
+  console.log("✅ 見積書パーツ作成成功:", {
+    pages: pages.estimate.length,
+    mimeTypes: parts.imageParts.map((part) => part.inlineData.mimeType),
+  });
+
+  // 図面パーツ作成（オプション）
+  // 条件欄の自動切り出しには最初の画像ページを使う
+  for (const [index, page] of pages.plan.entries()) {
+    const label = pageLabel("募集図面（マイソク）", index, pages.plan.length);
+    try {
+      const prepared = await preparePage(page, label);
+      if (!page.isPdf && !parts.planImage) parts.planImage = prepared;
+      parts.imageParts.push(prepared.part);
+      parts.imageLabels.push(label);
+      parts.imageSources.push("flyer");
+      if (prepared.quality) parts.imageQuality.push(prepared.quality);
+      logImageProcessing("flyer", 1, page.buffer.length, prepared.processedSize);
+      console.log("✅ 図面パーツ作成成功:", {
+        label,
+        mimeType: prepared.part.inlineData.mimeType,
+        dataLength: prepared.part.inlineData.data.length,
+      });
+    } catch (imageError: any) {
+      console.error("⚠️ 図面パーツ作成失敗（スキップ）:", imageError.message);
+    }
+  }
+
+  // 条件欄パーツ作成（オプション）
+  for (const [index, page] of pages.condition.entries()) {
+    const label = pageLabel("募集図面の条件欄（アップ）", index, pages.condition.length);
+    try {
+      const prepared = await preparePage(page, label);
+      parts.imageParts.push(prepared.part);
+      parts.imageLabels.push(label);
+      parts.imageSources.push("flyer");
+      if (prepared.quality) parts.imageQuality.push(prepared.quality);
+      logImageProcessing("flyer", 1, page.buffer.length, prepared.processedSize);
+      console.log("✅ 条件欄パーツ作成成功:", {
+        label,
+        mimeType: prepared.part.inlineData.mimeType,
+        dataLength: prepared.part.inlineData.data.length,
+      });
+    } catch (imageError: any) {
+      console.error("⚠️ 条件欄パーツ作成失敗（スキップ）:", imageError.message);
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * 【第1段階】画像の種類を判定（見積書の1枚目のみ使用）
+ * @throws コンテンツ検証・AI呼び出し・JSON解析の失敗時
+ */
+export async function classifyDocumentImage(model: GenerativeModel, part: GeminiImagePart): Promise<ImageClassification> {
+  const classificationContent = buildGeminiContent([part], CLASSIFICATION_PROMPT);
+  debugGeminiContent(classificationContent);
+
+  // 【ガード】API呼び出し前の最終チェック
+  const classificationValidation = validateContentBeforeApiCall(classificationContent);
+  if (!classificationValidation.valid) {
+    console.error("❌ 分類コンテンツ検証失敗:", classificationValidation.error);
+    throw new Error(`画像データが不正です: ${classificationValidation.error}`);
+  }
+
+  console.log("🔍 画像分類開始... モデル:", model.model);
+  try {
+    const classificationResult = await model.generateContent(classificationContent);
+    const classificationText = classificationResult.response.text();
+    console.log("✅ 分類API応答受信（最初の500文字）:", classificationText.substring(0, 500));
+    const cleanedClassification = classificationText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    const classification = JSON.parse(cleanedClassification) as ImageClassification;
+    console.log("✅ 画像分類成功:", classification);
+    return classification;
+  } catch (classificationError: any) {
+    console.error("❌ ========== 画像分類エラー ==========");
+    console.error("エラータイプ:", classificationError?.constructor?.name || typeof classificationError);
+    console.error("エラーメッセージ:", classificationError?.message || "メッセージなし");
+    console.error("エラースタック:", classificationError?.stack || "スタックなし");
+
+    // ByteStringエラーの場合は詳細な情報を出力
+    if (classificationError?.message?.includes("ByteString")) {
+      console.error("⚠️ ByteStringエラーが発生しました - 画像データに無効な文字が含まれています");
+      debugGeminiContent(classificationContent);
+    }
+
+    // APIキー関連のエラーをチェック
+    if (classificationError?.message?.includes("API_KEY") ||
+        classificationError?.message?.includes("api key") ||
+        classificationError?.message?.includes("API key") ||
+        classificationError?.message?.includes("401") ||
+        classificationError?.message?.includes("403")) {
+      console.error("⚠️ APIキー関連のエラーの可能性が高いです");
+      console.error("GEMINI_API_KEY の設定を確認してください");
+    }
+
+    console.error("=====================================");
+    throw new Error(`画像分類に失敗しました: ${classificationError.message}`);
+  }
+}
+
+/**
+ * 【通常モード】第2〜4段階: 抽出 → 検証 → 診断
+ * @throws コンテンツ検証・AI呼び出し・抽出JSONの解析の失敗時（条件欄の切り出し・検証の失敗は続行）
+ */
+export async function diagnoseDocumentParts(model: GenerativeModel, parts: DocumentParts): Promise<DiagnosisResult> {
+  console.log("通常診断モード開始...");
+  const { imageParts, imageLabels, imageSources, imageQuality, planImage, hasFlyer } = parts;
+
+  // 条件欄の自動切り出し（図面全体のみアップロードされた場合）
+  // 細かい文字が潰れないよう、条件欄を高解像度で切り出して追加の画像として渡す
+  if (planImage && !parts.hasConditionPages) {
+    try {
+      const locateContent = buildGeminiContent([planImage.part], buildConditionLocatePrompt());
+      const locateValidation = validateContentBeforeApiCall(locateContent);
+      if (!locateValidation.valid) {
+        throw new Error(locateValidation.error);
+      }
+      const locateResult = await model.generateContent(locateContent);
+      const region = parseConditionRegion(locateResult.response.text());
+      if (region) {
+        const cropped = await cropNormalizedRegion(planImage.original, region);
+        imageParts.push(createImagePartFromBuffer(cropped));
+        imageLabels.push("募集図面の条件欄（自動切り出し）");
+        imageSources.push("flyer");
+        console.log("✂️ 条件欄を自動切り出ししました:", region);
+      } else {
+        console.log("✂️ 条件欄が見つからなかったため切り出しをスキップ");
+      }
+    } catch (cropError: any) {
+      // 切り出しは補助的な処理なので、失敗しても図面全体の画像で続行
+      console.error("⚠️ 条件欄の自動切り出し失敗（スキップ）:", cropError?.message);
+    }
+  }
+
+  // 第2段階: 抽出（画像 → ExtractedFacts）
+  let extraction = await extractDocumentFacts(model, imageParts, imageLabels, hasFlyer);
+
+  // 第3段階: 検証（矛盾・低信頼度フィールドの再読み取り）
+  const verificationTargets = selectVerificationTargets(detectConflicts(extraction));
+  let verificationResults: VerificationResult[] = [];
+  if (verificationTargets.length > 0) {
+    const imageIndexes = selectVerificationImageIndexes(verificationTargets, imageSources);
+    console.log("🔎 検証フェーズ: 再読み取り対象", {
+      fields: verificationTargets.map((target) => `${target.source}.${target.field_name}`),
+      images: imageIndexes,
+    });
+    try {
+      const verificationContent = buildGeminiContent(
+        imageIndexes.map((index) => imageParts[index]),
+        buildVerificationPrompt(verificationTargets, imageIndexes.map((index) => imageLabels[index]))
+      );
+      const contentValidation = validateContentBeforeApiCall(verificationContent);
+      if (!contentValidation.valid) {
+        throw new Error(contentValidation.error);
+      }
+      const verificationResponse = await model.generateContent(verificationContent);
+      verificationResults = parseVerificationResponse(
+        verificationResponse.response.text(),
+        verificationTargets,
+        imageIndexes
+      );
+      extraction = applyVerificationResults(extraction, verificationResults);
+      console.log("✅ 検証完了:", verificationResults.map((r) => `${r.source}.${r.field_name}: ${r.verification_status}`));
+    } catch (verificationError: any) {
+      // 再読み取りは補助的な処理なので、失敗しても「未確認」として診断を続行
+      console.error("⚠️ 検証フェーズ失敗（未確認として続行）:", verificationError?.message);
+      verificationResults = buildUnconfirmedResults(verificationTargets, "再読み取りに失敗しました");
+    }
+  }
+
+  // 第4段階: 診断（ExtractedFacts → DiagnosisResult）
+  const diagnosis = diagnose(extraction, { verification: verificationResults, imageQuality });
+
+  console.log("診断完了:", {
+    items_count: diagnosis.items.length,
+    total_original: diagnosis.total_original,
+    discount_amount: diagnosis.discount_amount,
+    headline: diagnosis.headline,
+    conflicts: diagnosis.extraction_log?.conflicts_detected,
+    extraction_quality: diagnosis.extraction_quality,
+    logic_path: diagnosis.debug?.logic_path,
+  });
+
+  return diagnosis;
+}
+
+/**
+ * 見積書のみを抽出（再見積書用、lib/case-revision.ts）
+ * 初回診断と同じ前処理・抽出プロンプトで読み取る。分類・図面・検証フェーズは行わない。
+ * @throws コンテンツ検証・AI呼び出し・JSON解析の失敗時
+ */
+export async function extractEstimatePages(model: GenerativeModel, pages: DocumentPage[]): Promise<ExtractionResult> {
+  const { imageParts, imageLabels } = await buildDocumentParts({ estimate: pages, plan: [], condition: [] });
+  return await extractDocumentFacts(model, imageParts, imageLabels, false);
+}
+
+/**
+ * 【第2段階】抽出（画像 → ExtractedFacts）
+ * @throws コンテンツ検証・AI呼び出し・JSON解析の失敗時
+ */
+async function extractDocumentFacts(
+  model: GenerativeModel,
+  imageParts: GeminiImagePart[],
+  imageLabels: string[],
+  hasFlyer: boolean
+): Promise<ExtractionResult> {
+  // 抽出用のコンテンツを構築
+  const extractionContent = buildGeminiContent(imageParts, buildExtractionPrompt(hasFlyer, imageLabels));
+  console.log("✅ 抽出用コンテンツ構築成功");
+  debugGeminiContent(extractionContent);
+
+  // 【ガード】API呼び出し前の最終チェック
+  const extractionValidation = validateContentBeforeApiCall(extractionContent);
+  if (!extractionValidation.valid) {
+    console.error("❌ 抽出コンテンツ検証失敗:", extractionValidation.error);
+    throw new Error(`画像データが不正です: ${extractionValidation.error}`);
+  }
+
+  console.log("🤖 抽出フェーズ: AIリクエスト送信...");
+  let responseText;
+  try {
+    // 【重要】generateContentにはパーツ配列を直接渡す（SDKの正しい使い方）
+    console.log("📤 generateContent呼び出し前の最終確認（抽出）:");
+    console.log(`  - パーツ数: ${extractionContent.length}`);
+    extractionContent.forEach((part, idx) => {
+      console.log(`  - パーツ[${idx}]: ${"inlineData" in part ? "画像" : "text" in part ? "テキスト" : "不明"}, 型: ${typeof part}`);
+    });
+
+    const result = await model.generateContent(extractionContent);
+    responseText = result.response.text();
+    console.log("✅ AI応答を受信しました（長さ:", responseText.length, "文字）");
+  } catch (generateError: any) {
+    console.error("❌ ========== AI抽出エラー ==========");
+    console.error("エラータイプ:", generateError?.constructor?.name || typeof generateError);
+    console.error("エラーメッセージ:", generateError?.message || "メッセージなし");
+    console.error("エラースタック:", generateError?.stack || "スタックなし");
+
+    // ByteStringエラーの場合は詳細な情報を出力
+    if (generateError?.message?.includes("ByteString")) {
+      console.error("⚠️ ByteStringエラーが発生しました - 画像データに無効な文字が含まれています");
+      debugGeminiContent(extractionContent);
+    }
+
+    console.error("=====================================");
+    throw generateError;
+  }
+
+  // JSONパース + 正規化
+  try {
+    const extraction = parseExtractionResponse(responseText, hasFlyer);
+    console.log("✅ 抽出JSONパース成功:", {
+      estimate_lines: extraction.estimate.line_items.length,
+      flyer_lines: extraction.flyer?.line_items.length ?? null,
+    });
+    return extraction;
+  } catch (parseError: any) {
+    console.error("❌ ========== JSON Parse Error ==========");
+    console.error("エラーメッセージ:", parseError.message);
+    console.error("レスポンス全文の長さ:", responseText.length);
+    console.error("レスポンス全文（最初の2000文字）:", responseText.substring(0, 2000));
+    console.error("=========================================");
+    throw new Error(`AIの応答の解析に失敗しました: ${parseError.message}\n応答の最初の500文字: ${responseText.substring(0, 500)}`);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * アップロードファイルのページ分解
+ *
+ * 見積書・募集図面は画像だけでなくPDF（複数ページ含む）で届くことがあるため、
+ * アップロードされたファイルを「1ページ = 1パーツ」の単位に分解する。
+ * PDFは pdf-lib で1ページずつのPDFに分割し、そのまま Gemini に渡す
+ * （GeminiはPDFを直接読めるため、ラスタライズは行わない）。
+ */
+
+import { PDFDocument } from "pdf-lib";
+import type { ImageBuffer } from "@/lib/image-preprocessing";
+
+/** 1回の診断で扱う最大ページ数（見積書・図面・条件欄の合計） */
+export const MAX_DOCUMENT_PAGES = 10;
+
+/** 1ファイルの最大サイズ */
+export const MAX_UPLOAD_FILE_SIZE = 20 * 1024 * 1024;
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+/** 分解後の1ページ */
+export interface DocumentPage extends ImageBuffer {
+  /** PDFから切り出したページか（画像の前処理・品質チェックの対象外） */
+  isPdf: boolean;
+  /** 元ファイル内のページ番号（1始まり。画像は常に1） */
+  pageNumber: number;
+  fileName: string;
+}
+
+export function isPdfFile(file: File): boolean {
+  return file.type === PDF_MIME_TYPE || file.name.toLowerCase().endsWith(".pdf");
+}
+
+/**
+ * アップロードファイルの検証（問題があればエラーメッセージを返す）
+ * @param label エラーメッセージに使う書類名（例: "見積書"）
+ */
+export function validateUploadFile(file: File, label: string): string | null {
+  if (file.size > MAX_UPLOAD_FILE_SIZE) {
+    return `${label}のファイルサイズが大きすぎます（20MB以下にしてください）`;
+  }
+  if (!file.type.startsWith("image/") && !isPdfFile(file)) {
+    return `${label}は画像またはPDFファイルである必要があります`;
+  }
+  return null;
+}
+
+/**
+ * FormData から同名フィールドのファイルをすべて取り出す（複数枚アップロード対応）
+ */
+export function getUploadFiles(formData: FormData, field: string): File[] {
+  return formData
+    .getAll(field)
+    .filter((value): value is File => typeof value === "object" && value !== null && "arrayBuffer" in value && value.size > 0);
+}
+
+/**
+ * ファイルをページ単位に分解
+ */
+export async function fileToPages(file: File): Promise<DocumentPage[]> {
+  const buffer = Buffer.from(await file.arrayBuffer());
+  if (!isPdfFile(file)) {
+    return [imagePage(file, buffer)];
+  }
+  return pdfPages(file, buffer, await loadPdf(buffer));
+}
+
+/**
+ * 複数ファイルをページ単位に分解（ファイル順 → ページ順）
+ * 合計ページ数が maxPages を超える場合は、PDFを分割する前に null を返す
+ */
+export async function filesToPages(
+  files: File[],
+  maxPages: number = MAX_DOCUMENT_PAGES
+): Promise<DocumentPage[] | null> {
+  const pages: DocumentPage[] = [];
+  for (const file of files) {
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (!isPdfFile(file)) {
+      if (pages.length + 1 > maxPages) return null;
+      pages.push(imagePage(file, buffer));
+      continue;
+    }
+
+    const source = await loadPdf(buffer);
+    if (pages.length + source.getPageCount() > maxPages) return null;
+    pages.push(...(await pdfPages(file, buffer, source)));
+  }
+  return pages;
+}
+
+/**
+ * PDFを1ページずつのPDFに分割
+ */
+export async function splitPdfPages(buffer: Buffer): Promise<Buffer[]> {
+  return splitLoadedPdf(buffer, await loadPdf(buffer));
+}
+
+function imagePage(file: File, buffer: Buffer): DocumentPage {
+  return { buffer, mimeType: file.type || "image/jpeg", isPdf: false, pageNumber: 1, fileName: file.name };
+}
+
+async function pdfPages(file: File, buffer: Buffer, source: PDFDocument): Promise<DocumentPage[]> {
+  const pages = await splitLoadedPdf(buffer, source);
+  return pages.map((pageBuffer, index) => ({
+    buffer: pageBuffer,
+    mimeType: PDF_MIME_TYPE,
+    isPdf: true,
+    pageNumber: index + 1,
+    fileName: file.name,
+  }));
+}
+
+async function loadPdf(buffer: Buffer): Promise<PDFDocument> {
+  const source = await PDFDocument.load(buffer, { ignoreEncryption: true });
+  if (source.getPageCount() === 0) {
+    throw new Error("PDFにページがありません");
+  }
+  return source;
+}
+
+async function splitLoadedPdf(buffer: Buffer, source: PDFDocument): Promise<Buffer[]> {
+  const pageCount = source.getPageCount();
+  if (pageCount === 1) {
+    return [buffer];
+  }
+
+  const pages: Buffer[] = [];
+  for (let i = 0; i < pageCount; i++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [i]);
+    single.addPage(page);
+    pages.push(Buffer.from(await single.save()));
+  }
+  return pages;
+}
+
+/**
+ * ページの表示用ラベル（例: "見積書（2ページ目）"）
+ * @param total 同じ書類のページ総数（1ならページ番号を付けない）
+ */
+export function pageLabel(label: string, index: number, total: number): string {
+  return total > 1 ? `${label}（${index + 1}ページ目）` : label;
+}
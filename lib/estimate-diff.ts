@@ -0,0 +1,176 @@
+/**
+ * 見積書の差分（元の見積書 → 再見積書）
+ *
+ * 同じ案件の見積書が更新されたときに、項目ごとに
+ * 削除・減額・増額・変更なし・新規追加を判定する。
+ * 不動産会社が一方の費用を外す代わりに別の費用を追加してくることがあるため、
+ * 新規追加の項目は合計とは別に集計する。
+ *
+ * 項目の対応付けは「項目名（表記ゆれを正規化）」→「判定ルールID」の順に行う。
+ * ルールIDでの対応付けは1種類の費用を指すルールに限る（オプション類は別の費用に差し替えられることがあるため）。
+ */
+
+import type { DiagnosisItem, DiagnosisStatus } from "@/lib/types";
+import { formatYen } from "@/lib/number-utils";
+
+export type EstimateDiffStatus = "removed" | "reduced" | "increased" | "unchanged" | "added";
+
+/** 差分の1行 */
+export interface EstimateDiffRow {
+  status: EstimateDiffStatus;
+  /** 元の見積書の items のインデックス（新規追加は null） */
+  original_index: number | null;
+  /** 表示名（再見積書に残っていればその名称） */
+  name: string;
+  rule_id: string | null;
+  price_original: number | null;
+  price_revised: number | null;
+  /** 再見積書 − 元の見積書（どちらかが不明なら null） */
+  difference: number | null;
+  /** 元の見積書での判定（新規追加は null） */
+  original_status: DiagnosisStatus | null;
+  /** 再見積書での判定（削除は null） */
+  revised_status: DiagnosisStatus | null;
+}
+
+export interface EstimateDiff {
+  rows: EstimateDiffRow[];
+  total_original: number;
+  total_revised: number;
+  /** 再見積書 − 元の見積書 */
+  total_difference: number;
+  removed_total: number;
+  reduced_total: number;
+  /** 新規追加された費用の合計 */
+  added_total: number;
+}
+
+const DIFF_ORDER: EstimateDiffStatus[] = ["added", "increased", "removed", "reduced", "unchanged"];
+
+/** 名前が変わっても同じ費用とみなせる判定ルール */
+const SAME_FEE_RULE_IDS = new Set(["brokerage", "fire_insurance", "key_exchange", "key_money"]);
+
+/**
+ * 元の見積書と再見積書の診断項目を比較
+ */
+export function diffEstimates(original: DiagnosisItem[], revised: DiagnosisItem[]): EstimateDiff {
+  const unmatched = new Set(revised.map((_, index) => index));
+  const pairs: { index: number; original: DiagnosisItem; revised: DiagnosisItem | null }[] = [];
+
+  // 1. 項目名で対応付け
+  original.forEach((item, originalIndex) => {
+    const key = normalizeItemName(item.name);
+    const index = [...unmatched].find((i) => normalizeItemName(revised[i].name) === key);
+    if (index !== undefined) unmatched.delete(index);
+    pairs.push({ index: originalIndex, original: item, revised: index !== undefined ? revised[index] : null });
+  });
+
+  // 2. 名前が変わっていても同じ判定ルールの費用なら同じ項目とみなす（例: 「仲介料」→「仲介手数料」）
+  for (const pair of pairs) {
+    if (pair.revised || !pair.original.rule_id || !SAME_FEE_RULE_IDS.has(pair.original.rule_id)) continue;
+    const index = [...unmatched].find((i) => revised[i].rule_id === pair.original.rule_id);
+    if (index === undefined) continue;
+    unmatched.delete(index);
+    pair.revised = revised[index];
+  }
+
+  const rows: EstimateDiffRow[] = pairs.map((pair) => buildRow(pair.original, pair.revised, pair.index));
+  for (const index of unmatched) {
+    rows.push(buildRow(null, revised[index], null));
+  }
+  rows.sort((a, b) => DIFF_ORDER.indexOf(a.status) - DIFF_ORDER.indexOf(b.status));
+
+  const totalOriginal = sumPrices(original);
+  const totalRevised = sumPrices(revised);
+  const sumBy = (status: EstimateDiffStatus, pick: (row: EstimateDiffRow) => number) =>
+    rows.filter((row) => row.status === status).reduce((sum, row) => sum + pick(row), 0);
+
+  return {
+    rows,
+    total_original: totalOriginal,
+    total_revised: totalRevised,
+    total_difference: totalRevised - totalOriginal,
+    removed_total: sumBy("removed", (row) => row.price_original ?? 0),
+    reduced_total: sumBy("reduced", (row) => -(row.difference ?? 0)),
+    added_total: sumBy("added", (row) => row.price_revised ?? 0),
+  };
+}
+
+/**
+ * LINE返信用の差分テキスト
+ */
+export function formatEstimateDiffText(diff: EstimateDiff): string {
+  const yen = (value: number | null) => (value !== null ? `¥${formatYen(value)}` : "金額不明");
+  const sign = (value: number) => `${value > 0 ? "+" : value < 0 ? "-" : "±"}¥${formatYen(Math.abs(value))}`;
+
+  let message = "📄 見積書の変更点\n\n";
+  message += `合計: ${yen(diff.total_original)} → ${yen(diff.total_revised)}（${sign(diff.total_difference)}）\n`;
+
+  const sections: { status: EstimateDiffStatus; title: string; line: (row: EstimateDiffRow) => string }[] = [
+    { status: "added", title: "🆕 新しく追加された費用", line: (row) => `${row.name}: ${yen(row.price_revised)}` },
+    { status: "increased", title: "⬆️ 増額", line: (row) => `${row.name}: ${yen(row.price_original)} → ${yen(row.price_revised)}` },
+    { status: "removed", title: "✅ 削除", line: (row) => `${row.name}: ${yen(row.price_original)}` },
+    { status: "reduced", title: "⬇️ 減額", line: (row) => `${row.name}: ${yen(row.price_original)} → ${yen(row.price_revised)}` },
+  ];
+  for (const section of sections) {
+    const rows = diff.rows.filter((row) => row.status === section.status);
+    if (rows.length === 0) continue;
+    message += `\n【${section.title}】\n${rows.map((row) => `・${section.line(row)}`).join("\n")}\n`;
+  }
+
+  const unchanged = diff.rows.filter((row) => row.status === "unchanged").length;
+  if (unchanged > 0) {
+    message += `\n変更なし: ${unchanged}項目`;
+  }
+  if (diff.added_total > 0) {
+    message += `\n\n⚠️ 新しい費用が追加されています。必要な費用か確認しましょう。`;
+  }
+  return message;
+}
+
+/**
+ * 項目名の表記ゆれを正規化（空白・括弧書き・「料」「代」「費」の違いを無視）
+ */
+export function normalizeItemName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .replace(/[（(][^）)]*[）)]/g, "")
+    .replace(/\s+/g, "")
+    .replace(/(料金|料|代|費用|費)$/, "")
+    .toLowerCase();
+}
+
+function buildRow(before: DiagnosisItem | null, after: DiagnosisItem | null, originalIndex: number | null): EstimateDiffRow {
+  const priceOriginal = before?.price_original ?? null;
+  const priceRevised = after?.price_original ?? null;
+  const difference = priceOriginal !== null && priceRevised !== null ? priceRevised - priceOriginal : null;
+
+  let status: EstimateDiffStatus;
+  if (!before) {
+    status = "added";
+  } else if (!after || priceRevised === 0) {
+    status = "removed";
+  } else if (difference !== null && difference < 0) {
+    status = "reduced";
+  } else if (difference !== null && difference > 0) {
+    status = "increased";
+  } else {
+    status = "unchanged";
+  }
+
+  return {
+    status,
+    original_index: originalIndex,
+    name: (after ?? before)!.name,
+    rule_id: (before ?? after)?.rule_id ?? null,
+    price_original: priceOriginal,
+    price_revised: priceRevised,
+    difference: status === "removed" && priceOriginal !== null ? -priceOriginal : difference,
+    original_status: before?.status ?? null,
+    revised_status: after?.status ?? null,
+  };
+}
+
+function sumPrices(items: DiagnosisItem[]): number {
+  return items.reduce((sum, item) => sum + Math.max(0, item.price_original ?? 0), 0);
+}
@@ -0,0 +1,81 @@
+/**
+ * 抽出品質の判定
+ *
+ * 明細ごとの信頼度・金額の読み取り漏れ・画像品質チェックの結果から
+ * extraction_quality を決め、ユーザー向けの再撮影アドバイスを組み立てる。
+ */
+
+import type { DiagnosisItem, DiagnosisResult } from "@/lib/types";
+import type { ImageQualityReport } from "@/lib/image-preprocessing";
+
+type ExtractionQuality = DiagnosisResult["extraction_quality"];
+
+/** 平均信頼度がこれ以上なら high */
+const HIGH_CONFIDENCE = 0.8;
+/** 平均信頼度がこれ未満なら low */
+const LOW_CONFIDENCE = 0.6;
+/** 金額が読めなかった明細の割合がこれ以上なら low */
+const LOW_NULL_RATIO = 0.3;
+
+const QUALITY_RANK: Record<ExtractionQuality, number> = { high: 2, medium: 1, low: 0 };
+
+/** 画像品質チェックの結果（どの画像か付き） */
+export interface LabeledImageQuality extends ImageQualityReport {
+  /** 画像の説明（例: "見積書"） */
+  label: string;
+}
+
+export interface ExtractionQualityAssessment {
+  quality: ExtractionQuality;
+  /** 再撮影のための具体的なアドバイス（high の場合は空） */
+  advice: string[];
+}
+
+/**
+ * 抽出品質を判定
+ */
+export function assessExtractionQuality(
+  items: DiagnosisItem[],
+  imageQuality: LabeledImageQuality[] = []
+): ExtractionQualityAssessment {
+  if (items.length === 0) {
+    return {
+      quality: "low",
+      advice: ["見積書の明細を読み取れませんでした。見積書全体が写るように、真上から明るい場所で撮影し直してください。"],
+    };
+  }
+
+  const averageConfidence = items.reduce((sum, item) => sum + item.confidence, 0) / items.length;
+  const nullItems = items.filter((item) => item.price_original === null);
+  const nullRatio = nullItems.length / items.length;
+  const lowConfidenceItems = items.filter((item) => item.price_original !== null && item.confidence < LOW_CONFIDENCE);
+
+  let quality: ExtractionQuality = "high";
+  if (averageConfidence < LOW_CONFIDENCE || nullRatio >= LOW_NULL_RATIO) {
+    quality = "low";
+  } else if (averageConfidence < HIGH_CONFIDENCE || nullItems.length > 0 || lowConfidenceItems.length > 0) {
+    quality = "medium";
+  }
+  for (const image of imageQuality) {
+    if (QUALITY_RANK[image.quality] < QUALITY_RANK[quality]) quality = image.quality;
+  }
+
+  const advice: string[] = [];
+  if (nullItems.length > 0) {
+    advice.push(
+      `「${nullItems.map((item) => item.name).join("」「")}」の金額が読み取れませんでした。該当する行が画面いっぱいに写るように近づいて撮影してください。`
+    );
+  }
+  if (lowConfidenceItems.length > 0) {
+    advice.push(
+      `「${lowConfidenceItems.map((item) => item.name).join("」「")}」の文字がかすれているか、ピントが合っていない可能性があります。明るい場所で、影が入らないよう真上から撮影してください。`
+    );
+  }
+  for (const image of imageQuality) {
+    for (const recommendation of image.recommendations) {
+      advice.push(`${image.label}: ${recommendation}`);
+    }
+  }
+
+  return { quality, advice: quality === "high" ? [] : advice };
+}
@@ -0,0 +1,180 @@
+/**
+ * 抽出フェーズ
+ *
+ * 画像から ExtractedFacts を埋めることだけを担当し、判定は一切行わない。
+ * 判定（fair / negotiable / cut / warning）は lib/diagnosis.ts が
+ * この抽出JSONだけを入力として行う。
+ */
+
+import {
+  EXTRACTION_JSON_SCHEMA,
+  createEmptyExtractedFacts,
+  type ExtractedFacts,
+  type ExtractedField,
+  type ExtractedOtherItem,
+  type ExtractionResult,
+  type ExtractionSource,
+} from "@/lib/types";
+import { toNumberOrNull } from "@/lib/number-utils";
+
+/** 数値として扱うフィールド */
+const NUMBER_FIELD_KEYS = [
+  "rent",
+  "management_fee",
+  "deposit_months",
+  "key_money_months",
+  "brokerage_fee",
+  "brokerage_fee_months",
+  "administrative_fee",
+  "guarantee_fee",
+  "fire_insurance",
+  "support_service",
+  "key_exchange",
+  "cleaning_fee",
+  "renewal_fee",
+  "free_rent_months",
+] as const;
+
+/** 文字列として扱うフィールド */
+const STRING_FIELD_KEYS = [
+  "property_name",
+  "room_number",
+  "contract_start_date",
+  "move_in_date",
+] as const;
+
+export type NumberFieldKey = (typeof NUMBER_FIELD_KEYS)[number];
+export type StringFieldKey = (typeof STRING_FIELD_KEYS)[number];
+
+/**
+ * 抽出用プロンプトを生成
+ * 画像の順序: 見積書 → 図面 → 条件欄（PDFは1ページ = 1枚として数える）
+ * @param imageLabels 送信する画像・ページの説明（送信順）。省略時は既定の説明を使う
+ */
+export function buildExtractionPrompt(hasFlyer: boolean, imageLabels?: string[]): string {
+  const imageDescription = imageLabels?.length
+    ? imageLabels.map((label, idx) => `- ${idx + 1}枚目: ${label}`).join("\n") +
+      (hasFlyer ? "" : "\n- 図面はアップロードされていません")
+    : `- 1枚目: 見積書（必須）
+${hasFlyer ? "- 2枚目以降: 募集図面（マイソク）または条件欄のアップ画像" : "- 図面はアップロードされていません"}`;
+
+  return `
+あなたは賃貸の見積書・募集図面（マイソク）を読み取るOCRオペレーターです。
+画像に書かれている事実だけを転記してください。妥当性の判断・削減提案は一切しないでください。
+
+## 【画像の説明】
+${imageDescription}
+
+## 【転記ルール】
+1. すべての値に evidence_text（画像上の文字列そのまま。例: "礼1", "仲介手数料 110,000円"）を付けること
+2. 画像から読み取れない値は value を null にすること（0で埋めない。「なし」「0円」と明記されている場合のみ0）
+3. 金額は円の数値（カンマなし）、月数は数値（例: 敷1 → 1, 礼0.5 → 0.5）で出力すること
+4. confidence は読み取りの確からしさ（0〜1）。かすれ・手書き・見切れがある場合は0.6未満にすること
+5. page_or_image_index はその値を読み取った画像の番号（1枚目=0）。PDFの場合もページごとに1枚として数える
+6. 見積書の line_items には、請求されている明細行を**記載順にすべて**入れること。見積書が複数ページにわたる場合は全ページ分をまとめ、ページをまたいだ同じ行を重複させないこと（敷金・礼金・前家賃・日割り家賃・仲介手数料・保証会社・火災保険・鍵交換・各種サポート・消毒など）。name は見積書の表記のまま
+7. 図面の line_items には、条件欄・備考欄に記載された費用をすべて入れること。「必須」と明記されていれば requirement: "required"、「任意」「オプション」なら "optional"、不明なら null
+8. brokerage_fee_months は「仲介手数料 1ヶ月」のように月数で書かれている場合のみ入れること
+
+## 【出力形式】
+Markdown記法は含めず、純粋なJSONだけを返してください。
+{
+  "estimate": 見積書の抽出結果,
+  "flyer": ${hasFlyer ? "図面・条件欄の抽出結果" : "null"}
+}
+
+各抽出結果は次のJSON Schemaに従ってください:
+${JSON.stringify(EXTRACTION_JSON_SCHEMA)}
+`;
+}
+
+/**
+ * AI応答テキストをパースして ExtractionResult に正規化
+ */
+export function parseExtractionResponse(responseText: string, hasFlyer: boolean): ExtractionResult {
+  const cleanedText = responseText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const raw = JSON.parse(cleanedText);
+  return normalizeExtractionResult(raw, hasFlyer);
+}
+
+/**
+ * 抽出JSON（外部入力を含む）を ExtractionResult に正規化
+ * 再診断APIなど、保存済みの抽出JSONを受け取る場合にも使用する
+ */
+export function normalizeExtractionResult(raw: any, hasFlyer: boolean): ExtractionResult {
+  const estimate = normalizeExtractedFacts(raw?.estimate, "estimate");
+  const flyer = hasFlyer && raw?.flyer ? normalizeExtractedFacts(raw.flyer, "flyer") : null;
+  return { estimate, flyer };
+}
+
+/**
+ * 1ソース分の抽出結果を正規化
+ * evidence_text がない値は null に落とす（設計原則3）
+ */
+export function normalizeExtractedFacts(raw: any, source: ExtractionSource): ExtractedFacts {
+  const facts = createEmptyExtractedFacts(source);
+  if (!raw || typeof raw !== "object") return facts;
+
+  for (const key of NUMBER_FIELD_KEYS) {
+    facts[key] = normalizeField(raw[key], source, toNumberOrNull);
+  }
+  for (const key of STRING_FIELD_KEYS) {
+    facts[key] = normalizeField(raw[key], source, (v) =>
+      typeof v === "string" && v.trim() ? v.trim() : null
+    );
+  }
+  facts.brokerage_fee_tax_included = normalizeField(raw.brokerage_fee_tax_included, source, (v) =>
+    typeof v === "boolean" ? v : null
+  );
+
+  facts.other_items = normalizeItems(raw.other_items, source);
+  facts.line_items = normalizeItems(raw.line_items, source);
+  facts.total_items_found = facts.line_items.length + facts.other_items.length;
+
+  return facts;
+}
+
+function normalizeItems(raw: unknown, source: ExtractionSource): ExtractedOtherItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item) => item && typeof item.name === "string" && item.name.trim())
+    .map((item) => {
+      const requirement: ExtractedOtherItem["requirement"] =
+        item.requirement === "required" || item.requirement === "optional" ? item.requirement : null;
+      return {
+        name: String(item.name).trim(),
+        value: normalizeField(item.value, source, toNumberOrNull),
+        requirement,
+      };
+    });
+}
+
+function normalizeField<T>(
+  raw: any,
+  source: ExtractionSource,
+  coerce: (value: unknown) => T | null
+): ExtractedField<T> {
+  const evidence =
+    typeof raw?.evidence_text === "string" && raw.evidence_text.trim() ? raw.evidence_text.trim() : null;
+  const value = evidence !== null ? coerce(raw?.value) : null;
+  const confidence = toNumberOrNull(raw?.confidence);
+  const index = toNumberOrNull(raw?.page_or_image_index);
+
+  const field: ExtractedField<T> = {
+    value: value as T,
+    evidence_text: evidence,
+    confidence: value === null ? 0 : Math.max(0, Math.min(1, confidence ?? 0.5)),
+    source,
+    page_or_image_index: index !== null && index >= 0 ? Math.floor(index) : 0,
+  };
+  if (typeof raw?.extraction_note === "string" && raw.extraction_note.trim()) {
+    field.extraction_note = raw.extraction_note.trim();
+  }
+  return field;
+}
+
+/**
+ * 値が取れなかったフィールド名を列挙（ExtractionLog.final_null_fields 用）
+ */
+export function listNullFields(facts: ExtractedFacts): string[] {
+  return [...NUMBER_FIELD_KEYS, ...STRING_FIELD_KEYS].filter((key) => facts[key].value === null);
+}
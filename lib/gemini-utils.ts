@@ -37,6 +37,18 @@ export async function createImagePart(file: File): Promise<GeminiImagePart> {
   };
 }
 
+/**
+ * 前処理済みの画像バッファから Gemini 用の画像パーツを返す
+ */
+export function createImagePartFromBuffer(image: { buffer: Buffer; mimeType: string }): GeminiImagePart {
+  return {
+    inlineData: {
+      mimeType: image.mimeType || "image/jpeg",
+      data: image.buffer.toString("base64"),
+    },
+  };
+}
+
 /**
  * テキストパーツを生成
  */
@@ -3,10 +3,13 @@
  * 
  * 設計原則:
  * 1. 書面画像の読み取り精度を向上
- * 2. コントラスト/シャープ化（サーバーサイドで可能な範囲）
+ * 2. コントラスト/シャープ化（sharp によるサーバーサイド処理）
  * 3. 将来的な条件欄トリミング対応の基盤
  */
 
+import sharp from "sharp";
+import { isPdfFile } from "@/lib/document-pages";
+
 /**
  * 画像バッファの情報
  */
@@ -16,7 +19,7 @@ export interface ImageBuffer {
 }
 
 /**
- * 画像の基本検証
+ * 画像の基本検証（PDFはページ分割してそのまま送るため許可する）
  */
 export function validateImage(file: File): { valid: boolean; error?: string } {
   // ファイルサイズ検証（20MB制限）
@@ -25,8 +28,11 @@ export function validateImage(file: File): { valid: boolean; error?: string } {
   }
   
   // ファイルタイプ検証
+  if (isPdfFile(file)) {
+    return { valid: true };
+  }
   if (!file.type.startsWith('image/')) {
-    return { valid: false, error: "画像ファイルである必要があります" };
+    return { valid: false, error: "画像またはPDFファイルである必要があります" };
   }
   
   // サポートされるフォーマット
@@ -49,24 +55,153 @@ export async function fileToImageBuffer(file: File): Promise<ImageBuffer> {
   };
 }
 
+/** 前処理後の長辺の最大ピクセル数（Geminiに渡す解像度） */
+const MAX_DIMENSION = 2048;
+/** 傾き推定に使う縮小画像の長辺 */
+const DESKEW_SAMPLE_DIMENSION = 800;
+/** 傾き補正の探索範囲（度） */
+const DESKEW_MAX_ANGLE = 8;
+/** 傾き補正の探索刻み（度） */
+const DESKEW_STEP = 0.5;
+/** これ未満の傾きは補正しない（度） */
+const DESKEW_MIN_ANGLE = 0.5;
+/** 前処理後のJPEG品質 */
+const OUTPUT_JPEG_QUALITY = 90;
+
 /**
- * 画像の前処理（将来的な拡張用）
- * 
- * 注: Node.jsのサーバーサイドでの画像処理は、
- * sharp等のライブラリが必要。現時点では基本的な変換のみ。
- * 
- * 将来的な拡張:
- * - sharpを使った傾き補正(deskew)
- * - コントラスト/シャープ化
- * - 条件欄の自動トリミング
+ * 画像の前処理
+ *
+ * 1. EXIFの向きを反映（スマホ撮影の横向き対策）
+ * 2. 傾き補正（deskew）
+ * 3. コントラストの正規化
+ * 4. シャープ化
+ * 5. 長辺 maxDimension（既定: MAX_DIMENSION）への縮小 + JPEG再エンコード
+ *
+ * 失敗した場合は元の画像をそのまま返す（前処理は読み取り精度向上のための補助）
  */
-export async function preprocessImage(imageBuffer: ImageBuffer): Promise<ImageBuffer> {
-  // 現時点ではそのまま返す
-  // 将来的にsharpを導入して前処理を追加
-  
-  console.log(`[Preprocessing] 画像処理: ${imageBuffer.mimeType}, ${imageBuffer.buffer.length} bytes`);
-  
-  return imageBuffer;
+export async function preprocessImage(
+  imageBuffer: ImageBuffer,
+  options: { maxDimension?: number } = {}
+): Promise<ImageBuffer> {
+  const maxDimension = options.maxDimension ?? MAX_DIMENSION;
+  try {
+    const angle = await estimateSkewAngle(imageBuffer.buffer);
+
+    let pipeline = sharp(imageBuffer.buffer, { failOn: "none" }).autoOrient();
+    if (Math.abs(angle) >= DESKEW_MIN_ANGLE) {
+      pipeline = pipeline.rotate(-angle, { background: "#ffffff" });
+    }
+    const buffer = await pipeline
+      .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+      .normalise()
+      .sharpen({ sigma: 1 })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: OUTPUT_JPEG_QUALITY, mozjpeg: true })
+      .toBuffer();
+
+    console.log(
+      `[Preprocessing] 画像処理: ${imageBuffer.mimeType}, ${imageBuffer.buffer.length} → ${buffer.length} bytes, 傾き補正: ${angle.toFixed(1)}°`
+    );
+    return { buffer, mimeType: "image/jpeg" };
+  } catch (error: any) {
+    console.error("[Preprocessing] 前処理失敗（元画像を使用）:", error?.message);
+    return imageBuffer;
+  }
+}
+
+/**
+ * 文字行の傾きを推定（投影プロファイル法）
+ *
+ * 縮小したグレースケール画像の暗い画素を各角度で行方向に射影し、
+ * ヒストグラムが最も鋭くなる角度を文字行の傾きとみなす。
+ * 戻り値は時計回りを正とした傾き（度）。
+ */
+async function estimateSkewAngle(buffer: Buffer): Promise<number> {
+  const { data, info } = await sharp(buffer, { failOn: "none" })
+    .autoOrient()
+    .greyscale()
+    .resize({ width: DESKEW_SAMPLE_DIMENSION, height: DESKEW_SAMPLE_DIMENSION, fit: "inside", withoutEnlargement: true })
+    .normalise()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      if (data[y * width + x] < 100) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // 暗い画素が少なすぎる（白紙）・多すぎる（写真）場合は補正しない
+  const ratio = xs.length / ((width * height) / 4);
+  if (xs.length < 200 || ratio > 0.4) return 0;
+
+  const offset = width + height;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -DESKEW_MAX_ANGLE; angle <= DESKEW_MAX_ANGLE; angle += DESKEW_STEP) {
+    const rad = (angle * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const histogram = new Float64Array(offset * 2);
+    for (let i = 0; i < xs.length; i++) {
+      histogram[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+    let score = 0;
+    for (let i = 0; i < histogram.length; i++) {
+      score += histogram[i] * histogram[i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+/** 条件欄などを切り出す際の前処理解像度（切り出し後も文字が潰れないよう高めにする） */
+const CROP_SOURCE_DIMENSION = 4096;
+/** 切り出し範囲の余白（画像サイズに対する割合） */
+const CROP_PADDING_RATIO = 0.02;
+
+/**
+ * 正規化座標（0〜1000）で指定された範囲を切り出す
+ *
+ * 範囲は preprocessImage 後の画像（向き・傾き補正済み）に対する座標であること。
+ * 元画像を高解像度で前処理し直してから切り出すため、縮小済みの画像から切るより文字が鮮明になる。
+ */
+export async function cropNormalizedRegion(
+  original: ImageBuffer,
+  box: { ymin: number; xmin: number; ymax: number; xmax: number }
+): Promise<ImageBuffer> {
+  const source = await preprocessImage(original, { maxDimension: CROP_SOURCE_DIMENSION });
+  const { width = 0, height = 0 } = await sharp(source.buffer).metadata();
+  if (!width || !height) {
+    throw new Error("画像サイズを取得できませんでした");
+  }
+
+  const padX = width * CROP_PADDING_RATIO;
+  const padY = height * CROP_PADDING_RATIO;
+  const left = Math.max(0, Math.floor((box.xmin / 1000) * width - padX));
+  const top = Math.max(0, Math.floor((box.ymin / 1000) * height - padY));
+  const right = Math.min(width, Math.ceil((box.xmax / 1000) * width + padX));
+  const bottom = Math.min(height, Math.ceil((box.ymax / 1000) * height + padY));
+  if (right - left < 10 || bottom - top < 10) {
+    throw new Error("切り出し範囲が小さすぎます");
+  }
+
+  const buffer = await sharp(source.buffer)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: OUTPUT_JPEG_QUALITY, mozjpeg: true })
+    .toBuffer();
+
+  console.log(`[Preprocessing] 範囲切り出し: ${right - left}x${bottom - top}px → ${buffer.length} bytes`);
+  return { buffer, mimeType: "image/jpeg" };
 }
 
 /**
@@ -83,46 +218,272 @@ export async function preprocessImages(imageBuffers: ImageBuffer[]): Promise<Ima
   return processed;
 }
 
+/** 品質チェックの問題の種類 */
+export type ImageQualityProblemCode = 'unreadable' | 'low_resolution' | 'blur' | 'glare' | 'dark' | 'skew';
+
 /**
- * 画像の品質チェック（将来的な拡張用）
+ * 品質チェックで見つかった問題
+ * severity: 'error' は読み取り不能レベル（撮り直しを強く推奨）、'warning' は精度が落ちる可能性
  */
-export function checkImageQuality(imageBuffer: ImageBuffer): {
+export interface ImageQualityProblem {
+  code: ImageQualityProblemCode;
+  severity: 'error' | 'warning';
+  /** ユーザー向けの短い説明（例: "右下が白飛び"） */
+  label: string;
+  /** 撮り直しのための具体的なアドバイス */
+  message: string;
+}
+
+/**
+ * 画像の品質チェック結果
+ */
+export interface ImageQualityReport {
   quality: 'high' | 'medium' | 'low';
+  /** ユーザー向けの改善アドバイス */
   recommendations: string[];
-} {
-  const recommendations: string[] = [];
-  let quality: 'high' | 'medium' | 'low' = 'high';
-  
-  // サイズベースの品質チェック
-  const sizeKB = imageBuffer.buffer.length / 1024;
-  
-  if (sizeKB < 50) {
-    quality = 'low';
-    recommendations.push('画像サイズが小さすぎます。高解像度の画像を使用してください。');
-  } else if (sizeKB < 200) {
-    quality = 'medium';
-    recommendations.push('画像の解像度が低い可能性があります。');
+  problems: ImageQualityProblem[];
+  /** 判定に使った計測値（デバッグ用） */
+  metrics?: {
+    width: number;
+    height: number;
+    /** ラプラシアンの分散（小さいほどボケている） */
+    sharpness: number;
+    /** 平均輝度 0〜255 */
+    brightness: number;
+    /** 傾き（度） */
+    skew_angle: number;
+  };
+}
+
+/** 短辺がこれ未満なら読み取り不能 */
+const MIN_SHORT_SIDE_ERROR = 500;
+/** 短辺がこれ未満なら精度低下の可能性 */
+const MIN_SHORT_SIDE_WARNING = 800;
+/** 品質チェック用に縮小する長辺 */
+const QUALITY_SAMPLE_DIMENSION = 1000;
+/** ラプラシアン分散の閾値（ピンボケ判定） */
+const SHARPNESS_ERROR = 40;
+const SHARPNESS_WARNING = 120;
+/** 平均輝度の閾値（暗さ判定） */
+const BRIGHTNESS_ERROR = 60;
+const BRIGHTNESS_WARNING = 90;
+/** 白飛びとみなす輝度 */
+const CLIPPED_LEVEL = 250;
+/** 区画内の白飛び画素の割合がこれ以上なら白飛び */
+const GLARE_CELL_RATIO = 0.4;
+/** 画像全体の白飛び割合がこれ以上ならスキャン・スクショとみなし白飛び判定をしない */
+const SCAN_CLIPPED_RATIO = 0.5;
+/** 白飛びの区画数がこれ以上なら読み取り不能 */
+const GLARE_ERROR_CELLS = 3;
+/** これ以上の傾きは撮り直しを推奨（度） */
+const SKEW_WARNING_ANGLE = 5;
+
+const GRID_NAMES = [
+  ['左上', '上部', '右上'],
+  ['左側', '中央', '右側'],
+  ['左下', '下部', '右下'],
+];
+
+/**
+ * 画像の品質チェック
+ * 解像度・ピンボケ・白飛び・暗さ・傾きを検出し、撮り直しのアドバイスを返す
+ */
+export async function checkImageQuality(imageBuffer: ImageBuffer): Promise<ImageQualityReport> {
+  const problems: ImageQualityProblem[] = [];
+
+  let sample: { data: Buffer; info: sharp.OutputInfo };
+  let width = 0;
+  let height = 0;
+  try {
+    const metadata = await sharp(imageBuffer.buffer, { failOn: 'none' }).metadata();
+    width = metadata.autoOrient?.width ?? metadata.width ?? 0;
+    height = metadata.autoOrient?.height ?? metadata.height ?? 0;
+    sample = await sharp(imageBuffer.buffer, { failOn: 'none' })
+      .autoOrient()
+      .greyscale()
+      .resize({ width: QUALITY_SAMPLE_DIMENSION, height: QUALITY_SAMPLE_DIMENSION, fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  } catch (error: any) {
+    console.error('[Quality] 画像の読み込みに失敗:', error?.message);
+    // HEICなど読み込めない形式は、診断でも読み込めないためエラーとして撮り直しを促す
+    const unreadable: ImageQualityProblem = {
+      code: 'unreadable',
+      severity: 'error',
+      label: '読み込めない画像',
+      message: '画像を読み込めませんでした。JPEGまたはPNG形式の画像（スクリーンショットでも可）を選択してください。',
+    };
+    return {
+      quality: 'low',
+      recommendations: [unreadable.message],
+      problems: [unreadable],
+    };
   }
-  
-  // 将来的に追加:
-  // - ブレ検出
-  // - 傾き検出
-  // - コントラスト不足検出
-  
-  return { quality, recommendations };
+
+  // 解像度
+  const shortSide = Math.min(width, height);
+  if (shortSide < MIN_SHORT_SIDE_ERROR) {
+    problems.push({
+      code: 'low_resolution',
+      severity: 'error',
+      label: '解像度不足',
+      message: `画像が小さすぎます（${width}×${height}px）。書類全体が画面いっぱいに写るように撮影してください。`,
+    });
+  } else if (shortSide < MIN_SHORT_SIDE_WARNING) {
+    problems.push({
+      code: 'low_resolution',
+      severity: 'warning',
+      label: '解像度が低め',
+      message: `解像度が低めです（${width}×${height}px）。細かい文字が読めない場合は近づいて撮影してください。`,
+    });
+  }
+
+  const { data, info } = sample;
+  const stats = measurePixels(data, info.width, info.height);
+
+  // ピンボケ
+  if (stats.sharpness < SHARPNESS_ERROR) {
+    problems.push({
+      code: 'blur',
+      severity: 'error',
+      label: 'ピンボケ',
+      message: 'ピントが合っておらず文字が読み取れません。書類をタップしてピントを合わせてから撮影してください。',
+    });
+  } else if (stats.sharpness < SHARPNESS_WARNING) {
+    problems.push({
+      code: 'blur',
+      severity: 'warning',
+      label: 'ややピンボケ',
+      message: '文字が少しぼやけています。手ブレしないよう両手で持ち、ピントを合わせて撮影してください。',
+    });
+  }
+
+  // 暗さ
+  if (stats.brightness < BRIGHTNESS_ERROR) {
+    problems.push({
+      code: 'dark',
+      severity: 'error',
+      label: '暗すぎる',
+      message: '画像が暗すぎて文字が読み取れません。明るい場所で撮影してください。',
+    });
+  } else if (stats.brightness < BRIGHTNESS_WARNING) {
+    problems.push({
+      code: 'dark',
+      severity: 'warning',
+      label: 'やや暗い',
+      message: '画像がやや暗めです。照明の下や窓際など明るい場所で撮影してください。',
+    });
+  }
+
+  // 白飛び（スキャン・スクリーンショットのように全体が白い画像は対象外）
+  if (stats.clippedRatio < SCAN_CLIPPED_RATIO) {
+    const glareCells = stats.cellClippedRatios.flatMap((row, y) =>
+      row.flatMap((ratio, x) => (ratio >= GLARE_CELL_RATIO ? [GRID_NAMES[y][x]] : []))
+    );
+    if (glareCells.length > 0) {
+      const where = glareCells.join('・');
+      problems.push({
+        code: 'glare',
+        severity: glareCells.length >= GLARE_ERROR_CELLS ? 'error' : 'warning',
+        label: `${where}が白飛び`,
+        message: `${where}が照明の反射で白飛びしています。照明が映り込まない角度から撮影してください。`,
+      });
+    }
+  }
+
+  // 傾き（前処理で補正できる範囲を超えそうな場合のみ）
+  const skewAngle = await estimateSkewAngle(imageBuffer.buffer).catch(() => 0);
+  if (Math.abs(skewAngle) >= SKEW_WARNING_ANGLE) {
+    problems.push({
+      code: 'skew',
+      severity: 'warning',
+      label: '傾き',
+      message: `書類が約${Math.abs(skewAngle).toFixed(0)}度傾いています。書類の真上から、まっすぐ撮影してください。`,
+    });
+  }
+
+  const quality: ImageQualityReport['quality'] = problems.some((p) => p.severity === 'error')
+    ? 'low'
+    : problems.length > 0
+      ? 'medium'
+      : 'high';
+
+  return {
+    quality,
+    recommendations: problems.map((p) => p.message),
+    problems,
+    metrics: {
+      width,
+      height,
+      sharpness: Math.round(stats.sharpness),
+      brightness: Math.round(stats.brightness),
+      skew_angle: skewAngle,
+    },
+  };
+}
+
+/**
+ * グレースケール画素から輝度・シャープネス・白飛び割合を計測
+ */
+function measurePixels(
+  data: Buffer,
+  width: number,
+  height: number
+): { brightness: number; sharpness: number; clippedRatio: number; cellClippedRatios: number[][] } {
+  let sum = 0;
+  let clipped = 0;
+  const cellClipped = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const cellTotal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+
+  for (let y = 0; y < height; y++) {
+    const cy = Math.min(2, Math.floor((y * 3) / height));
+    for (let x = 0; x < width; x++) {
+      const cx = Math.min(2, Math.floor((x * 3) / width));
+      const v = data[y * width + x];
+      sum += v;
+      cellTotal[cy][cx]++;
+      if (v >= CLIPPED_LEVEL) {
+        clipped++;
+        cellClipped[cy][cx]++;
+      }
+    }
+  }
+
+  // ラプラシアン（4近傍）の分散
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let lapCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapCount > 0 ? lapSum / lapCount : 0;
+  const sharpness = lapCount > 0 ? lapSqSum / lapCount - lapMean * lapMean : 0;
+
+  const total = width * height || 1;
+  return {
+    brightness: sum / total,
+    sharpness,
+    clippedRatio: clipped / total,
+    cellClippedRatios: cellClipped.map((row, y) => row.map((count, x) => count / (cellTotal[y][x] || 1))),
+  };
 }
 
 /**
  * ログ出力（個人情報をマスク）
+ * processedSize を渡すと前処理前後のサイズを併記する
  */
 export function logImageProcessing(
   source: 'flyer' | 'estimate',
   imageCount: number,
-  totalSize: number
+  totalSize: number,
+  processedSize?: number
 ): void {
-  console.log(`[ImageProcessing] ${source}: ${imageCount}枚, ${(totalSize / 1024).toFixed(1)}KB`);
+  const after = processedSize !== undefined ? ` → ${(processedSize / 1024).toFixed(1)}KB` : "";
+  console.log(`[ImageProcessing] ${source}: ${imageCount}枚, ${(totalSize / 1024).toFixed(1)}KB${after}`);
 }
-
-
-
-
@@ -1,17 +1,36 @@
 /**
  * Vercel KV操作のヘルパー関数
  *
- * 案件（case）、caseToken、LINEユーザーのデータ管理
+ * 案件（case）、caseToken、LINEユーザー、共有リンク、スタッフ対応のチケットのデータ管理
  */
 
 import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { outcomeStatsDeltas, parseOutcomeStats, type CaseOutcome, type OutcomeStats } from '@/lib/outcomes';
+import type { CaseRevision } from '@/lib/case-revision';
 
 type KvClient = {
   get: <T = unknown>(key: string) => Promise<T | null>;
   set: (key: string, value: unknown) => Promise<unknown>;
   del: (key: string) => Promise<unknown>;
   setex: (key: string, ttlSeconds: number, value: unknown) => Promise<unknown>;
+  /** キーがない場合のみTTLつきで保存（保存したら true） */
+  setnxex: (key: string, ttlSeconds: number, value: unknown) => Promise<boolean>;
   ttl: (key: string) => Promise<number>;
+  /** 数値のカウンターに加算（キーがなければ 0 から。加算後の値を返す） */
+  incrby: (key: string, amount: number) => Promise<number>;
+  /** キーの有効期限を設定 */
+  expire: (key: string, ttlSeconds: number) => Promise<unknown>;
+  /** ハッシュのフィールドに加算（加算後の値を返す） */
+  hincrby: (key: string, field: string, amount: number) => Promise<number>;
+  /** ハッシュの全フィールドを取得（キーがなければ null） */
+  hgetall: (key: string) => Promise<Record<string, number> | null>;
+  /** リストの先頭に追加 */
+  lpush: (key: string, value: string) => Promise<unknown>;
+  /** リストの範囲を取得（stop: -1 で末尾まで） */
+  lrange: (key: string, start: number, stop: number) => Promise<string[]>;
+  /** リストを範囲内の要素だけに切り詰める */
+  ltrim: (key: string, start: number, stop: number) => Promise<unknown>;
 };
 
 type KvProvider = "upstash-rest" | "memory";
@@ -51,19 +70,66 @@ function createMemoryKv(): KvClient {
       store.set(key, { value, expiresAtMs: Date.now() + ttlSeconds * 1000 });
       return "OK";
     },
+    async setnxex(key: string, ttlSeconds: number, value: unknown) {
+      if (getEntry(key)) return false;
+      store.set(key, { value, expiresAtMs: Date.now() + ttlSeconds * 1000 });
+      return true;
+    },
     async ttl(key: string) {
       const entry = getEntry(key);
       if (!entry) return -2; // Redis互換: key not found
       if (entry.expiresAtMs === null) return -1; // no expire
       return Math.max(0, Math.floor((entry.expiresAtMs - Date.now()) / 1000));
     },
+    async incrby(key: string, amount: number) {
+      const entry = getEntry(key);
+      const value = Number(entry?.value ?? 0) + amount;
+      store.set(key, { value, expiresAtMs: entry?.expiresAtMs ?? null });
+      return value;
+    },
+    async expire(key: string, ttlSeconds: number) {
+      const entry = getEntry(key);
+      if (!entry) return 0;
+      entry.expiresAtMs = Date.now() + ttlSeconds * 1000;
+      return 1;
+    },
+    async hincrby(key: string, field: string, amount: number) {
+      const entry = getEntry(key);
+      const hash = { ...((entry?.value as Record<string, number> | undefined) ?? {}) };
+      hash[field] = (hash[field] ?? 0) + amount;
+      store.set(key, { value: hash, expiresAtMs: entry?.expiresAtMs ?? null });
+      return hash[field];
+    },
+    async hgetall(key: string) {
+      const hash = getEntry(key)?.value as Record<string, number> | undefined;
+      return hash ? { ...hash } : null;
+    },
+    async lpush(key: string, value: string) {
+      const list = (getEntry(key)?.value as string[] | undefined) ?? [];
+      store.set(key, { value: [value, ...list], expiresAtMs: null });
+      return list.length + 1;
+    },
+    async lrange(key: string, start: number, stop: number) {
+      const list = (getEntry(key)?.value as string[] | undefined) ?? [];
+      return list.slice(start, stop < 0 ? list.length + stop + 1 : stop + 1);
+    },
+    async ltrim(key: string, start: number, stop: number) {
+      const list = (getEntry(key)?.value as string[] | undefined) ?? [];
+      store.set(key, { value: list.slice(start, stop < 0 ? list.length + stop + 1 : stop + 1), expiresAtMs: null });
+      return "OK";
+    },
   };
 }
 
 let kvClientSingleton: KvClient | null = null;
 let kvProviderSingleton: KvProvider | null = null;
 
+/** runWithMemoryKv の実行中だけ使うKV（外部KVが設定されていても書き込まない） */
+const scopedKv = new AsyncLocalStorage<KvClient>();
+
 async function getKv(): Promise<KvClient> {
+  const scoped = scopedKv.getStore();
+  if (scoped) return scoped;
   if (kvClientSingleton) return kvClientSingleton;
 
   try {
@@ -116,10 +182,45 @@ async function getKv(): Promise<KvClient> {
           await command("SETEX", key, ttlSeconds, payload);
           return "OK";
         },
+        async setnxex(key: string, ttlSeconds: number, value: unknown) {
+          const payload = JSON.stringify(value);
+          const res = await command<string | null>("SET", key, payload, "NX", "EX", ttlSeconds);
+          return res === "OK";
+        },
         async ttl(key: string) {
           const res = await command<number>("TTL", key);
           return typeof res === "number" ? res : -2;
         },
+        async incrby(key: string, amount: number) {
+          return Number(await command<number>("INCRBY", key, amount));
+        },
+        async expire(key: string, ttlSeconds: number) {
+          return await command<number>("EXPIRE", key, ttlSeconds);
+        },
+        async hincrby(key: string, field: string, amount: number) {
+          return Number(await command<number>("HINCRBY", key, field, amount));
+        },
+        async hgetall(key: string) {
+          // REST API はフィールドと値を交互に並べた配列で返す
+          const res = await command<string[]>("HGETALL", key);
+          if (!Array.isArray(res) || res.length === 0) return null;
+          const hash: Record<string, number> = {};
+          for (let i = 0; i < res.length; i += 2) {
+            hash[res[i]] = Number(res[i + 1]);
+          }
+          return hash;
+        },
+        async lpush(key: string, value: string) {
+          return await command<number>("LPUSH", key, value);
+        },
+        async lrange(key: string, start: number, stop: number) {
+          const res = await command<string[]>("LRANGE", key, start, stop);
+          return Array.isArray(res) ? res : [];
+        },
+        async ltrim(key: string, start: number, stop: number) {
+          await command("LTRIM", key, start, stop);
+          return "OK";
+        },
       };
       kvProviderSingleton = "upstash-rest";
       return kvClientSingleton;
@@ -142,6 +243,14 @@ export function getKvProvider(): KvProvider | null {
   return kvProviderSingleton;
 }
 
+/**
+ * 空のメモリKVで処理を実行（LINE会話シナリオの再生用）
+ * 処理中の案件・会話状態の読み書きはすべてこのKVに対して行われ、終了後に破棄される
+ */
+export async function runWithMemoryKv<T>(fn: () => Promise<T>): Promise<T> {
+  return await scopedKv.run(createMemoryKv(), fn);
+}
+
 // 型定義
 export interface CaseData {
   case_id: string;
@@ -150,6 +259,18 @@ export interface CaseData {
   line_user_id: string | null;
   result: any; // 診断結果
   display_title?: string;
+  outcome?: CaseOutcome; // 交渉結果（lib/outcomes.ts）
+  outcome_reported?: boolean; // 交渉結果がユーザーの入力によるものか（集計に含めるのは入力された結果だけ）
+  revisions?: CaseRevision[]; // 再見積書（新しい順、lib/case-revision.ts）
+  access_token_hash?: string; // Webで作成した案件の操作トークンのSHA-256（LINEで作成した案件にはない）
+}
+
+export interface ShareData {
+  share_id: string;
+  created_at: string;
+  expires_at: string;
+  data: any; // 共有用の診断結果（個人情報を除外済み）
+  manage_token_hash: string; // 管理トークンのSHA-256（トークン自体は保存しない）
 }
 
 export interface LineUser {
@@ -167,15 +288,72 @@ export interface ConversationState {
   line_user_id: string;
   step: 'property_confirm' | 'application_intent' | 'consultation' | 'waiting_images' | 'completed';
   case_id: string;
+  /** waiting_images で待っている画像の用途（revision: 再見積書として案件に追加） */
+  purpose?: 'revision';
+  updated_at: string;
+}
+
+export interface SupportTicket {
+  ticket_id: string;
+  /** consultation: 相談内容の受付、application: 申し込み希望 */
+  type: 'consultation' | 'application';
+  status: 'open' | 'resolved';
+  case_id: string;
+  line_user_id: string;
+  /** 相談内容（申し込み希望は null） */
+  message: string | null;
+  /** スタッフからの返信（LINEで送信済み、古い順） */
+  replies: { text: string; sent_at: string }[];
+  created_at: string;
   updated_at: string;
+  resolved_at: string | null;
 }
 
+export interface WebhookEventRecord {
+  webhook_event_id: string;
+  event_type: string;
+  /** LINEからの再送か（deliveryContext.isRedelivery） */
+  is_redelivery: boolean;
+  received_at: string;
+}
+
+/** 案件の操作トークンを送るヘッダー（案件IDで案件を読み書きするAPI） */
+export const CASE_ACCESS_TOKEN_HEADER = 'x-case-token';
+
 /**
  * 案件を作成
  * @param result 診断結果
  * @returns case_id
  */
 export async function createCase(result: any): Promise<string> {
+  return await saveNewCase(result, null);
+}
+
+/**
+ * 案件を作成し、操作トークンを発行（Webの診断結果画面から作成する場合）
+ * caseToken（LINE連携用、ワンタイム）とは別に、案件の期限まで案件IDで案件を読み書きするAPIに使う
+ * @param result 診断結果
+ * @returns case_id と操作トークン（操作トークンは作成者にだけ返す）
+ */
+export async function createCaseWithAccessToken(result: any): Promise<{ caseId: string; accessToken: string }> {
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  const caseId = await saveNewCase(result, hashToken(accessToken));
+  return { caseId, accessToken };
+}
+
+/**
+ * 案件の操作トークンを検証
+ * @param caseData 案件データ
+ * @param token 作成時に発行した操作トークン
+ */
+export function verifyCaseAccessToken(caseData: CaseData, token: string | null): boolean {
+  if (!token || !caseData.access_token_hash) return false;
+  const expected = Buffer.from(caseData.access_token_hash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+async function saveNewCase(result: any, accessTokenHash: string | null): Promise<string> {
   const kv = await getKv();
   const caseId = crypto.randomUUID();
   const now = new Date();
@@ -191,6 +369,7 @@ export async function createCase(result: any): Promise<string> {
     line_user_id: null, // 最初は未連携
     result,
     display_title: displayTitle,
+    ...(accessTokenHash ? { access_token_hash: accessTokenHash } : {}),
   };
 
   // 30日TTLで保存
@@ -426,6 +605,201 @@ export async function getCase(caseId: string): Promise<CaseData | null> {
   return caseData;
 }
 
+/**
+ * 案件の交渉結果を保存し、ルール別の集計（outcomeStats）を更新
+ * 集計に含めるのはユーザーが入力した交渉結果だけ（再見積書からの推定は案件にだけ保存する）
+ * @param caseId 案件ID
+ * @param outcome 交渉結果
+ * @param options.reported ユーザーが入力した交渉結果か
+ * @returns 更新後の案件データ
+ */
+export async function saveCaseOutcome(
+  caseId: string,
+  outcome: CaseOutcome,
+  options: { reported: boolean }
+): Promise<CaseData> {
+  const kv = await getKv();
+  const caseData = await kv.get<CaseData>(`case:${caseId}`);
+  if (!caseData) {
+    throw new Error('Case not found');
+  }
+
+  const previous = caseData.outcome_reported ? caseData.outcome ?? null : null;
+  caseData.outcome = outcome;
+  caseData.outcome_reported = options.reported;
+
+  const ttl = await kv.ttl(`case:${caseId}`);
+  await kv.setex(`case:${caseId}`, ttl > 0 ? ttl : 30 * 24 * 60 * 60, caseData);
+
+  // 集計は案件と違って期限なしで保持する。同時に記録されても数え漏れないよう、項目ごとに加算する
+  const deltas = outcomeStatsDeltas(previous, options.reported ? outcome : null);
+  for (const [field, amount] of Object.entries(deltas)) {
+    await kv.hincrby('outcomeStats', field, amount);
+  }
+
+  return caseData;
+}
+
+/** 案件に保持する再見積書の件数 */
+const MAX_CASE_REVISIONS = 5;
+
+/**
+ * 案件に再見積書を追加（新しい順に MAX_CASE_REVISIONS 件まで保持）
+ * @param caseId 案件ID
+ * @param revision 再見積書の診断結果と差分
+ */
+export async function saveCaseRevision(caseId: string, revision: CaseRevision): Promise<void> {
+  const kv = await getKv();
+  const caseData = await kv.get<CaseData>(`case:${caseId}`);
+  if (!caseData) {
+    throw new Error('Case not found');
+  }
+
+  caseData.revisions = [revision, ...(caseData.revisions ?? [])].slice(0, MAX_CASE_REVISIONS);
+
+  const ttl = await kv.ttl(`case:${caseId}`);
+  await kv.setex(`case:${caseId}`, ttl > 0 ? ttl : 30 * 24 * 60 * 60, caseData);
+}
+
+/**
+ * 交渉結果のルール別集計を取得
+ */
+export async function getOutcomeStats(): Promise<OutcomeStats | null> {
+  const kv = await getKv();
+  const counters = await kv.hgetall('outcomeStats');
+  return counters ? parseOutcomeStats(counters) : null;
+}
+
+/**
+ * 共有リンクの有効期間（秒）
+ * SHARE_TTL_DAYS で変更可能（デフォルト30日）
+ */
+export function getShareTtlSeconds(): number {
+  const days = Number(process.env.SHARE_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : 30) * 24 * 60 * 60;
+}
+
+/** 延長後の有効期限の上限（作成日からではなく現在から数えた日数） */
+export const MAX_SHARE_TTL_DAYS = 365;
+
+/**
+ * 共有リンクを作成
+ * @param data 共有用データ
+ * @returns 共有データと管理トークン（管理トークンは作成者にだけ返す）
+ */
+export async function createShare(data: unknown): Promise<{ share: ShareData; manageToken: string }> {
+  const kv = await getKv();
+  // 128bitランダム、URLセーフ
+  const shareId = crypto.randomBytes(16).toString('base64url');
+  const manageToken = crypto.randomBytes(24).toString('hex');
+  const ttlSeconds = getShareTtlSeconds();
+  const now = new Date();
+
+  const shareData: ShareData = {
+    share_id: shareId,
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    data,
+    manage_token_hash: hashToken(manageToken),
+  };
+
+  await kv.setex(`share:${shareId}`, ttlSeconds, shareData);
+
+  return { share: shareData, manageToken };
+}
+
+/**
+ * 共有リンクを取得
+ * @param shareId 共有ID
+ * @returns 共有データ（存在しない・期限切れの場合はnull）
+ */
+export async function getShare(shareId: string): Promise<ShareData | null> {
+  const kv = await getKv();
+  const shareData = await kv.get<ShareData>(`share:${shareId}`);
+
+  if (!shareData) {
+    return null;
+  }
+
+  if (new Date(shareData.expires_at) <= new Date()) {
+    return null;
+  }
+
+  return shareData;
+}
+
+/**
+ * 管理トークンを検証
+ * @param shareData 共有データ
+ * @param token 作成時に発行した管理トークン
+ */
+export function verifyShareManageToken(shareData: ShareData, token: string | null): boolean {
+  if (!token || !shareData.manage_token_hash) return false;
+  const expected = Buffer.from(shareData.manage_token_hash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 閲覧数をカウントアップ
+ * 同時に開かれても数え漏れないよう、共有データとは別のカウンターに加算する
+ * @param shareData 共有データ
+ */
+export async function incrementShareViews(shareData: ShareData): Promise<void> {
+  const kv = await getKv();
+  const ttlSeconds = Math.ceil((new Date(shareData.expires_at).getTime() - Date.now()) / 1000);
+  if (ttlSeconds <= 0) return;
+  const key = shareViewsKey(shareData.share_id);
+  await kv.incrby(key, 1);
+  await kv.expire(key, ttlSeconds);
+}
+
+/**
+ * 閲覧数を取得
+ * @param shareData 共有データ
+ */
+export async function getShareViews(shareData: ShareData): Promise<number> {
+  const kv = await getKv();
+  return Number(await kv.get<number>(shareViewsKey(shareData.share_id))) || 0;
+}
+
+/**
+ * 共有リンクの有効期限を延長
+ * @param shareData 共有データ
+ * @param days 延長する日数（現在の有効期限から加算。上限は現在から MAX_SHARE_TTL_DAYS 日）
+ * @returns 更新後の共有データ
+ */
+export async function extendShare(shareData: ShareData, days: number): Promise<ShareData> {
+  const kv = await getKv();
+  const now = Date.now();
+  const maxExpiresAt = now + MAX_SHARE_TTL_DAYS * 24 * 60 * 60 * 1000;
+  const expiresAt = Math.min(new Date(shareData.expires_at).getTime() + days * 24 * 60 * 60 * 1000, maxExpiresAt);
+
+  const updated: ShareData = { ...shareData, expires_at: new Date(expiresAt).toISOString() };
+  const ttlSeconds = Math.ceil((expiresAt - now) / 1000);
+  await kv.setex(`share:${shareData.share_id}`, ttlSeconds, updated);
+  await kv.expire(shareViewsKey(shareData.share_id), ttlSeconds);
+  return updated;
+}
+
+/**
+ * 共有リンクを削除（取り消し）
+ * @param shareId 共有ID
+ */
+export async function revokeShare(shareId: string): Promise<void> {
+  const kv = await getKv();
+  await kv.del(`share:${shareId}`);
+  await kv.del(shareViewsKey(shareId));
+}
+
+function shareViewsKey(shareId: string): string {
+  return `shareViews:${shareId}`;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * 日時をフォーマット（表示用）
  * @param date Date
@@ -446,17 +820,20 @@ function formatDate(date: Date): string {
  * @param lineUserId LINE User ID
  * @param step 会話ステップ
  * @param caseId 案件ID
+ * @param purpose waiting_images で待つ画像の用途
  */
 export async function setConversationState(
   lineUserId: string,
   step: ConversationState['step'],
-  caseId: string
+  caseId: string,
+  purpose?: ConversationState['purpose']
 ): Promise<void> {
   const kv = await getKv();
   const state: ConversationState = {
     line_user_id: lineUserId,
     step,
     case_id: caseId,
+    ...(purpose ? { purpose } : {}),
     updated_at: new Date().toISOString(),
   };
 
@@ -481,3 +858,153 @@ export async function clearConversationState(lineUserId: string): Promise<void>
   const kv = await getKv();
   await kv.del(`conversation:${lineUserId}`);
 }
+
+/** 処理済みWebhookイベントの記録を保持する期間（LINEの再送より十分長く） */
+const WEBHOOK_EVENT_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Webhookイベントを処理済みとして記録
+ * @param record webhookEventId と再送フラグ
+ * @returns 初めて受け取ったイベントなら true（記録済み＝重複なら false）
+ */
+export async function recordWebhookEvent(record: WebhookEventRecord): Promise<boolean> {
+  const kv = await getKv();
+  return await kv.setnxex(`lineWebhookEvent:${record.webhook_event_id}`, WEBHOOK_EVENT_TTL_SECONDS, record);
+}
+
+/** 一覧に保持するチケットの件数 */
+const MAX_SUPPORT_TICKETS = 500;
+/** 未対応チケットの参照を保持する期間（案件の保持期間と同じ） */
+const OPEN_SUPPORT_TICKET_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * スタッフ対応のチケットを作成（LINEでの相談・申し込み希望）
+ * 同じユーザー・案件・種類の未対応チケットがあれば新しく作らず、相談内容を追記する
+ * （申し込みボタンを何度押してもチケットは1件）
+ * @returns 作成した（または追記した）チケット
+ */
+export async function openSupportTicket(
+  input: Pick<SupportTicket, 'type' | 'case_id' | 'line_user_id' | 'message'>
+): Promise<SupportTicket> {
+  const kv = await getKv();
+  const openKey = openSupportTicketKey(input);
+  const ticketId = crypto.randomUUID();
+
+  if (!(await kv.setnxex(openKey, OPEN_SUPPORT_TICKET_TTL_SECONDS, ticketId))) {
+    const openTicketId = await kv.get<string>(openKey);
+    const openTicket = openTicketId ? await kv.get<SupportTicket>(`supportTicket:${openTicketId}`) : null;
+    if (openTicket?.status === 'open') {
+      if (!input.message) return openTicket;
+      return await updateSupportTicket(openTicket.ticket_id, (ticket) => {
+        ticket.message = ticket.message ? `${ticket.message}\n\n${input.message}` : input.message;
+      });
+    }
+    // 参照先のチケットが対応済み・削除済みなら新しいチケットに付け替える
+    await kv.setex(openKey, OPEN_SUPPORT_TICKET_TTL_SECONDS, ticketId);
+  }
+
+  const now = new Date().toISOString();
+  const ticket: SupportTicket = {
+    ticket_id: ticketId,
+    ...input,
+    status: 'open',
+    replies: [],
+    created_at: now,
+    updated_at: now,
+    resolved_at: null,
+  };
+  await kv.set(`supportTicket:${ticket.ticket_id}`, ticket);
+
+  // 一覧に追加（先頭に追加＝新しい順。リスト操作なので同時に作成されても取りこぼさない）
+  await kv.lpush('supportTicketIds', ticket.ticket_id);
+  // 一覧から外れる古いチケットは受付箱から参照できなくなるため、本体も削除する
+  const droppedIds = await kv.lrange('supportTicketIds', MAX_SUPPORT_TICKETS, -1);
+  await kv.ltrim('supportTicketIds', 0, MAX_SUPPORT_TICKETS - 1);
+  for (const droppedId of droppedIds) {
+    await kv.del(`supportTicket:${droppedId}`);
+  }
+
+  return ticket;
+}
+
+/**
+ * チケットを取得
+ * @param ticketId チケットID
+ * @returns チケット（存在しない場合はnull）
+ */
+export async function getSupportTicket(ticketId: string): Promise<SupportTicket | null> {
+  const kv = await getKv();
+  return await kv.get<SupportTicket>(`supportTicket:${ticketId}`);
+}
+
+/**
+ * チケット一覧を取得（新しい順）
+ * @param status 絞り込む状態（省略時はすべて）
+ * @param limit 取得件数
+ */
+export async function listSupportTickets(status?: SupportTicket['status'], limit: number = 100): Promise<SupportTicket[]> {
+  const kv = await getKv();
+  const ticketIds = await kv.lrange('supportTicketIds', 0, MAX_SUPPORT_TICKETS - 1);
+
+  const tickets: SupportTicket[] = [];
+  for (const ticketId of ticketIds) {
+    const ticket = await kv.get<SupportTicket>(`supportTicket:${ticketId}`);
+    if (!ticket || (status && ticket.status !== status)) continue;
+    tickets.push(ticket);
+    if (tickets.length >= limit) break;
+  }
+  return tickets;
+}
+
+/**
+ * チケットにスタッフの返信を追加
+ * @param ticketId チケットID
+ * @param text 返信（LINEで送信済みのもの）
+ * @returns 更新後のチケット
+ */
+export async function addSupportTicketReply(ticketId: string, text: string): Promise<SupportTicket> {
+  return await updateSupportTicket(ticketId, (ticket) => {
+    ticket.replies = [...ticket.replies, { text, sent_at: new Date().toISOString() }];
+  });
+}
+
+/**
+ * チケットの状態を変更（対応済み・未対応に戻す）
+ * 対応済みにしたチケットには追記せず、次の相談・申し込みは新しいチケットにする
+ * @param ticketId チケットID
+ * @param status 変更後の状態
+ * @returns 更新後のチケット
+ */
+export async function setSupportTicketStatus(ticketId: string, status: SupportTicket['status']): Promise<SupportTicket> {
+  const updated = await updateSupportTicket(ticketId, (ticket) => {
+    ticket.status = status;
+    ticket.resolved_at = status === 'resolved' ? new Date().toISOString() : null;
+  });
+
+  const kv = await getKv();
+  const openKey = openSupportTicketKey(updated);
+  if (status === 'resolved') {
+    if ((await kv.get<string>(openKey)) === ticketId) await kv.del(openKey);
+  } else {
+    await kv.setnxex(openKey, OPEN_SUPPORT_TICKET_TTL_SECONDS, ticketId);
+  }
+  return updated;
+}
+
+/** 未対応チケットの参照（ユーザー・案件・種類ごと）のキー */
+function openSupportTicketKey(ticket: Pick<SupportTicket, 'type' | 'line_user_id' | 'case_id'>): string {
+  return `supportTicketOpen:${ticket.type}:${ticket.line_user_id}:${ticket.case_id}`;
+}
+
+async function updateSupportTicket(ticketId: string, update: (ticket: SupportTicket) => void): Promise<SupportTicket> {
+  const kv = await getKv();
+  const ticket = await kv.get<SupportTicket>(`supportTicket:${ticketId}`);
+  if (!ticket) {
+    throw new Error('Ticket not found');
+  }
+
+  update(ticket);
+  ticket.updated_at = new Date().toISOString();
+  await kv.set(`supportTicket:${ticketId}`, ticket);
+  return ticket;
+}
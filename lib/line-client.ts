@@ -5,6 +5,7 @@
  */
 
 import { Client } from '@line/bot-sdk';
+import type { DocumentPage } from '@/lib/document-pages';
 
 /**
  * LINE Clientを作成
@@ -44,3 +45,25 @@ export async function verifyAccessToken(accessToken: string): Promise<string | n
     return null;
   }
 }
+
+/**
+ * LINEで送信された画像をContent APIから取得し、診断用のページに変換
+ * @param client LINE Client
+ * @param messageId 画像メッセージのID
+ */
+export async function fetchLineImagePage(client: Pick<Client, 'getMessageContent'>, messageId: string): Promise<DocumentPage> {
+  const stream = await client.getMessageContent(messageId);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  // LINEの画像メッセージはJPEGで配信される
+  return {
+    buffer: Buffer.concat(chunks),
+    mimeType: 'image/jpeg',
+    isPdf: false,
+    pageNumber: 1,
+    fileName: `line-${messageId}.jpg`,
+  };
+}
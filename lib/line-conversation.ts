@@ -0,0 +1,610 @@
+/**
+ * LINE Botの会話ステートマシン（Webhook と /api/line/simulate で共通）
+ *
+ * 受信したテキストはまず意図（intent）に変換し、
+ * 1. 会話状態 × 意図 の遷移表（STATE_RULES: 物件確認・申し込み意向）
+ * 2. どの状態でも使えるコマンド（COMMAND_RULES: 履歴・比較・交渉メール など）
+ * 3. 相談状態のメッセージ受付 → 4. 案内
+ * の順に返信と次の状態を決める。
+ *
+ * ボタン（postback）はアクションを意図に変換し、ボタンの案件に対して同じ遷移を行う（handlePostback）。
+ *
+ * KVの読み取り・アクティブ案件の変更・見積書PDFの送信は ConversationContext 経由で行い、
+ * Webhook は本番の実装を、シミュレーターは送信しない実装を渡す（返信と遷移は同じになる）。
+ * 会話状態の保存とLINEへの送信は呼び出し側で行う。
+ */
+
+import type { Message } from "@line/bot-sdk";
+import type { CaseData, ConversationState } from "@/lib/kv";
+import type { DocumentPage } from "@/lib/document-pages";
+import { compareCandidates, formatComparisonText, parseCompareCommand } from "@/lib/comparison";
+import { buildResultCardFlex, buildResultCardMessage } from "@/lib/result-card";
+import { buildNegotiationScripts, formatNegotiationEmailText, parseNegotiationCommand, type NegotiationTone } from "@/lib/negotiation-script";
+import { DIAGNOSIS_FLEX_COMMANDS, buildDiagnosisMessage } from "@/lib/diagnosis-flex";
+import { reviseCaseEstimate } from "@/lib/case-revision";
+import { formatEstimateDiffText } from "@/lib/estimate-diff";
+import { diagnoseLineImage } from "@/lib/line-image-diagnosis";
+import { POSTBACK_ACTIONS, buildPostbackAction, parsePostbackData } from "@/lib/line-postback";
+
+export type ConversationStep = ConversationState["step"];
+
+export const CONVERSATION_STEPS: ConversationStep[] = [
+  "property_confirm",
+  "application_intent",
+  "consultation",
+  "waiting_images",
+  "completed",
+];
+
+export type ConversationIntent =
+  | "yes"
+  | "no"
+  | "consult"
+  | "apply"
+  | "decline_apply"
+  | "details"
+  | "estimate_pdf"
+  | "history"
+  | "compare"
+  | "negotiation_email"
+  | "revise_estimate"
+  | "select_case"
+  | "text";
+
+export interface ParsedIntent {
+  intent: ConversationIntent;
+  text: string;
+  /** compare: 履歴の番号（0始まり。空なら直近3件） */
+  compareIndexes?: number[];
+  negotiationTone?: NegotiationTone;
+  /** select_case: 履歴の番号（0始まり） */
+  caseIndex?: number;
+}
+
+/** 返信・遷移を決めるための情報と副作用 */
+export interface ConversationContext {
+  userId: string;
+  /** 結果カード画像のURLに使う */
+  origin: string;
+  state: ConversationState | null;
+  activeCase: CaseData | null;
+  getUserCases(limit: number): Promise<CaseData[]>;
+  getCase(caseId: string): Promise<CaseData | null>;
+  setActiveCase(caseId: string): Promise<void>;
+  /** 見積書PDFを生成してLINEで送信（成功したら true） */
+  sendEstimatePdf(caseData: CaseData): Promise<boolean>;
+}
+
+export interface ConversationNextState {
+  step: ConversationStep;
+  caseId: string;
+  purpose?: ConversationState["purpose"];
+}
+
+/** スタッフの手動対応が必要な内容 */
+export interface ManualAction {
+  type: "consultation" | "application";
+  caseId: string;
+  message?: string;
+}
+
+export interface ConversationTransition {
+  replies: Message[];
+  /** 次の状態（変更なしは null） */
+  next: ConversationNextState | null;
+  manualAction?: ManualAction;
+}
+
+/** 時間のかかる処理（画像の診断）: 先に replies を返信し、process の結果を push で送る */
+export interface DeferredTransition {
+  replies: Message[];
+  next: ConversationNextState | null;
+  process?: () => Promise<{ messages: Message[]; next: ConversationNextState | null }>;
+  /** process が失敗したときに push する文面 */
+  failureText?: string;
+}
+
+// ========================================
+// 返信の文面
+// ========================================
+
+export const CONVERSATION_TEXTS = {
+  askImages: "恐れ入りますが、こちらに見積書の画像をLINEのチャットで直接お送りいただけますか？\n届いた画像をそのまま診断して、結果をお送りします。",
+  consultationStart: "お問い合わせありがとうございます。相談内容を送信してください。スタッフが確認のうえ対応いたします。",
+  consultationReceived: "ご相談内容を承りました。\n\n担当者より改めてご連絡させていただきますので、少々お待ちくださいませ。",
+  applicationAccepted: "承知しました。担当者より詳細な初期費用の見積もりと申し込み方法について連絡いたします。",
+  noActiveCase: "アクティブな案件がありません。\n「履歴」と送信して案件を選択してください。",
+  caseNotFound: "案件が見つかりませんでした（有効期限切れの可能性があります）。\n「履歴」と送信して案件を選択してください。",
+  handoff: "✅ 診断結果を引き継ぎました！\n\n「履歴」と送信すると、いつでも詳細を確認できます。",
+  welcome: "友だち追加ありがとうございます！🎉\n\n賃貸初期費用AI診断の結果をこちらのLINEでご確認いただけます。\n\n診断ページで「LINEで続きを確認」ボタンを押して、ぜひ連携してくださいね。\n\n見積書の画像をこのトークに送っていただくと、その場で診断することもできます📷",
+  help: "メッセージを受け取りました。\n\n見積書の画像を送信すると、その場で初期費用を診断します。「履歴」と送信すると診断結果の一覧を、「比較」と送信すると直近の物件の比較を、「交渉メール」と送信すると交渉メールの下書きを、「見積更新」と送信すると修正後の見積書との比較を確認できます。\n\nご不明な点がございましたら、お気軽にお問い合わせください。",
+};
+
+const PROPERTY_SEARCH_URL = "https://suumo.jp/chintai/";
+
+const text = (value: string): Message => ({ type: "text", text: value });
+
+/**
+ * 物件確認の質問（はい／いいえ／相談したい）
+ */
+export function buildPropertyConfirmMessage(propertyDisplay: string, caseId: string): Message {
+  return {
+    type: "flex",
+    altText: "確認する物件はこの物件で合ってますか？",
+    contents: {
+      type: "bubble",
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          { type: "text", text: "物件の確認", weight: "bold", size: "xl", color: "#333333", margin: "md", align: "center" },
+          { type: "text", text: propertyDisplay, size: "lg", color: "#666666", margin: "sm", align: "center", wrap: true },
+          { type: "separator", margin: "lg" },
+          {
+            type: "box",
+            layout: "vertical",
+            spacing: "sm",
+            margin: "lg",
+            contents: [
+              { type: "button", style: "primary", color: "#007AFF", height: "sm", action: buildPostbackAction("はい", "confirm_property", caseId) },
+              { type: "button", style: "secondary", color: "#808080", height: "sm", action: buildPostbackAction("いいえ", "reject_property", caseId) },
+              { type: "button", style: "primary", color: "#FF9500", height: "sm", action: buildPostbackAction("相談したい", "consult", caseId) },
+            ],
+          },
+        ],
+      },
+      styles: { body: { backgroundColor: "#FFFFFF" } },
+    },
+  };
+}
+
+/**
+ * 申し込み意向の質問（申し込みをしたい／申し込みしない／相談したい）
+ */
+export function buildApplicationIntentMessage(caseId: string): Message {
+  return {
+    type: "flex",
+    altText: "お申し込みについて",
+    contents: {
+      type: "bubble",
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          { type: "text", text: "お申し込みをご希望ですか？", weight: "bold", size: "lg", color: "#333333", margin: "md", align: "center" },
+          { type: "separator", margin: "lg" },
+          {
+            type: "box",
+            layout: "vertical",
+            spacing: "sm",
+            margin: "lg",
+            contents: [
+              { type: "button", style: "primary", color: "#06C755", height: "sm", action: buildPostbackAction("申し込みをしたい", "apply", caseId) },
+              { type: "button", style: "secondary", color: "#9CA3AF", height: "sm", action: buildPostbackAction("申し込みしない", "decline_apply", caseId) },
+              { type: "button", style: "primary", color: "#FF9500", height: "sm", action: buildPostbackAction("相談したい", "consult", caseId) },
+            ],
+          },
+        ],
+      },
+      styles: { body: { backgroundColor: "#FFFFFF" } },
+    },
+  };
+}
+
+function buildPropertySearchMessage(): Message {
+  return {
+    type: "template",
+    altText: "他の物件を探す",
+    template: {
+      type: "buttons",
+      text: "承知しました。ほかに気になる物件候補がありましたら、また診断してみてくださいね。",
+      actions: [{ type: "uri", label: "物件を探す", uri: PROPERTY_SEARCH_URL }],
+    },
+  };
+}
+
+/**
+ * 案件の引き継ぎ（LIFF連携・友だち追加）で送るメッセージ
+ * 通常診断は診断結果＋物件確認の質問を送り、物件確認の状態から会話を始める
+ */
+export function buildCaseHandoff(caseData: CaseData): ConversationTransition {
+  const result = caseData.result;
+  if (result?.is_secret_mode) {
+    return {
+      replies: [text(`✨ ${result.fortune_title || "スペシャル診断"}\n\n${result.fortune_summary || ""}\n\n「履歴」と送信すると、いつでも結果を確認できます。`)],
+      next: null,
+    };
+  }
+
+  const propertyName = result?.property_name || "物件名不明";
+  const propertyDisplay = result?.room_number ? `${propertyName} ${result.room_number}` : propertyName;
+  return {
+    replies: [
+      text(CONVERSATION_TEXTS.handoff),
+      buildDiagnosisMessage(result, caseData.case_id),
+      buildPropertyConfirmMessage(propertyDisplay, caseData.case_id),
+    ],
+    next: { step: "property_confirm", caseId: caseData.case_id },
+  };
+}
+
+// ========================================
+// 意図の判定
+// ========================================
+
+/**
+ * 受信テキストを意図に変換（ボタンは postback のため、テキストは手入力と古いボタンへの対応）
+ */
+export function parseIntent(rawText: string): ParsedIntent {
+  const messageText = rawText.trim();
+  const parsed = (intent: ConversationIntent, extra: Partial<ParsedIntent> = {}): ParsedIntent => ({ intent, text: messageText, ...extra });
+
+  if (messageText === "はい" || messageText === "Yes" || messageText === "yes") return parsed("yes");
+  if (messageText === "いいえ") return parsed("no");
+  if (messageText === DIAGNOSIS_FLEX_COMMANDS.consultation) return parsed("consult");
+  if (messageText === "申し込みをしたい" || messageText === "申し込みする") return parsed("apply");
+  if (messageText === "申し込みしない" || messageText === "他の物件を探す") return parsed("decline_apply");
+  if (messageText === DIAGNOSIS_FLEX_COMMANDS.details) return parsed("details");
+  if (messageText === DIAGNOSIS_FLEX_COMMANDS.pdf) return parsed("estimate_pdf");
+  if (messageText === "履歴" || messageText === "りれき" || messageText === "history") return parsed("history");
+  if (messageText === "見積更新" || messageText === "見積もり更新" || messageText === "みつもりこうしん") return parsed("revise_estimate");
+
+  const compareIndexes = parseCompareCommand(messageText);
+  if (compareIndexes) return parsed("compare", { compareIndexes });
+
+  const negotiationTone = parseNegotiationCommand(messageText);
+  if (negotiationTone) return parsed("negotiation_email", { negotiationTone });
+
+  const numberMatch = messageText.match(/^([1-5])$/);
+  if (numberMatch) return parsed("select_case", { caseIndex: parseInt(numberMatch[1], 10) - 1 });
+
+  return parsed("text");
+}
+
+// ========================================
+// 遷移表
+// ========================================
+
+interface StateRule {
+  step: ConversationStep;
+  intents: ConversationIntent[];
+  next: ConversationStep;
+  reply: (caseId: string) => Message[];
+  /** 返信前に行う処理（失敗しても遷移は続ける） */
+  effect?: (ctx: ConversationContext, caseId: string) => Promise<void>;
+  manualAction?: ManualAction["type"];
+}
+
+/** 会話状態 × 意図 の遷移（会話状態の案件に対して最優先で判定） */
+const STATE_RULES: StateRule[] = [
+  {
+    step: "property_confirm",
+    intents: ["yes"],
+    next: "application_intent",
+    // 物件が合っていれば見積書PDFを自動送信（裏コマンドモード以外）
+    effect: async (ctx, caseId) => {
+      const caseData = await ctx.getCase(caseId);
+      if (caseData?.result && !caseData.result.is_secret_mode && caseData.result.items) {
+        await ctx.sendEstimatePdf(caseData);
+      }
+    },
+    reply: (caseId) => [buildApplicationIntentMessage(caseId)],
+  },
+  { step: "property_confirm", intents: ["no"], next: "waiting_images", reply: () => [text(CONVERSATION_TEXTS.askImages)] },
+  { step: "property_confirm", intents: ["consult"], next: "consultation", reply: () => [text(CONVERSATION_TEXTS.consultationStart)] },
+  {
+    step: "application_intent",
+    intents: ["apply"],
+    next: "completed",
+    reply: () => [text(CONVERSATION_TEXTS.applicationAccepted)],
+    manualAction: "application",
+  },
+  { step: "application_intent", intents: ["no", "decline_apply"], next: "completed", reply: () => [buildPropertySearchMessage()] },
+  { step: "application_intent", intents: ["consult"], next: "consultation", reply: () => [text(CONVERSATION_TEXTS.consultationStart)] },
+];
+
+interface CommandRule {
+  matches: (parsed: ParsedIntent, ctx: ConversationContext) => boolean;
+  handle: (ctx: ConversationContext, parsed: ParsedIntent, caseId: string | null) => Promise<ConversationTransition>;
+}
+
+/** どの状態でも使えるコマンド（上から順に判定） */
+const COMMAND_RULES: CommandRule[] = [
+  // 「履歴」→ 直近5件
+  {
+    matches: (parsed) => parsed.intent === "history",
+    handle: async (ctx) => {
+      const cases = await ctx.getUserCases(5);
+      if (cases.length === 0) {
+        return reply("まだ案件がありません。\n診断ページで「LINEで続き」ボタンを押して連携してください。");
+      }
+      let message = "📋 あなたの案件履歴（直近5件）\n\n";
+      cases.forEach((c, index) => {
+        message += `${index + 1}. ${c.display_title}\n`;
+      });
+      message += "\n番号を送信して案件を選択してください。";
+      return reply(message);
+    },
+  },
+  // 「比較」→ 直近3件、「比較 1 3」→ 履歴の番号を指定
+  {
+    matches: (parsed) => parsed.intent === "compare",
+    handle: async (ctx, parsed) => {
+      const cases = await ctx.getUserCases(5);
+      const indexes = parsed.compareIndexes ?? [];
+      const selected = indexes.length > 0
+        ? indexes.filter((index) => index < cases.length).map((index) => cases[index])
+        : cases.slice(0, 3);
+      if (selected.length < 2) {
+        return reply("比較には2件以上の案件が必要です。\n「履歴」で番号を確認して「比較 1 2」のように送信してください。");
+      }
+      const comparison = compareCandidates(
+        selected.map((c) => ({ label: c.display_title || c.case_id, case_id: c.case_id, result: c.result }))
+      );
+      return reply(formatComparisonText(comparison));
+    },
+  },
+  // 「交渉メール」→ アクティブ案件の交渉メール下書き（「交渉メール 強め」で強めの文面）
+  {
+    matches: (parsed) => parsed.intent === "negotiation_email",
+    handle: async (ctx, parsed) => {
+      const scripts = ctx.activeCase && !ctx.activeCase.result?.is_secret_mode
+        ? buildNegotiationScripts(ctx.activeCase.result)
+        : null;
+      return reply(
+        !ctx.activeCase
+          ? CONVERSATION_TEXTS.noActiveCase
+          : !scripts || scripts.items.length === 0
+            ? "この案件には交渉対象（交渉可・削除推奨）の項目がありません。"
+            : formatNegotiationEmailText(scripts.emails[parsed.negotiationTone ?? "polite"])
+      );
+    },
+  },
+  // 「見積更新」→ アクティブ案件の再見積書の画像を待つ
+  {
+    matches: (parsed) => parsed.intent === "revise_estimate",
+    handle: async (ctx) => {
+      if (!ctx.activeCase || ctx.activeCase.result?.is_secret_mode) {
+        return reply(CONVERSATION_TEXTS.noActiveCase);
+      }
+      return {
+        replies: [text(`📄 「${ctx.activeCase.display_title}」の修正後の見積書の画像を送信してください。\n\n元の見積書と比べて、削除・減額・新しく追加された費用をお知らせします。`)],
+        next: { step: "waiting_images", caseId: ctx.activeCase.case_id, purpose: "revision" },
+      };
+    },
+  },
+  // 数字（1-5）→ 案件選択
+  {
+    matches: (parsed) => parsed.intent === "select_case",
+    handle: async (ctx, parsed) => {
+      const cases = await ctx.getUserCases(5);
+      const selected = cases[parsed.caseIndex ?? -1];
+      if (!selected) {
+        return reply("選択した番号が無効です。「履歴」と送信して案件一覧を確認してください。");
+      }
+      await ctx.setActiveCase(selected.case_id);
+      return reply(`✅ 「${selected.display_title}」を選択しました。\n\n詳細を確認するには「はい」と送信してください。`);
+    },
+  },
+  // 「詳細」（診断結果カードのボタン）・「はい」（会話状態がない場合のみ）→ アクティブ案件の詳細表示
+  {
+    matches: (parsed, ctx) =>
+      parsed.intent === "details" ||
+      (parsed.intent === "yes" && (!ctx.state || ctx.state.step === "completed")),
+    handle: async (ctx) => {
+      if (!ctx.activeCase) {
+        return reply(CONVERSATION_TEXTS.noActiveCase);
+      }
+      const result = ctx.activeCase.result;
+      let adviceMessage = `プロからのアドバイス:\n${result.pro_review?.content || "診断結果をご確認ください"}\n\n`;
+      adviceMessage += "交渉が面倒、怖いと感じる方は、弊社で全ての交渉を代行しお得に契約できるようサポートが可能です。希望の場合はLINEでご相談ください。";
+      return {
+        // 結果ページ・共有ページと同じ結果カード画像を添える
+        replies: [
+          buildDiagnosisMessage(result, ctx.activeCase.case_id),
+          text(adviceMessage),
+          buildResultCardMessage(ctx.origin, ctx.activeCase.case_id),
+        ],
+        next: null,
+      };
+    },
+  },
+  // 「見積書PDF」（診断結果カードのボタン）→ アクティブ案件の見積書PDFを送信（PDFは push で届く）
+  {
+    matches: (parsed) => parsed.intent === "estimate_pdf",
+    handle: async (ctx) => {
+      if (!ctx.activeCase || ctx.activeCase.result?.is_secret_mode || !ctx.activeCase.result?.items) {
+        return reply(CONVERSATION_TEXTS.noActiveCase);
+      }
+      const sent = await ctx.sendEstimatePdf(ctx.activeCase);
+      return sent ? { replies: [], next: null } : reply("見積書PDFの作成に失敗しました。時間をおいて、もう一度お試しください。");
+    },
+  },
+  // 「相談したい」（物件確認・申し込み意向以外の状態）→ 相談受付
+  {
+    matches: (parsed) => parsed.intent === "consult",
+    handle: async (_ctx, _parsed, caseId) =>
+      caseId
+        ? { replies: [text(CONVERSATION_TEXTS.consultationStart)], next: { step: "consultation", caseId } }
+        : reply(CONVERSATION_TEXTS.noActiveCase),
+  },
+];
+
+function reply(message: string): ConversationTransition {
+  return { replies: [text(message)], next: null };
+}
+
+// ========================================
+// イベントごとの処理
+// ========================================
+
+/**
+ * テキストメッセージの処理
+ */
+export async function handleTextMessage(ctx: ConversationContext, messageText: string): Promise<ConversationTransition> {
+  return handleIntent(ctx, parseIntent(messageText));
+}
+
+/**
+ * ボタン（postback）の処理
+ * 案件IDつきのボタンは、会話状態・アクティブ案件にかかわらずそのボタンの案件に対して処理する
+ * （チャット履歴の古いボタンを押した場合も、そのボタンの案件になる）
+ */
+export async function handlePostback(ctx: ConversationContext, data: string): Promise<ConversationTransition> {
+  const postback = parsePostbackData(data);
+  if (!postback) {
+    return reply(CONVERSATION_TEXTS.help);
+  }
+  const action: { intent: ConversationIntent; step?: ConversationStep } = POSTBACK_ACTIONS[postback.action];
+  const parsed: ParsedIntent = { intent: action.intent, text: postback.action };
+  if (!postback.caseId) {
+    return handleIntent(ctx, parsed);
+  }
+
+  const caseData = await ctx.getCase(postback.caseId);
+  if (!caseData || caseData.line_user_id !== ctx.userId || new Date(caseData.expires_at) <= new Date()) {
+    return reply(CONVERSATION_TEXTS.caseNotFound);
+  }
+  if (ctx.activeCase?.case_id !== caseData.case_id) {
+    await ctx.setActiveCase(caseData.case_id);
+  }
+
+  // 質問への回答ボタンはその質問をしている状態として、それ以外は会話状態なしで判定
+  const state: ConversationState | null = action.step
+    ? { line_user_id: ctx.userId, step: action.step, case_id: caseData.case_id, updated_at: new Date().toISOString() }
+    : null;
+  return handleIntent({ ...ctx, state, activeCase: caseData }, parsed);
+}
+
+async function handleIntent(ctx: ConversationContext, parsed: ParsedIntent): Promise<ConversationTransition> {
+  const caseId = ctx.state?.case_id || ctx.activeCase?.case_id || null;
+
+  // 1. 会話状態に基づく分岐（最優先）
+  const stateRule = caseId && ctx.state
+    ? STATE_RULES.find((rule) => rule.step === ctx.state!.step && rule.intents.includes(parsed.intent))
+    : undefined;
+  if (stateRule && caseId) {
+    if (stateRule.effect) {
+      try {
+        await stateRule.effect(ctx, caseId);
+      } catch (error) {
+        console.error(`[${stateRule.step}] effect failed:`, error);
+      }
+    }
+    return {
+      replies: stateRule.reply(caseId),
+      next: { step: stateRule.next, caseId },
+      ...(stateRule.manualAction ? { manualAction: { type: stateRule.manualAction, caseId } } : {}),
+    };
+  }
+
+  // 2. どの状態でも使えるコマンド
+  const command = COMMAND_RULES.find((rule) => rule.matches(parsed, ctx));
+  if (command) {
+    return command.handle(ctx, parsed, caseId);
+  }
+
+  // 3. 相談状態の場合、メッセージを受け取って以後手動対応
+  if (ctx.state?.step === "consultation") {
+    return {
+      replies: [text(CONVERSATION_TEXTS.consultationReceived)],
+      next: { step: "completed", caseId: ctx.state.case_id },
+      manualAction: { type: "consultation", caseId: ctx.state.case_id, message: parsed.text },
+    };
+  }
+
+  // 4. その他のメッセージ → 簡潔な案内
+  return reply(CONVERSATION_TEXTS.help);
+}
+
+/**
+ * 友だち追加（ブロック解除）の処理: 以前の案件があれば診断結果を引き継ぐ
+ */
+export async function handleFollow(ctx: ConversationContext): Promise<ConversationTransition> {
+  // userCasesリストが空でも、アクティブ案件があるかもしれないので確認
+  const [latestCase] = await ctx.getUserCases(1);
+  const caseData = latestCase ?? ctx.activeCase;
+  if (!caseData) {
+    return reply(CONVERSATION_TEXTS.welcome);
+  }
+
+  await ctx.setActiveCase(caseData.case_id);
+  return buildCaseHandoff(caseData);
+}
+
+/**
+ * 画像メッセージの処理
+ * - 「見積更新」後（waiting_images + revision）: 再見積書として案件に追加して差分を返す
+ * - それ以外: 見積書として診断し、新しい案件として保存
+ * 解析に時間がかかるため、受付の返信と診断（process）を分ける
+ */
+export async function handleImageMessage(
+  ctx: ConversationContext,
+  loadPage: () => Promise<DocumentPage>
+): Promise<DeferredTransition> {
+  if (ctx.state?.step === "waiting_images" && ctx.state.purpose === "revision") {
+    const caseData = await ctx.getCase(ctx.state.case_id);
+    if (!caseData) {
+      return {
+        replies: [text(CONVERSATION_TEXTS.caseNotFound)],
+        next: { step: "completed", caseId: ctx.state.case_id },
+      };
+    }
+
+    return {
+      replies: [text("📄 見積書を受け取りました。元の見積書と比較しています…\n（1分ほどかかります）")],
+      next: null,
+      process: async () => {
+        const revised = await reviseCaseEstimate(caseData, [await loadPage()], "line");
+        if (!revised) {
+          return {
+            messages: [text("見積書の費用項目を読み取れませんでした。\n見積書全体が写るように撮影して、もう一度送信してください。")],
+            next: null,
+          };
+        }
+        console.log(`✅ Revised estimate attached: user ${ctx.userId}, case ${caseData.case_id}`);
+        return {
+          messages: [text(formatEstimateDiffText(revised.revision.diff))],
+          next: { step: "completed", caseId: caseData.case_id },
+        };
+      },
+      failureText: "見積書の読み取り中にエラーが発生しました。時間をおいて、もう一度送信してください。",
+    };
+  }
+
+  return {
+    replies: [text("🔍 画像を受け取りました。見積書を診断しています…\n（1分ほどかかります）")],
+    next: null,
+    process: async () => {
+      const diagnosis = await diagnoseLineImage(await loadPage(), ctx.userId);
+      if (diagnosis.kind === "not_estimate") {
+        return {
+          messages: [text(
+            diagnosis.classification.type === "flyer"
+              ? "募集図面（マイソク）を受け取りました。\n\nLINEでは見積書の画像から診断します。不動産会社からもらった初期費用の見積書の画像を送信してください。"
+              : "見積書の画像ではないようです。\n\n不動産会社からもらった初期費用の見積書の画像を送信してください。"
+          )],
+          next: null,
+        };
+      }
+      if (diagnosis.kind === "unreadable") {
+        return {
+          messages: [text("見積書の費用項目を読み取れませんでした。\n見積書全体が写るように撮影して、もう一度送信してください。")],
+          next: null,
+        };
+      }
+
+      const { result } = diagnosis;
+      let message = "✅ 診断が完了しました！\n\n";
+      message += `💰 削減可能額: ${result.discount_amount?.toLocaleString() || "0"}円\n`;
+      message += `（見積書合計 ${result.total_original?.toLocaleString() || "0"}円 → 適正価格 ${result.total_fair?.toLocaleString() || "0"}円）\n\n`;
+      message += "「交渉メール」と送信すると交渉メールの下書きを、「履歴」と送信するといつでも結果を確認できます。";
+      return {
+        messages: [text(message), buildResultCardFlex(ctx.origin, diagnosis.caseId, result)],
+        // 画像で診断した案件は物件確認（Web診断からの連携用）を行わない
+        next: { step: "completed", caseId: diagnosis.caseId },
+      };
+    },
+    failureText: "診断中にエラーが発生しました。時間をおいて、もう一度送信してください。",
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * LINEのチャットに直接送られた画像の診断
+ *
+ * 画像はContent APIから取得し（lib/line-client.ts）、/api/analyze と同じパイプライン
+ * （lib/document-analysis.ts）で分類・抽出・検証・診断する。
+ * 画像は1枚ずつ届くため、見積書として分類された画像のみ診断する
+ * （図面だけでは費用を判定できず、裏コマンドはWebのみ）。
+ * 診断できたら案件を作成し、送信したLINEユーザーに紐づけてアクティブ案件にする。
+ */
+
+import type { DiagnosisResult } from "@/lib/types";
+import type { DocumentPage } from "@/lib/document-pages";
+import {
+  buildDocumentParts,
+  classifyDocumentImage,
+  createAnalysisModel,
+  diagnoseDocumentParts,
+  type ImageClassification,
+} from "@/lib/document-analysis";
+import { createCase, linkCaseToUser, setActiveCase } from "@/lib/kv";
+
+export type LineImageDiagnosis =
+  | { kind: "diagnosed"; caseId: string; result: DiagnosisResult }
+  /** 見積書以外（図面・関係ない画像） */
+  | { kind: "not_estimate"; classification: ImageClassification }
+  /** 見積書だが費用項目を読み取れなかった */
+  | { kind: "unreadable" };
+
+/**
+ * 画像を診断し、診断できたらLINEユーザーの案件として保存
+ * @throws GEMINI_API_KEY 未設定・AI呼び出しの失敗時
+ */
+export async function diagnoseLineImage(page: DocumentPage, lineUserId: string): Promise<LineImageDiagnosis> {
+  const model = createAnalysisModel();
+  const parts = await buildDocumentParts({ estimate: [page], plan: [], condition: [] });
+
+  const classification = await classifyDocumentImage(model, parts.imageParts[0]);
+  if (classification.type !== "estimate") {
+    return { kind: "not_estimate", classification };
+  }
+
+  const result = await diagnoseDocumentParts(model, parts);
+  if (result.items.length === 0) {
+    return { kind: "unreadable" };
+  }
+
+  const caseId = await createCase(result);
+  await linkCaseToUser(caseId, lineUserId);
+  await setActiveCase(lineUserId, caseId);
+  console.log(`✅ LINE image diagnosed: user ${lineUserId}, case ${caseId}`);
+
+  return { kind: "diagnosed", caseId, result };
+}
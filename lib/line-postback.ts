@@ -0,0 +1,53 @@
+/**
+ * LINEのボタン（postbackアクション）
+ *
+ * ボタンはテキストではなく postback でアクションと案件IDを送る（data: "action=details&case_id=..."）。
+ * 入力した文字やボタンの文言に左右されず、チャット履歴の古いボタンでもそのボタンの案件に対して処理できる。
+ * テキスト（「はい」など）での操作は lib/line-conversation.ts の parseIntent で引き続き受け付ける。
+ */
+
+import type { Action } from "@line/bot-sdk";
+import type { ConversationIntent, ConversationStep } from "@/lib/line-conversation";
+
+/** postbackのアクション → 会話の意図（step: その状態の質問への回答ボタン） */
+export const POSTBACK_ACTIONS = {
+  confirm_property: { intent: "yes", step: "property_confirm" },
+  reject_property: { intent: "no", step: "property_confirm" },
+  apply: { intent: "apply", step: "application_intent" },
+  decline_apply: { intent: "decline_apply", step: "application_intent" },
+  consult: { intent: "consult" },
+  details: { intent: "details" },
+  estimate_pdf: { intent: "estimate_pdf" },
+  negotiation_email: { intent: "negotiation_email" },
+  history: { intent: "history" },
+} as const satisfies Record<string, { intent: ConversationIntent; step?: ConversationStep }>;
+
+export type PostbackActionName = keyof typeof POSTBACK_ACTIONS;
+
+export interface ParsedPostback {
+  action: PostbackActionName;
+  caseId: string | null;
+}
+
+/**
+ * ボタンのアクション（押すとラベルがユーザーの発言としてチャットに表示される）
+ */
+export function buildPostbackAction(label: string, action: PostbackActionName, caseId?: string): Action {
+  return { type: "postback", label, data: buildPostbackData(action, caseId), displayText: label };
+}
+
+export function buildPostbackData(action: PostbackActionName, caseId?: string): string {
+  const params = new URLSearchParams({ action });
+  if (caseId) params.set("case_id", caseId);
+  return params.toString();
+}
+
+/**
+ * postbackのdataを解析（このBotのボタン以外は null）
+ */
+export function parsePostbackData(data: string): ParsedPostback | null {
+  const params = new URLSearchParams(data);
+  const action = params.get("action");
+  if (!action || !Object.hasOwn(POSTBACK_ACTIONS, action)) return null;
+  return { action: action as PostbackActionName, caseId: params.get("case_id") || null };
+}
@@ -1,7 +1,7 @@
 /**
  * LINE Webhook署名検証
  *
- * x-line-signatureヘッダーとchannel_secretを使ってHMAC-SHA256で検証
+ * x-line-signatureヘッダーとchannel_secretを使ってHMAC-SHA256で検証（定数時間で比較）
  */
 
 import crypto from 'crypto';
@@ -18,10 +18,15 @@ export function verifySignature(
   signature: string,
   channelSecret: string
 ): boolean {
-  const hash = crypto
+  if (!channelSecret) return false;
+
+  const expected = crypto
     .createHmac('SHA256', channelSecret)
     .update(body)
-    .digest('base64');
+    .digest();
+  const provided = Buffer.from(signature, 'base64');
 
-  return hash === signature;
+  // 比較にかかる時間から署名を推測されないよう、長さをそろえて定数時間で比較
+  if (provided.length !== expected.length) return false;
+  return crypto.timingSafeEqual(provided, expected);
 }
@@ -0,0 +1,196 @@
+/**
+ * LINE Webhookイベントの処理（/api/line/webhook とシナリオ再生 scripts/lib/line-scenario.ts で共通）
+ *
+ * 会話状態とアクティブ案件をKVから読み、lib/line-conversation.ts で決めた返信を送って
+ * 次の会話状態を保存する。webhookEventId をKVに記録し、LINEの再送などで同じイベントが
+ * 2回届いても返信・PDF送信を重複させない。LINEへの送信は渡された client で行うため、
+ * シナリオ再生では送信内容を記録するだけの client を渡せる。
+ */
+
+import type { Client, Message, WebhookEvent } from '@line/bot-sdk';
+import { fetchLineImagePage } from '@/lib/line-client';
+import {
+  getUserCases,
+  setActiveCase,
+  getActiveCase,
+  getConversationState,
+  setConversationState,
+  getCase,
+  openSupportTicket,
+  recordWebhookEvent,
+  type CaseData,
+} from '@/lib/kv';
+import { sendEstimatePdf } from '@/lib/send-estimate-pdf';
+import {
+  handleFollow,
+  handleImageMessage,
+  handlePostback,
+  handleTextMessage,
+  type ConversationContext,
+  type ConversationNextState,
+  type ConversationTransition,
+  type ManualAction,
+} from '@/lib/line-conversation';
+
+/** イベント処理で使うLINE Messaging APIの操作 */
+export type LineMessagingClient = Pick<Client, 'replyMessage' | 'pushMessage' | 'getMessageContent'>;
+
+export interface LineEventOptions {
+  client: LineMessagingClient;
+  /** 結果カード画像のURLに使う */
+  origin: string;
+  /** 見積書PDFの生成・送信（省略時は lib/send-estimate-pdf.ts で送信） */
+  sendEstimatePdf?: (userId: string, caseData: CaseData) => Promise<boolean>;
+}
+
+/**
+ * Webhookで受け取ったイベントを順に処理（処理済みのイベントはスキップ）
+ * 1件の失敗で残りのイベントを止めないよう、エラーはイベントごとにログに記録する
+ * （応答を返したあとに処理するため、失敗してもLINEからは再送されない）
+ */
+export async function processLineWebhookEvents(events: WebhookEvent[], options: LineEventOptions): Promise<void> {
+  for (const event of events) {
+    const isRedelivery = event.deliveryContext?.isRedelivery ?? false;
+    if (event.webhookEventId) {
+      const isFirst = await recordWebhookEvent({
+        webhook_event_id: event.webhookEventId,
+        event_type: event.type,
+        is_redelivery: isRedelivery,
+        received_at: new Date().toISOString(),
+      });
+      if (!isFirst) continue;
+    }
+
+    try {
+      await handleLineWebhookEvent(event, options);
+    } catch (error: any) {
+      console.error(`❌ Webhook event failed: ${event.webhookEventId} (${event.type}), user ${event.source.userId}`, error);
+    }
+  }
+}
+
+/**
+ * Webhookイベントを1件処理（follow・postback・テキスト・画像メッセージ以外は無視）
+ */
+export async function handleLineWebhookEvent(event: WebhookEvent, options: LineEventOptions): Promise<void> {
+  if (
+    event.type !== 'follow' &&
+    event.type !== 'postback' &&
+    !(event.type === 'message' && (event.message.type === 'text' || event.message.type === 'image'))
+  ) {
+    return;
+  }
+  const userId = event.source.userId;
+  if (!userId) return;
+
+  const { client } = options;
+  const ctx = await buildConversationContext(userId, options);
+
+  // follow イベント（友だち追加・ブロック解除）→ 以前の案件があれば診断結果を引き継ぐ
+  if (event.type === 'follow') {
+    await applyTransition(client, event.replyToken, userId, await handleFollow(ctx));
+    return;
+  }
+
+  // postback イベント（ボタン）→ ボタンのアクションと案件IDで処理
+  if (event.type === 'postback') {
+    await applyTransition(client, event.replyToken, userId, await handlePostback(ctx, event.postback.data));
+    return;
+  }
+
+  // message イベント（テキストメッセージ）
+  if (event.message.type === 'text') {
+    const messageText = event.message.text.trim();
+    await applyTransition(client, event.replyToken, userId, await handleTextMessage(ctx, messageText));
+    return;
+  }
+
+  // message イベント（画像メッセージ）→ 受付を返信してから診断し、結果は push で送る
+  const messageId = event.message.id;
+  const transition = await handleImageMessage(ctx, () => fetchLineImagePage(client, messageId));
+  await reply(client, event.replyToken, transition.replies);
+  await saveNextState(userId, transition.next);
+  if (!transition.process) return;
+
+  try {
+    const processed = await transition.process();
+    await client.pushMessage(userId, processed.messages);
+    await saveNextState(userId, processed.next);
+  } catch (error: any) {
+    console.error('❌ LINE image processing error:', error);
+    await client.pushMessage(userId, {
+      type: 'text',
+      text: transition.failureText || '画像の処理中にエラーが発生しました。時間をおいて、もう一度送信してください。',
+    });
+  }
+}
+
+/**
+ * 会話ステートマシンに渡すコンテキスト（KV・LINE送信の本番実装）
+ */
+async function buildConversationContext(userId: string, options: LineEventOptions): Promise<ConversationContext> {
+  const [state, activeCase] = await Promise.all([getConversationState(userId), getActiveCase(userId)]);
+  return {
+    userId,
+    origin: options.origin,
+    state,
+    activeCase,
+    getUserCases: (limit) => getUserCases(userId, limit),
+    getCase,
+    setActiveCase: (caseId) => setActiveCase(userId, caseId),
+    sendEstimatePdf: (caseData) =>
+      options.sendEstimatePdf ? options.sendEstimatePdf(userId, caseData) : sendEstimatePdfToUser(userId, caseData),
+  };
+}
+
+async function sendEstimatePdfToUser(userId: string, caseData: CaseData): Promise<boolean> {
+  const pdfResult = await sendEstimatePdf({ userId, caseId: caseData.case_id, result: caseData.result });
+  if (!pdfResult.success) {
+    console.error(`❌ Estimate PDF send failed: user ${userId}, case ${caseData.case_id}`, pdfResult.error);
+  }
+  return pdfResult.success;
+}
+
+/**
+ * 返信して次の会話状態を保存（手動対応が必要ならチケットを作成）
+ */
+async function applyTransition(
+  client: LineMessagingClient,
+  replyToken: string,
+  userId: string,
+  transition: ConversationTransition
+): Promise<void> {
+  // 返信に失敗しても（replyTokenの期限切れなど）ユーザーの依頼は残るよう、チケットを先に作成
+  if (transition.manualAction) {
+    await recordManualAction(userId, transition.manualAction);
+  }
+  await reply(client, replyToken, transition.replies);
+  await saveNextState(userId, transition.next);
+}
+
+async function reply(client: LineMessagingClient, replyToken: string, messages: Message[]): Promise<void> {
+  if (messages.length === 0) return;
+  await client.replyMessage(replyToken, messages);
+}
+
+async function saveNextState(userId: string, next: ConversationNextState | null): Promise<void> {
+  if (!next) return;
+  await setConversationState(userId, next.step, next.caseId, next.purpose);
+}
+
+/**
+ * スタッフの手動対応が必要な内容をチケットとして保存（/admin/inbox で対応）
+ * 保存に失敗しても返信・会話状態には影響させず、内容をログに残す
+ */
+async function recordManualAction(userId: string, action: ManualAction): Promise<void> {
+  try {
+    await openSupportTicket({
+      type: action.type,
+      case_id: action.caseId,
+      line_user_id: userId,
+      message: action.message ?? null,
+    });
+  } catch (error) {
+    console.error(`❌ Support ticket creation failed: user ${userId}, case ${action.caseId} (${action.type})`, action.message, error);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * 交渉フレーズ（自分で交渉する人向け）
+ *
+ * 「交渉可」「削除推奨」の項目ごとに、電話・メール・LINEでそのまま使える文面を
+ * 丁寧／強めの2種類で作る。根拠は判定ルール（lib/rule-engine.ts）の rule_id と
+ * 図面の記載有無から組み立て、AIは使わない（同じ診断結果からは常に同じ文面）。
+ * 見積書全体の「交渉メール」下書きもここで作る。
+ */
+
+import type { DiagnosisItem, DiagnosisResult } from "@/lib/types";
+import { formatYen, toNonNegative } from "@/lib/number-utils";
+
+export type NegotiationChannel = "phone" | "email" | "line";
+export type NegotiationTone = "polite" | "firm";
+
+/** 1項目分の交渉フレーズ */
+export interface NegotiationItemScript {
+  item_name: string;
+  status: "negotiable" | "cut";
+  rule_id: string | null;
+  /** 交渉の根拠（文末の「。」なし） */
+  basis: string;
+  price_original: number | null;
+  /** 交渉後の目標額（削除推奨は0） */
+  price_target: number;
+  /** 削減見込み額 */
+  reduction: number;
+  scripts: Record<NegotiationChannel, Record<NegotiationTone, string>>;
+}
+
+/** 見積書全体の交渉メール下書き */
+export interface NegotiationEmail {
+  tone: NegotiationTone;
+  subject: string;
+  body: string;
+  total_reduction: number;
+}
+
+export interface NegotiationScripts {
+  items: NegotiationItemScript[];
+  emails: Record<NegotiationTone, NegotiationEmail>;
+}
+
+const PROPERTY_FALLBACK = "ご紹介いただいた物件";
+
+/**
+ * 診断結果から交渉フレーズと交渉メールをまとめて作る
+ */
+export function buildNegotiationScripts(result: Partial<DiagnosisResult>): NegotiationScripts {
+  const property = propertyLabel(result);
+  const items = (result.items ?? [])
+    .filter((item) => item.status === "negotiable" || item.status === "cut")
+    .map((item) => buildItemScript(item, property));
+
+  return {
+    items,
+    emails: {
+      polite: buildNegotiationEmail(result, items, "polite"),
+      firm: buildNegotiationEmail(result, items, "firm"),
+    },
+  };
+}
+
+/**
+ * 1項目分の交渉フレーズ
+ */
+export function buildItemScript(item: DiagnosisItem, property: string = PROPERTY_FALLBACK): NegotiationItemScript {
+  const status = item.status === "cut" ? "cut" : "negotiable";
+  const original = item.price_original;
+  const target = status === "cut" ? 0 : toNonNegative(item.price_fair);
+  const reduction = Math.max(0, toNonNegative(original) - target);
+  const basis = negotiationBasis(item);
+  const name = `「${item.name}」${original !== null ? `（¥${formatYen(original)}）` : ""}`;
+  const removal = status === "cut" || target === 0;
+
+  const askPolite = removal
+    ? "こちらの項目を外していただくことは可能でしょうか"
+    : `¥${formatYen(target)}に調整していただくことは可能でしょうか`;
+  const askFirm = removal ? "こちらの項目は外していただくようお願いします" : `¥${formatYen(target)}への減額をお願いします`;
+
+  return {
+    item_name: item.name,
+    status,
+    rule_id: item.rule_id ?? null,
+    basis,
+    price_original: original,
+    price_target: target,
+    reduction,
+    scripts: {
+      phone: {
+        polite: `お世話になっております。${property}の初期費用の件でお電話しました。お見積りの${name}についてですが、${basis}。${askPolite}。`,
+        firm: `${property}のお見積りの${name}について確認させてください。${basis}。${askFirm}。難しい場合は、必要な理由を具体的に教えてください。`,
+      },
+      email: {
+        polite: `お見積りに記載の${name}について、${basis}。つきましては、${askPolite}。ご検討のほど、よろしくお願いいたします。`,
+        firm: `お見積りに記載の${name}について、${basis}。${askFirm}。対応できない場合は、その根拠を書面でご提示ください。`,
+      },
+      line: {
+        polite: `お見積りの${name}について、${basis}。${askPolite}？`,
+        firm: `お見積りの${name}について、${basis}。${askFirm}。`,
+      },
+    },
+  };
+}
+
+/**
+ * 見積書全体の交渉メール下書き
+ */
+export function buildNegotiationEmail(
+  result: Partial<DiagnosisResult>,
+  items: NegotiationItemScript[],
+  tone: NegotiationTone
+): NegotiationEmail {
+  const property = propertyLabel(result);
+  const totalReduction = items.reduce((sum, item) => sum + item.reduction, 0);
+  const totalOriginal = toNonNegative(result.total_original);
+
+  const lines = items.map((item, index) => {
+    const price = item.price_original !== null ? `¥${formatYen(item.price_original)}` : "金額不明";
+    const request = item.status === "cut" || item.price_target === 0 ? "削除" : `¥${formatYen(item.price_target)}に減額`;
+    return `${index + 1}. ${item.item_name}（${price} → ${request}）\n   ${item.basis}。`;
+  });
+
+  const intro = tone === "polite"
+    ? `お世話になっております。${property}の件でお見積りをいただいた（お名前）です。\nお見積りの内容を確認したところ、以下の項目についてご相談させてください。`
+    : `${property}の件でお見積りをいただいた（お名前）です。\nお見積りの内容を確認したところ、以下の項目について見直しをお願いしたく、ご連絡しました。`;
+  const summary = totalOriginal > 0 && totalReduction > 0
+    ? `上記を反映した場合、初期費用は¥${formatYen(totalOriginal)}から¥${formatYen(Math.max(0, totalOriginal - totalReduction))}になる見込みです。`
+    : "";
+  const closing = tone === "polite"
+    ? "お忙しいところ恐れ入りますが、ご検討のほどよろしくお願いいたします。"
+    : "恐れ入りますが、契約手続きの前に（〇月〇日）までにご回答をお願いいたします。\n対応が難しい項目がある場合は、その理由と根拠をあわせてご提示ください。";
+
+  const body = [
+    "ご担当者様",
+    "",
+    intro,
+    "",
+    lines.length > 0 ? lines.join("\n\n") : "（交渉対象の項目はありません）",
+    ...(summary ? ["", summary] : []),
+    "",
+    closing,
+  ].join("\n");
+
+  return {
+    tone,
+    subject: `初期費用のお見積りについてのご相談（${property}）`,
+    body,
+    total_reduction: totalReduction,
+  };
+}
+
+/**
+ * 交渉メールをLINEで送る形に整形（件名＋本文）
+ */
+export function formatNegotiationEmailText(email: NegotiationEmail): string {
+  return `✉️ 交渉メールの下書き（${email.tone === "polite" ? "丁寧" : "強め"}）\n\n件名: ${email.subject}\n\n${email.body}`;
+}
+
+/**
+ * LINEの「交渉メール」コマンドを解釈
+ * - 「交渉メール」「交渉文」→ polite
+ * - 「交渉メール 強め」→ firm
+ * @returns 交渉メールコマンドでなければ null
+ */
+export function parseNegotiationCommand(messageText: string): NegotiationTone | null {
+  const match = messageText.trim().match(/^(?:交渉メール|交渉文|こうしょうめーる)\s*(強め|つよめ|丁寧|ていねい)?$/);
+  if (!match) return null;
+  return match[1] === "強め" || match[1] === "つよめ" ? "firm" : "polite";
+}
+
+/**
+ * 交渉の根拠（ルールごとの定型文。該当しなければ図面の記載有無 → 判定理由）
+ */
+function negotiationBasis(item: DiagnosisItem): string {
+  switch (item.rule_id) {
+    case "brokerage":
+      return "仲介手数料は、借主の事前の承諾がない場合は賃料の0.5ヶ月分（税別）が上限と宅建業法で定められており、それを超える金額には承諾していません";
+    case "fire_insurance":
+      return item.flyer_price
+        ? `募集図面では火災保険料が¥${formatYen(item.flyer_price)}と記載されています`
+        : "火災保険は条件を満たせば自分で加入できるものと認識しています";
+    case "key_exchange":
+      return item.listed_in_flyer === false
+        ? "募集図面に鍵交換代の記載がありません"
+        : "鍵交換代について、必須かどうかを確認させてください";
+    case "optional_addon":
+      return item.status === "cut"
+        ? "消毒・抗菌などは任意のオプションサービスで、加入は必須ではないと認識しています"
+        : "募集図面に記載はありますが、任意のオプションサービスと認識しています";
+    case "key_money":
+      return "募集図面では礼金なしと記載されています";
+  }
+  if (item.listed_in_flyer === false) return "募集図面に記載がない費用です";
+  return String(item.reason ?? "").replace(/[。\s]+$/, "") || "必須の費用かどうかを確認させてください";
+}
+
+function propertyLabel(result: Partial<DiagnosisResult>): string {
+  const name = result.property_name && result.property_name !== "物件名入力なし" ? result.property_name : null;
+  if (!name) return PROPERTY_FALLBACK;
+  return result.room_number ? `${name} ${result.room_number}` : name;
+}
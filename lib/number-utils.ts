@@ -0,0 +1,47 @@
+/**
+ * 金額・数値の正規化ユーティリティ
+ * 抽出JSON（AI出力）の数値を安全に扱うためのヘルパー
+ */
+
+/**
+ * 全角数字・全角カンマ・「円」を正規化
+ */
+export function normalizeNumberText(text: string): string {
+  return text
+    .replace(/[０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xfee0))
+    .replace(/[，]/g, ",")
+    .replace(/円/g, "")
+    .trim();
+}
+
+/**
+ * 数値または数値文字列を number に変換（変換できなければ null）
+ */
+export function toNumberOrNull(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const normalized = normalizeNumberText(value).replace(/,/g, "");
+    if (!normalized) return null;
+    const parsed = Number(normalized);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * 0以上の数値に変換（変換できない・負数の場合は fallback）
+ */
+export function toNonNegative(value: unknown, fallback = 0): number {
+  const num = toNumberOrNull(value);
+  if (num === null || num < 0) return fallback;
+  return num;
+}
+
+/**
+ * 円表示用のフォーマット（カンマ区切り、小数は四捨五入）
+ */
+export function formatYen(value: number): string {
+  return Math.round(value).toLocaleString("ja-JP");
+}
@@ -0,0 +1,112 @@
+/**
+ * OGP画像生成のヘルパー（next/og の ImageResponse 用）
+ *
+ * ImageResponse の既定フォントは日本語グリフを含まないため、
+ * 画像に描く文字だけを Google Fonts（Noto Sans JP）からサブセット取得して渡す。
+ */
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+type OgFont = { name: string; data: ArrayBuffer; weight: 400 | 700; style: "normal" };
+
+/**
+ * 日本語フォントを取得（取得できない場合は空配列＝既定フォントで描画）
+ * @param text 画像に描画する文字列（サブセット化に使用）
+ */
+export async function loadJapaneseFonts(text: string): Promise<OgFont[]> {
+  const uniqueText = [...new Set(text)].join("");
+  const fonts: OgFont[] = [];
+
+  for (const weight of [400, 700] as const) {
+    try {
+      const cssUrl = `https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@${weight}&text=${encodeURIComponent(uniqueText)}`;
+      const css = await (await fetch(cssUrl)).text();
+      const fontUrl = css.match(/src: url\((.+?)\) format\('(?:opentype|truetype)'\)/)?.[1];
+      if (!fontUrl) continue;
+
+      const res = await fetch(fontUrl);
+      if (!res.ok) continue;
+      fonts.push({ name: "Noto Sans JP", data: await res.arrayBuffer(), weight, style: "normal" });
+    } catch (error) {
+      console.warn(`[og-image] フォントの取得に失敗しました（weight=${weight}）`, error);
+    }
+  }
+
+  return fonts;
+}
+
+/** 共有プレビュー（OGP画像・メタデータ）に載せる内容 */
+export interface SharePreview {
+  title: string;
+  description: string;
+  is_secret_mode: boolean;
+  /** 削減可能額の表示（例: "-¥22,000"。割合表示の共有では "-12.5%"） */
+  discount_text: string;
+  risk_score: number;
+  headline: string | null;
+  /** 削減可能額の大きい「削除推奨」項目（最大3件） */
+  top_cut_items: { name: string; amount_text: string }[];
+  fortune_title: string | null;
+  fortune_subtitle: string | null;
+}
+
+/**
+ * 共有データからプレビュー内容を組み立てる
+ */
+export function buildSharePreview(data: any): SharePreview {
+  if (data?.is_secret_mode) {
+    const fortuneTitle = typeof data.fortune_title === "string" ? data.fortune_title : "スペシャル診断";
+    return {
+      title: `${fortuneTitle}｜賃貸初期費用チェッカー`,
+      description: truncateText(data.fortune_summary || data.fortune_subtitle || "AIによるスペシャル診断の結果です。", 120),
+      is_secret_mode: true,
+      discount_text: "",
+      risk_score: 0,
+      headline: null,
+      top_cut_items: [],
+      fortune_title: fortuneTitle,
+      fortune_subtitle: typeof data.fortune_subtitle === "string" ? data.fortune_subtitle : null,
+    };
+  }
+
+  // 割合表示の共有（lib/share-redaction.ts）では金額を出さない
+  const isPercentage = data?.amount_display === "percentages";
+  const discount = isPercentage
+    ? Math.max(0, Number(data?.discount_rate) || 0)
+    : Math.max(0, Math.round(Number(data?.discount_amount) || 0));
+  const discountText = isPercentage ? `-${discount}%` : `-¥${discount.toLocaleString("ja-JP")}`;
+  const riskScore = Math.max(0, Math.min(100, Math.round(Number(data?.risk_score) || 0)));
+  const items: any[] = Array.isArray(data?.items) ? data.items : [];
+  const sizeOf = (item: any) => Number(isPercentage ? item?.share_rate : item?.price_original) || 0;
+  const topCutItems = items
+    .filter((item) => item?.status === "cut" && sizeOf(item) > 0)
+    .sort((a, b) => sizeOf(b) - sizeOf(a))
+    .slice(0, 3)
+    .map((item) => ({
+      name: truncateText(String(item.name), 16),
+      amount_text: isPercentage ? `総額の${sizeOf(item)}%` : `¥${Math.round(sizeOf(item)).toLocaleString("ja-JP")}`,
+    }));
+  const headline = typeof data?.headline === "string" && data.headline ? data.headline : null;
+
+  const cutText = topCutItems.length > 0 ? `削除推奨: ${topCutItems.map((item) => item.name).join("・")}。` : "";
+  return {
+    title: discount > 0
+      ? `初期費用が約${isPercentage ? `${discount}%` : `${discount.toLocaleString("ja-JP")}円`}安くなる可能性｜賃貸初期費用チェッカー`
+      : "賃貸初期費用のAI診断結果｜賃貸初期費用チェッカー",
+    description: truncateText(`${headline ? `${headline}。` : ""}${cutText}リスクスコア${riskScore}/100。見積書をAIが適正診断しました。`, 120),
+    is_secret_mode: false,
+    discount_text: discountText,
+    risk_score: riskScore,
+    headline,
+    top_cut_items: topCutItems,
+    fortune_title: null,
+    fortune_subtitle: null,
+  };
+}
+
+/**
+ * 長い文字列を省略（OGP画像・タイトル用）
+ */
+export function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
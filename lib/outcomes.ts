@@ -0,0 +1,196 @@
+/**
+ * 交渉結果の記録（実際に不動産会社が応じた内容）
+ *
+ * 案件の「交渉可」「削除推奨」の項目ごとに、交渉の結果（削除・一部減額・断られた・交渉していない）を
+ * 記録し、再見積書の合計（または項目ごとの合意額）から実際の削減額を計算する。
+ * 項目の結果は判定ルール（rule_id）ごとに集計し、どのルールが実際に通用しているかを確認できるようにする。
+ */
+
+import type { DiagnosisItem, DiagnosisResult } from "@/lib/types";
+import { toNonNegative, toNumberOrNull } from "@/lib/number-utils";
+
+/** 交渉結果（accepted: 削除／減額に応じた, partial: 一部減額, refused: 断られた, not_asked: 交渉していない） */
+export type NegotiationOutcomeStatus = "accepted" | "partial" | "refused" | "not_asked";
+
+export const OUTCOME_STATUSES: NegotiationOutcomeStatus[] = ["accepted", "partial", "refused", "not_asked"];
+
+/** 1項目分の交渉結果 */
+export interface ItemOutcome {
+  /** 診断結果 items のインデックス */
+  item_index: number;
+  item_name: string;
+  rule_id: string | null;
+  diagnosis_status: "negotiable" | "cut";
+  status: NegotiationOutcomeStatus;
+  price_original: number | null;
+  /** 診断での適正額（削除推奨は0） */
+  price_expected: number;
+  /** 合意した金額（accepted: 適正額, partial: 入力値, refused/not_asked: 元の金額） */
+  price_agreed: number | null;
+}
+
+/** 再見積書（アップロードされた2枚目の見積書）の要約 */
+export interface RevisedEstimate {
+  total: number;
+  line_items: { name: string; price: number | null }[];
+  uploaded_at: string;
+}
+
+/** 案件の交渉結果 */
+export interface CaseOutcome {
+  items: ItemOutcome[];
+  revised_estimate: RevisedEstimate | null;
+  /** 診断時の削減可能額（discount_amount） */
+  expected_savings: number;
+  /** 実際の削減額（再見積書があれば合計の差、なければ項目ごとの合意額から計算） */
+  realized_savings: number;
+  /** realized_savings の計算元 */
+  realized_source: "revised_estimate" | "items";
+  /** 削減可能額に対する実現率（%、削減可能額が0なら null） */
+  realization_rate: number | null;
+  updated_at: string;
+}
+
+/** 項目ごとの交渉結果の入力（API・画面から） */
+export interface ItemOutcomeInput {
+  item_index: number;
+  status: NegotiationOutcomeStatus;
+  price_agreed?: number | null;
+}
+
+/** ルール別の集計（outcomeStats） */
+export interface OutcomeStats {
+  cases: number;
+  expected_savings_total: number;
+  realized_savings_total: number;
+  rules: Record<string, Record<NegotiationOutcomeStatus, number>>;
+}
+
+/**
+ * 交渉結果の記録対象の項目（交渉可・削除推奨）
+ */
+export function listOutcomeTargets(result: Partial<DiagnosisResult>): { index: number; item: DiagnosisItem }[] {
+  return (result.items ?? [])
+    .map((item, index) => ({ index, item }))
+    .filter(({ item }) => item.status === "negotiable" || item.status === "cut");
+}
+
+/**
+ * 入力値を検証して項目ごとの交渉結果に変換（対象外・不正な入力は無視）
+ */
+export function normalizeOutcomeInputs(result: Partial<DiagnosisResult>, raw: unknown): ItemOutcome[] {
+  const inputs = Array.isArray(raw) ? raw : [];
+  const byIndex = new Map<number, ItemOutcomeInput>();
+  for (const input of inputs) {
+    const index = Number(input?.item_index);
+    if (!Number.isInteger(index) || !OUTCOME_STATUSES.includes(input?.status)) continue;
+    byIndex.set(index, { item_index: index, status: input.status, price_agreed: toNumberOrNull(input.price_agreed) });
+  }
+
+  return listOutcomeTargets(result).map(({ index, item }) =>
+    buildItemOutcome(index, item, byIndex.get(index) ?? { item_index: index, status: "not_asked" })
+  );
+}
+
+/**
+ * 案件の交渉結果を計算
+ */
+export function buildCaseOutcome(
+  result: Partial<DiagnosisResult>,
+  items: ItemOutcome[],
+  revisedEstimate: RevisedEstimate | null
+): CaseOutcome {
+  const expected = toNonNegative(result.discount_amount);
+  const fromItems = items.reduce((sum, item) => {
+    if (item.price_original === null || item.price_agreed === null) return sum;
+    return sum + Math.max(0, item.price_original - item.price_agreed);
+  }, 0);
+  const realized = revisedEstimate
+    ? Math.max(0, toNonNegative(result.total_original) - revisedEstimate.total)
+    : fromItems;
+
+  return {
+    items,
+    revised_estimate: revisedEstimate,
+    expected_savings: expected,
+    realized_savings: realized,
+    realized_source: revisedEstimate ? "revised_estimate" : "items",
+    realization_rate: expected > 0 ? Math.round((realized / expected) * 1000) / 10 : null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * 集計のカウンターごとの増減（同じ案件の再記録は前回分を差し引いてから加算）
+ * キーは cases / expected_savings_total / realized_savings_total / rule:{rule_id}:{status}
+ * @param previous 集計済みの交渉結果（初回は null）
+ * @param next 集計する交渉結果（集計から外す場合は null）
+ */
+export function outcomeStatsDeltas(previous: CaseOutcome | null, next: CaseOutcome | null): Record<string, number> {
+  const deltas: Record<string, number> = {};
+  const add = (field: string, amount: number) => {
+    if (amount !== 0) deltas[field] = (deltas[field] ?? 0) + amount;
+  };
+  const adjust = (outcome: CaseOutcome, sign: 1 | -1) => {
+    add("cases", sign);
+    add("expected_savings_total", sign * outcome.expected_savings);
+    add("realized_savings_total", sign * outcome.realized_savings);
+    for (const item of outcome.items) {
+      add(`rule:${item.rule_id ?? "unknown"}:${item.status}`, sign);
+    }
+  };
+
+  if (previous) adjust(previous, -1);
+  if (next) adjust(next, 1);
+  // 打ち消し合ったカウンターは更新しない
+  return Object.fromEntries(Object.entries(deltas).filter(([, amount]) => amount !== 0));
+}
+
+/**
+ * カウンターから集計を組み立てる
+ */
+export function parseOutcomeStats(counters: Record<string, number>): OutcomeStats {
+  const stats: OutcomeStats = {
+    cases: counters.cases ?? 0,
+    expected_savings_total: counters.expected_savings_total ?? 0,
+    realized_savings_total: counters.realized_savings_total ?? 0,
+    rules: {},
+  };
+  for (const [field, count] of Object.entries(counters)) {
+    const [prefix, ruleId, status] = field.split(":");
+    if (prefix !== "rule" || !OUTCOME_STATUSES.includes(status as NegotiationOutcomeStatus)) continue;
+    stats.rules[ruleId] ??= emptyStatusCounts();
+    stats.rules[ruleId][status as NegotiationOutcomeStatus] = count;
+  }
+  return stats;
+}
+
+function buildItemOutcome(index: number, item: DiagnosisItem, input: ItemOutcomeInput): ItemOutcome {
+  const diagnosisStatus = item.status === "cut" ? "cut" : "negotiable";
+  const expected = diagnosisStatus === "cut" ? 0 : toNonNegative(item.price_fair);
+  const original = item.price_original;
+
+  let agreed: number | null = original;
+  if (input.status === "accepted") {
+    agreed = expected;
+  } else if (input.status === "partial") {
+    // 一部減額は合意額が必要（不明・元の金額以上なら元の金額のまま）
+    const value = toNonNegative(input.price_agreed, -1);
+    agreed = value >= 0 && (original === null || value < original) ? value : original;
+  }
+
+  return {
+    item_index: index,
+    item_name: item.name,
+    rule_id: item.rule_id ?? null,
+    diagnosis_status: diagnosisStatus,
+    status: input.status,
+    price_original: original,
+    price_expected: expected,
+    price_agreed: agreed,
+  };
+}
+
+function emptyStatusCounts(): Record<NegotiationOutcomeStatus, number> {
+  return { accepted: 0, partial: 0, refused: 0, not_asked: 0 };
+}
@@ -0,0 +1,287 @@
+/**
+ * 診断結果カード画像（PNG）のサーバー側レンダリング
+ *
+ * 結果ページ・共有ページ・LINE Botで同じ画像を使うため、
+ * ブラウザでのDOMキャプチャ（html2canvas）ではなく next/og の ImageResponse で描画する。
+ * 入力は案件の診断結果、または共有データ（lib/share-redaction.ts で公開範囲を適用済み）。
+ */
+
+import crypto from "crypto";
+import { ImageResponse } from "next/og";
+import type { FlexMessage, ImageMessage } from "@line/bot-sdk";
+import { loadJapaneseFonts, truncateText } from "@/lib/og-image";
+import { buildPostbackAction } from "@/lib/line-postback";
+
+/** スマホで保存・閲覧しやすい縦長（4:5） */
+export const RESULT_CARD_SIZE = { width: 1080, height: 1350 };
+
+/** カードに載せる項目数の上限（超えた分は「ほかN件」） */
+const MAX_CARD_ITEMS = 8;
+
+const BRAND = "賃貸初期費用チェッカー";
+const FOOTER = "AIが見積書を適正か診断";
+
+const STATUS_STYLES: Record<string, { label: string; color: string; background: string }> = {
+  cut: { label: "削除推奨", color: "#b91c1c", background: "#fee2e2" },
+  negotiable: { label: "交渉可", color: "#b45309", background: "#fef3c7" },
+  warning: { label: "要確認", color: "#7c3aed", background: "#ede9fe" },
+  fair: { label: "適正", color: "#15803d", background: "#dcfce7" },
+};
+
+/** LINEに送る結果カードURLの有効期間（LINEが画像を取得するまでの間だけ使えればよい） */
+const SIGNED_URL_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * 結果カード画像のURL（LINEの画像メッセージ・ページからの取得用）
+ * 案件の画像は、有効期限つきの署名をURLに含める（LINEは x-case-token を送れないため）
+ */
+export function buildResultCardUrl(origin: string, source: { caseId: string } | { shareId: string }): string {
+  if ("shareId" in source) {
+    return `${origin}/api/result-card?shareId=${encodeURIComponent(source.shareId)}`;
+  }
+  const expires = Math.floor(Date.now() / 1000) + SIGNED_URL_TTL_SECONDS;
+  const signature = signResultCard(source.caseId, expires);
+  return `${origin}/api/result-card?caseId=${encodeURIComponent(source.caseId)}&expires=${expires}&sig=${signature}`;
+}
+
+/**
+ * 署名つきURLの検証（期限切れ・署名不一致は false）
+ */
+export function verifyResultCardSignature(caseId: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return false;
+  const expected = Buffer.from(signResultCard(caseId, expiresAt), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 案件IDと有効期限のHMAC（鍵は LINE_CHANNEL_SECRET。LINE連携がなければ署名つきURLは使わない）
+ */
+function signResultCard(caseId: string, expires: number): string {
+  const secret = process.env.LINE_CHANNEL_SECRET;
+  if (!secret) {
+    throw new Error("LINE_CHANNEL_SECRET が設定されていません");
+  }
+  return crypto.createHmac("sha256", secret).update(`result-card:${caseId}:${expires}`).digest("hex");
+}
+
+/**
+ * LINEの画像メッセージ（プレビューも同じ画像を使う）
+ */
+export function buildResultCardMessage(origin: string, caseId: string): ImageMessage {
+  const url = buildResultCardUrl(origin, { caseId });
+  return { type: "image", originalContentUrl: url, previewImageUrl: url };
+}
+
+/**
+ * LINEのFlex Message（結果カード画像＋合計＋交渉メール・履歴ボタン）
+ * LINEに直接送られた見積書の診断結果の返信に使う
+ */
+export function buildResultCardFlex(origin: string, caseId: string, result: any): FlexMessage {
+  const yen = (value: unknown) => `¥${Number(value ?? 0).toLocaleString()}`;
+  const row = (label: string, value: string, color = "#333333") => ({
+    type: "box" as const,
+    layout: "horizontal" as const,
+    contents: [
+      { type: "text" as const, text: label, size: "sm" as const, color: "#666666", flex: 0 },
+      { type: "text" as const, text: value, size: "sm" as const, color, weight: "bold" as const, align: "end" as const },
+    ],
+  });
+
+  return {
+    type: "flex",
+    altText: `診断結果: 削減可能額 ${yen(result?.discount_amount)}`,
+    contents: {
+      type: "bubble",
+      hero: {
+        type: "image",
+        url: buildResultCardUrl(origin, { caseId }),
+        size: "full",
+        aspectRatio: "4:5",
+        aspectMode: "cover",
+      },
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          {
+            type: "text",
+            text: result?.property_name && result.property_name !== "物件名入力なし" ? result.property_name : "診断結果",
+            weight: "bold",
+            size: "lg",
+            wrap: true,
+          },
+          row("見積書合計", yen(result?.total_original)),
+          row("適正価格", yen(result?.total_fair)),
+          row("削減可能額", yen(result?.discount_amount), "#E53935"),
+          row("リスクスコア", `${result?.risk_score ?? 0}点`),
+        ],
+      },
+      footer: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          {
+            type: "button",
+            style: "primary",
+            color: "#007AFF",
+            height: "sm",
+            action: buildPostbackAction("交渉メールを作る", "negotiation_email", caseId),
+          },
+          {
+            type: "button",
+            style: "secondary",
+            height: "sm",
+            action: buildPostbackAction("履歴を見る", "history"),
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * 診断結果（または共有データ）から結果カード画像を描画
+ */
+export async function renderResultCard(data: any): Promise<ImageResponse> {
+  const texts: string[] = [BRAND, FOOTER];
+  const body = data?.is_secret_mode ? buildSecretBody(data, texts) : buildDiagnosisBody(data, texts);
+  const fonts = await loadJapaneseFonts(texts.join(""));
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          padding: "64px 72px",
+          gap: 36,
+          background: data?.is_secret_mode
+            ? "linear-gradient(160deg, #1e1b4b 0%, #0f172a 100%)"
+            : "linear-gradient(160deg, #eff6ff 0%, #ffffff 55%, #eef2ff 100%)",
+          ...(fonts.length > 0 ? { fontFamily: "Noto Sans JP" } : {}),
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 36, fontWeight: 700, color: data?.is_secret_mode ? "#c4b5fd" : "#2563eb" }}>
+          {BRAND}
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", flex: 1, gap: 32 }}>{body}</div>
+        <div style={{ display: "flex", fontSize: 26, color: data?.is_secret_mode ? "#94a3b8" : "#64748b" }}>{FOOTER}</div>
+      </div>
+    ),
+    // フォントを取得できなかった場合は既定フォント（日本語は表示されない）で描画する
+    { ...RESULT_CARD_SIZE, fonts: fonts.length > 0 ? fonts : undefined }
+  );
+}
+
+/**
+ * 通常診断: 削減可能額・リスクスコア・項目一覧
+ * 割合表示の共有データ（amount_display: "percentages"）では金額を出さない
+ */
+function buildDiagnosisBody(data: any, texts: string[]): React.ReactElement {
+  const isPercentage = data?.amount_display === "percentages";
+  const yen = (value: unknown) => `¥${Math.max(0, Math.round(Number(value) || 0)).toLocaleString("ja-JP")}`;
+
+  const propertyName =
+    typeof data?.property_name === "string" && data.property_name && data.property_name !== "物件名入力なし"
+      ? truncateText(`${data.property_name}${data.room_number ? ` ${data.room_number}` : ""}`, 28)
+      : "";
+  const discountText = isPercentage ? `-${Math.max(0, Number(data?.discount_rate) || 0)}%` : `-${yen(data?.discount_amount)}`;
+  const totalsText = isPercentage ? "" : `提示額 ${yen(data?.total_original)} → 適正額 ${yen(data?.total_fair)}`;
+  const riskScore = Math.max(0, Math.min(100, Math.round(Number(data?.risk_score) || 0)));
+  const riskText = `リスクスコア ${riskScore}/100`;
+  const headline = typeof data?.headline === "string" && data.headline ? truncateText(data.headline, 30) : "";
+
+  const items: any[] = Array.isArray(data?.items) ? data.items : [];
+  const rows = items.slice(0, MAX_CARD_ITEMS).map((item) => {
+    const style = STATUS_STYLES[item?.status] ?? STATUS_STYLES.fair;
+    return {
+      name: truncateText(String(item?.name ?? "項目"), 18),
+      amount: isPercentage ? `${Number(item?.share_rate) || 0}%` : yen(item?.price_original),
+      ...style,
+    };
+  });
+  const restText = items.length > MAX_CARD_ITEMS ? `ほか${items.length - MAX_CARD_ITEMS}件` : "";
+
+  texts.push(propertyName, "削減できる可能性", discountText, totalsText, riskText, headline, restText);
+  rows.forEach((row) => texts.push(row.name, row.amount, row.label));
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", width: "100%", gap: 32 }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+        {propertyName && <div style={{ display: "flex", fontSize: 32, color: "#334155" }}>{propertyName}</div>}
+        <div style={{ display: "flex", fontSize: 34, color: "#475569" }}>削減できる可能性</div>
+        <div style={{ display: "flex", fontSize: 120, fontWeight: 700, color: "#dc2626" }}>{discountText}</div>
+        {totalsText && <div style={{ display: "flex", fontSize: 30, color: "#334155" }}>{totalsText}</div>}
+        <div style={{ display: "flex", fontSize: 30, fontWeight: 700, color: "#2563eb" }}>{riskText}</div>
+        {headline && <div style={{ display: "flex", fontSize: 34, fontWeight: 700, color: "#1e293b" }}>{headline}</div>}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 14,
+          padding: 32,
+          borderRadius: 28,
+          backgroundColor: "#ffffff",
+          border: "3px solid #e2e8f0",
+        }}
+      >
+        {rows.map((row, index) => (
+          <div key={index} style={{ display: "flex", alignItems: "center", gap: 20 }}>
+            <div
+              style={{
+                display: "flex",
+                width: 150,
+                justifyContent: "center",
+                fontSize: 24,
+                fontWeight: 700,
+                color: row.color,
+                backgroundColor: row.background,
+                borderRadius: 12,
+                padding: "6px 0",
+              }}
+            >
+              {row.label}
+            </div>
+            <div style={{ display: "flex", flex: 1, fontSize: 30, color: "#1e293b" }}>{row.name}</div>
+            <div style={{ display: "flex", fontSize: 30, fontWeight: 700, color: "#334155" }}>{row.amount}</div>
+          </div>
+        ))}
+        {restText && <div style={{ display: "flex", fontSize: 26, color: "#64748b" }}>{restText}</div>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 裏コマンド（占い）: タイトル・サマリー・ラッキー情報
+ */
+function buildSecretBody(data: any, texts: string[]): React.ReactElement {
+  const title = truncateText(String(data?.fortune_title || "スペシャル診断"), 20);
+  const subtitle = typeof data?.fortune_subtitle === "string" ? truncateText(data.fortune_subtitle, 30) : "";
+  const summary = typeof data?.fortune_summary === "string" ? truncateText(data.fortune_summary, 160) : "";
+  const lucky = [
+    data?.fortune_lucky_color ? `ラッキーカラー: ${data.fortune_lucky_color}` : "",
+    data?.fortune_lucky_number ? `ラッキーナンバー: ${data.fortune_lucky_number}` : "",
+    data?.fortune_power_spot ? `パワースポット: ${truncateText(String(data.fortune_power_spot), 20)}` : "",
+  ].filter(Boolean);
+
+  texts.push(title, subtitle, summary, ...lucky);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", flex: 1, justifyContent: "center", gap: 36 }}>
+      <div style={{ display: "flex", fontSize: 80, fontWeight: 700, color: "#f5d0fe" }}>{title}</div>
+      {subtitle && <div style={{ display: "flex", fontSize: 38, color: "#e2e8f0" }}>{subtitle}</div>}
+      {summary && <div style={{ display: "flex", fontSize: 32, lineHeight: 1.6, color: "#cbd5e1" }}>{summary}</div>}
+      {lucky.map((line) => (
+        <div key={line} style={{ display: "flex", fontSize: 30, color: "#fde68a" }}>{line}</div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+/**
+ * 判定ルールエンジン
+ *
+ * 明細行（ExtractedOtherItem）と図面の抽出結果から、各項目の
+ * status / price_fair / reason を決める純粋関数群。
+ * AI・画像・KVには依存せず、同じ入力からは常に同じ判定を返す。
+ *
+ * ルールは RULES の先頭から順に評価し、最初にマッチしたものを適用する。
+ */
+
+import type { DiagnosisItem, DiagnosisStatus, ExtractedFacts, ExtractedOtherItem } from "@/lib/types";
+import { formatYen, toNonNegative } from "@/lib/number-utils";
+
+/** 火災保険の目安額（これを超えると要確認） */
+export const FIRE_INSURANCE_BENCHMARK = 15000;
+/** 仲介手数料の上限（0.5ヶ月 + 消費税10%） */
+export const BROKERAGE_FAIR_RATIO = 0.55;
+/** 仲介手数料の上限超過とみなす誤差（端数処理のぶれを許容） */
+const BROKERAGE_TOLERANCE = 100;
+
+const REASON_FAIR = "適正な金額です。";
+const REASON_WHITELIST = "物件固有の条件であり、適正な費用です。";
+
+/** ルール判定に必要な前提情報 */
+export interface RuleContext {
+  hasFlyer: boolean;
+  flyer: ExtractedFacts | null;
+  /** 家賃（不明なら0） */
+  rent: number;
+}
+
+/** ルール評価時の入力 */
+export interface RuleInput {
+  line: ExtractedOtherItem;
+  /** 請求金額（読み取れなかった場合は0） */
+  amount: number;
+  /** 図面側で同じ費用として記載されていた行 */
+  flyerLine: ExtractedOtherItem | null;
+  context: RuleContext;
+}
+
+/** ルールの判定結果（基本項目に上書きする値） */
+export interface RuleVerdict {
+  status: DiagnosisStatus;
+  price_fair: number | null;
+  reason: string;
+  requires_confirmation?: boolean;
+  listed_in_flyer?: boolean | null;
+  flyer_price?: number | null;
+  is_insurance?: boolean;
+}
+
+export interface Rule {
+  /** ルールID（DiagnosisItem.rule_id に記録される） */
+  id: string;
+  /** ルールの説明（デバッグ・管理画面用） */
+  description: string;
+  /** 対象となる項目名 */
+  pattern: RegExp;
+  evaluate: (input: RuleInput) => RuleVerdict;
+}
+
+const fair = ({ line }: RuleInput, reason = REASON_FAIR): RuleVerdict => ({
+  status: "fair",
+  price_fair: line.value.value,
+  reason,
+});
+
+export const RULES: Rule[] = [
+  {
+    id: "brokerage",
+    description: "仲介手数料: 賃料の0.55ヶ月（税込）を上限とし、超過分を交渉対象にする",
+    pattern: /仲介/,
+    evaluate: (input) => {
+      const { amount, context } = input;
+      if (context.rent <= 0 || amount <= 0) return fair(input, REASON_WHITELIST);
+      const brokerageFair = Math.round(context.rent * BROKERAGE_FAIR_RATIO);
+      if (amount - brokerageFair > BROKERAGE_TOLERANCE) {
+        return {
+          status: "negotiable",
+          price_fair: brokerageFair,
+          reason: `事前の同意がない場合、法律的に賃料の0.5ヶ月(税別)が原則です。交渉により${brokerageFair.toLocaleString()}円まで減額できる可能性があります。`,
+        };
+      }
+      return fair(input);
+    },
+  },
+  {
+    id: "fire_insurance",
+    description: "火災保険: 図面の方が安ければ図面金額、そうでなければ1.5万円を目安に要確認",
+    pattern: /(火災保険|家財保険|借家人賠償|住宅総合保険)/,
+    evaluate: (input) => {
+      const { amount, flyerLine, context } = input;
+      const flyerPrice = toNonNegative(flyerLine?.value.value ?? context.flyer?.fire_insurance.value);
+      const insurance = { is_insurance: true, flyer_price: flyerPrice > 0 ? flyerPrice : null };
+      if (context.hasFlyer && flyerPrice > 0 && amount > flyerPrice) {
+        return {
+          ...insurance,
+          status: "negotiable",
+          price_fair: flyerPrice,
+          reason: `募集図面の火災保険料（¥${formatYen(flyerPrice)}）の方が安いため、図面金額を適正額として差額分を削減可能額に反映しました。`,
+          listed_in_flyer: true,
+        };
+      }
+      if (amount > FIRE_INSURANCE_BENCHMARK) {
+        return {
+          ...insurance,
+          status: "warning",
+          price_fair: FIRE_INSURANCE_BENCHMARK,
+          reason: "割高の可能性があります。自分自身で加入が可能か、また可能な場合、詳細の条件を確認しましょう。安いものであれば1.5万円程度で加入可能なものもあります。",
+        };
+      }
+      return { ...fair(input), ...insurance };
+    },
+  },
+  {
+    id: "key_exchange",
+    description: "鍵交換代: 図面に記載がなければ上乗せの可能性として交渉対象、記載があれば要確認",
+    pattern: /(鍵交換|キー交換|シリンダー交換|鍵セット|キーセット)/,
+    evaluate: (input) => {
+      const { amount, flyerLine, context } = input;
+      if (!context.hasFlyer) {
+        return {
+          status: "warning",
+          price_fair: input.line.value.value,
+          reason: "図面が未アップロードのため、鍵交換代の妥当性は要確認です。管理会社への確認後に判断してください。",
+          requires_confirmation: true,
+          listed_in_flyer: null,
+          flyer_price: null,
+        };
+      }
+      const listed = flyerLine !== null || context.flyer?.key_exchange.value != null;
+      if (!listed && amount > 0) {
+        return {
+          status: "negotiable",
+          price_fair: 0,
+          reason: "募集図面に鍵交換代の記載が見当たらないため、見積書への上乗せの可能性があります。削減交渉の対象です。",
+          requires_confirmation: true,
+          listed_in_flyer: false,
+          flyer_price: null,
+        };
+      }
+      return {
+        status: "warning",
+        price_fair: input.line.value.value,
+        reason: "取り外し不可なケースがほとんどですが、稀に外せる場合もあるので念のため確認を推奨します。",
+        listed_in_flyer: listed,
+      };
+    },
+  },
+  {
+    id: "support_service",
+    description: "24時間サポート等: 管理会社指定の場合があるため要確認",
+    pattern: /(24時間|２４時間|24h|安心サポート|ライフサポート|緊急サポート|駆けつけ)/i,
+    evaluate: ({ line }) => ({
+      status: "warning",
+      price_fair: line.value.value,
+      reason: "管理会社指定で必須の場合がありますが、加入義務がない場合もあります。契約前に確認しましょう。",
+    }),
+  },
+  {
+    id: "administrative_fee",
+    description: "事務手数料: 要確認",
+    pattern: /(事務手数料|書類作成|契約事務)/,
+    evaluate: ({ line }) => ({
+      status: "warning",
+      price_fair: line.value.value,
+      reason: "必須の場合もありますが、取り外せる可能性もあるため確認を推奨します。",
+    }),
+  },
+  {
+    id: "bank_transfer_fee",
+    description: "口座振替手数料: 要確認",
+    pattern: /(口座振替|引き落とし|引落)/,
+    evaluate: ({ line }) => ({
+      status: "warning",
+      price_fair: line.value.value,
+      reason: "必須の場合もありますが、取り外せる可能性もあるため確認を推奨します。",
+    }),
+  },
+  {
+    id: "optional_addon",
+    description: "消毒・抗菌などの付帯オプション: 原則削減可能（図面で必須なら交渉対象）",
+    pattern: /(消毒|抗菌|消臭|除菌|害虫|防虫|虫駆除)/,
+    evaluate: ({ flyerLine }) => {
+      if (flyerLine?.requirement === "required") {
+        return {
+          status: "negotiable",
+          price_fair: 0,
+          reason: "図面に記載がありますが、交渉次第で外せる可能性が高いです。削減を試みる価値があります。",
+        };
+      }
+      if (flyerLine?.requirement === "optional") {
+        return { status: "cut", price_fair: 0, reason: "任意のオプションサービスです。不要であれば外せます。" };
+      }
+      return {
+        status: "cut",
+        price_fair: 0,
+        reason: "一般的には任意のオプションサービスです。不要であれば外せます。交渉により削減できます。",
+      };
+    },
+  },
+  {
+    id: "key_money",
+    description: "礼金: 図面で礼金0と明記されている場合のみ削除推奨",
+    pattern: /礼金/,
+    evaluate: (input) => {
+      const flyer = input.context.flyer;
+      if (flyer?.key_money_months.value === 0 && input.amount > 0) {
+        return {
+          status: "cut",
+          price_fair: 0,
+          reason: `募集図面では礼金なし（${flyer.key_money_months.evidence_text}）ですが、見積書に計上されています。`,
+          listed_in_flyer: true,
+        };
+      }
+      return fair(input, REASON_WHITELIST);
+    },
+  },
+];
+
+/** どのルールにもマッチしない項目（敷金・前家賃・保証会社など物件固有の費用） */
+const WHITELIST_RULE: Rule = {
+  id: "whitelist",
+  description: "その他: 物件固有の条件として適正",
+  pattern: /.*/,
+  evaluate: (input) => fair(input, REASON_WHITELIST),
+};
+
+/**
+ * 項目名にマッチするルールを取得（なければ whitelist）
+ */
+export function matchRule(name: string): Rule {
+  return RULES.find((rule) => rule.pattern.test(name)) || WHITELIST_RULE;
+}
+
+/**
+ * 図面側で同じ費用の記載を探す
+ */
+function findFlyerLine(flyer: ExtractedFacts | null, rule: Rule): ExtractedOtherItem | null {
+  if (!flyer || rule === WHITELIST_RULE) return null;
+  return flyer.line_items.find((line) => rule.pattern.test(line.name)) || null;
+}
+
+function describeEvidence(line: ExtractedOtherItem, flyerLine: ExtractedOtherItem | null, hasFlyer: boolean): string {
+  const estimatePart = `見積書「${line.value.evidence_text ?? line.name}」`;
+  if (!hasFlyer) return `${estimatePart}（図面未アップロード）`;
+  if (!flyerLine) return `${estimatePart} / 図面に記載なし`;
+  return `${estimatePart} / 図面「${flyerLine.value.evidence_text ?? flyerLine.name}」`;
+}
+
+/**
+ * 明細行1件をルールで判定
+ */
+export function evaluateLine(line: ExtractedOtherItem, context: RuleContext): DiagnosisItem {
+  const rule = matchRule(line.name);
+  const flyerLine = findFlyerLine(context.flyer, rule);
+  const original = line.value.value;
+
+  const verdict = rule.evaluate({ line, amount: toNonNegative(original), flyerLine, context });
+
+  const item: DiagnosisItem = {
+    name: line.name,
+    price_original: original,
+    evidence: {
+      flyer_evidence: flyerLine?.value.evidence_text ?? null,
+      estimate_evidence: line.value.evidence_text,
+      source_description: describeEvidence(line, flyerLine, context.hasFlyer),
+    },
+    requires_confirmation: original === null,
+    confidence: line.value.confidence,
+    listed_in_flyer: context.hasFlyer ? flyerLine !== null : null,
+    flyer_price: flyerLine?.value.value ?? null,
+    rule_id: rule.id,
+    ...verdict,
+  };
+
+  if (original === null) {
+    item.requires_confirmation = true;
+    item.reason = `${item.reason || "金額の読み取りが不完全です"}（※読み取り要確認）`;
+  }
+  return item;
+}
+
+/**
+ * 明細行をまとめて判定
+ */
+export function evaluateLines(lines: ExtractedOtherItem[], context: RuleContext): DiagnosisItem[] {
+  return lines.map((line) => evaluateLine(line, context));
+}
@@ -0,0 +1,212 @@
+/**
+ * 共有データの公開範囲（プライバシー設定）
+ *
+ * 共有リンクは誰でも閲覧できるため、診断結果から公開用のデータを作る際に
+ * 金額・項目名・固有名詞（物件名・管理会社名・電話番号など）の扱いを選べるようにする。
+ * /api/share のプレビューと保存で同じ関数を使い、プレビューと公開内容が一致するようにする。
+ */
+
+/** 金額の見せ方 */
+export type ShareAmountDisplay = "amounts" | "percentages";
+
+export interface ShareRedactionOptions {
+  /** amounts: 金額を表示 / percentages: 割合（%）のみ表示 */
+  amount_display: ShareAmountDisplay;
+  /** 項目名を一般的な名称に置き換える */
+  hide_item_names: boolean;
+  /** 理由・総評から物件名・会社名・電話番号などを取り除く */
+  strip_proper_nouns: boolean;
+}
+
+export const DEFAULT_SHARE_REDACTION: ShareRedactionOptions = {
+  amount_display: "amounts",
+  hide_item_names: false,
+  strip_proper_nouns: true,
+};
+
+/** 項目名を隠す場合の表示名（判定ルールID → 一般名称） */
+const GENERIC_ITEM_NAMES: Record<string, string> = {
+  brokerage: "仲介手数料",
+  fire_insurance: "火災保険",
+  key_exchange: "鍵交換費用",
+  support_service: "サポートサービス",
+  administrative_fee: "事務手数料",
+  bank_transfer_fee: "振込手数料",
+  optional_addon: "オプション費用",
+  key_money: "礼金",
+};
+
+/** ルール対象外でも一般的な費目（名称に含まれていればその費目名だけを表示） */
+const STANDARD_ITEM_NAMES = ["日割", "前家賃", "賃料", "家賃", "管理費", "共益費", "敷金", "保証料", "保証会社", "町内会費"];
+
+const MASK = "〇〇";
+const AMOUNT_MASK = "〇〇円";
+
+/** 会社名（法人格付き・不動産系の屋号） */
+const COMPANY_PATTERNS = [
+  /(?:株式会社|有限会社|合同会社|（株）|\(株\)|（有）|\(有\))\s*[一-龥ァ-ヶーA-Za-zＡ-Ｚａ-ｚ0-9０-９・&＆]{1,20}/g,
+  /[一-龥ァ-ヶーA-Za-zＡ-Ｚａ-ｚ0-9０-９・&＆]{1,20}\s*(?:株式会社|有限会社|合同会社|（株）|\(株\)|（有）|\(有\))/g,
+  /[一-龥ァ-ヶーA-Za-zＡ-Ｚａ-ｚ]{1,20}(?:不動産|ハウジング|エステート|リアルティ|住販|ホームズ)(?:店)?/g,
+];
+/** 建物名（マンション・ハイツ等の接尾語付き）＋号室 */
+const BUILDING_PATTERN = /[一-龥ァ-ヶーA-Za-zＡ-Ｚａ-ｚ0-9０-９]{1,20}(?:マンション|ハイツ|コーポ|レジデンス|ハイム|荘|ヒルズ|パレス)(?:\s*[0-9０-９]{1,4}号室?)?/g;
+const ROOM_PATTERN = /[0-9０-９]{2,4}号室/g;
+const PHONE_PATTERN = /0\d{1,4}[-‐－ー]\d{1,4}[-‐－ー]\d{3,4}/g;
+const STORE_PATTERN = /[一-龥ァ-ヶー]{1,10}(?:店|支店|営業所)(?![舗頭内])/g;
+/** 金額（¥80,000 / 80,000円 / 8万円） */
+const AMOUNT_PATTERN = /[¥￥]\s?[0-9０-９][0-9０-９,，]*(?:円)?|[0-9０-９][0-9０-９,，.]*\s?(?:万)?円/g;
+
+/**
+ * リクエストの値から公開範囲設定を作る（不正な値は既定値）
+ */
+export function normalizeRedactionOptions(raw: unknown): ShareRedactionOptions {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof ShareRedactionOptions, unknown>>;
+  return {
+    amount_display: value.amount_display === "percentages" ? "percentages" : DEFAULT_SHARE_REDACTION.amount_display,
+    hide_item_names:
+      typeof value.hide_item_names === "boolean" ? value.hide_item_names : DEFAULT_SHARE_REDACTION.hide_item_names,
+    strip_proper_nouns:
+      typeof value.strip_proper_nouns === "boolean" ? value.strip_proper_nouns : DEFAULT_SHARE_REDACTION.strip_proper_nouns,
+  };
+}
+
+/**
+ * 診断結果から公開用の共有データを作る
+ * 物件名・部屋番号・抽出JSON・デバッグ情報は設定に関係なく含めない
+ */
+export function buildShareData(result: any, options: ShareRedactionOptions): Record<string, unknown> {
+  if (result?.is_secret_mode) {
+    return buildSecretShareData(result);
+  }
+
+  const knownNames = collectKnownNames(result);
+  const scrub = (text: unknown): string => {
+    let cleaned = typeof text === "string" ? text : "";
+    if (options.strip_proper_nouns) cleaned = stripProperNouns(cleaned, knownNames);
+    if (options.amount_display === "percentages") cleaned = cleaned.replace(AMOUNT_PATTERN, AMOUNT_MASK);
+    return cleaned;
+  };
+
+  const totalOriginal = toAmount(result?.total_original);
+  const items: any[] = Array.isArray(result?.items) ? result.items : [];
+  const otherCounter = { count: 0 };
+
+  const sharedItems = items.map((item) => {
+    const name = options.hide_item_names ? genericItemName(item, otherCounter) : scrub(item?.name) || "項目";
+    const base = {
+      name,
+      status: item?.status,
+      reason: scrub(item?.reason),
+      is_insurance: item?.is_insurance,
+    };
+
+    if (options.amount_display === "percentages") {
+      const original = toAmount(item?.price_original);
+      const fair = toAmount(item?.price_fair);
+      return {
+        ...base,
+        price_original: null,
+        price_fair: null,
+        share_rate: totalOriginal > 0 ? roundRate((original / totalOriginal) * 100) : 0,
+        reduction_rate: original > 0 ? roundRate(((original - Math.min(fair, original)) / original) * 100) : 0,
+      };
+    }
+
+    return { ...base, price_original: item?.price_original ?? null, price_fair: item?.price_fair ?? null };
+  });
+
+  const shareData: Record<string, unknown> = {
+    amount_display: options.amount_display,
+    items: sharedItems,
+    pro_review: { content: scrub(result?.pro_review?.content) },
+    risk_score: result?.risk_score,
+    headline: typeof result?.headline === "string" ? scrub(result.headline) : null,
+    extraction_quality: result?.extraction_quality,
+    quality_advice: result?.quality_advice,
+  };
+
+  if (options.amount_display === "percentages") {
+    shareData.discount_rate =
+      totalOriginal > 0 ? roundRate((toAmount(result?.discount_amount) / totalOriginal) * 100) : 0;
+  } else {
+    shareData.total_original = result?.total_original;
+    shareData.total_fair = result?.total_fair;
+    shareData.discount_amount = result?.discount_amount;
+  }
+
+  return shareData;
+}
+
+/**
+ * 固有名詞を伏せ字にする
+ * @param knownNames 診断結果から分かっている物件名・部屋番号（完全一致で置換）
+ */
+export function stripProperNouns(text: string, knownNames: string[] = []): string {
+  let cleaned = text;
+  for (const name of knownNames) {
+    cleaned = cleaned.split(name).join(MASK);
+  }
+  for (const pattern of COMPANY_PATTERNS) {
+    cleaned = cleaned.replace(pattern, MASK);
+  }
+  return cleaned
+    .replace(BUILDING_PATTERN, MASK)
+    .replace(ROOM_PATTERN, MASK)
+    .replace(PHONE_PATTERN, MASK)
+    .replace(STORE_PATTERN, MASK);
+}
+
+/**
+ * 裏コマンド（占い）の共有データ（金額・物件情報を含まないのでそのまま）
+ */
+function buildSecretShareData(result: any): Record<string, unknown> {
+  return {
+    is_secret_mode: result.is_secret_mode,
+    secret_type: result.secret_type,
+    fortune_title: result.fortune_title,
+    fortune_subtitle: result.fortune_subtitle,
+    emoji_char: result.emoji_char,
+    emoji_reason: result.emoji_reason,
+    fortune_person_type: result.fortune_person_type,
+    fortune_items: result.fortune_items,
+    fortune_action_advice: result.fortune_action_advice,
+    fortune_lucky_color: result.fortune_lucky_color,
+    fortune_lucky_number: result.fortune_lucky_number,
+    fortune_power_spot: result.fortune_power_spot,
+    fortune_summary: result.fortune_summary,
+  };
+}
+
+function collectKnownNames(result: any): string[] {
+  // 数字だけの部屋番号は金額と紛れるため「号室」付きの表記だけを対象にする
+  const room = typeof result?.room_number === "string" ? result.room_number.trim() : "";
+  const roomNames = /^[0-9０-９]+$/.test(room) ? [`${room}号室`, `${room}号`] : [room];
+  const names = [
+    result?.property_name,
+    ...roomNames,
+    result?.extracted_facts?.estimate?.property_name?.value,
+    result?.extracted_facts?.flyer?.property_name?.value,
+  ];
+  return [...new Set(names)]
+    .filter((name): name is string => typeof name === "string" && name.trim().length >= 2 && name !== "物件名入力なし")
+    .sort((a, b) => b.length - a.length);
+}
+
+function genericItemName(item: any, otherCounter: { count: number }): string {
+  const generic = typeof item?.rule_id === "string" ? GENERIC_ITEM_NAMES[item.rule_id] : undefined;
+  if (generic) return generic;
+  if (item?.is_insurance) return GENERIC_ITEM_NAMES.fire_insurance;
+  const standard = STANDARD_ITEM_NAMES.find((term) => String(item?.name ?? "").includes(term));
+  if (standard) return standard === "日割" ? "日割り家賃" : standard;
+  otherCounter.count += 1;
+  return `その他費用${otherCounter.count}`;
+}
+
+function toAmount(value: unknown): number {
+  const num = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(num) && num > 0 ? num : 0;
+}
+
+function roundRate(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -7,6 +7,8 @@
  * 3. evidenceがなければvalueはnull（0にしない）
  */
 
+import type { LabeledImageQuality } from "@/lib/extraction-quality";
+
 // ====================================
 // Google Analytics (GA4) 型定義
 // ====================================
@@ -84,6 +86,9 @@ export interface ExtractedFacts {
   
   // その他の項目（動的）
   other_items: ExtractedOtherItem[];
+
+  // 明細行（見積書: 請求行を記載順に / 図面: 条件欄の費用記載）
+  line_items: ExtractedOtherItem[];
   
   // メタ情報
   extraction_timestamp: string;
@@ -94,6 +99,8 @@ export interface ExtractedFacts {
 export interface ExtractedOtherItem {
   name: string;
   value: ExtractedField<number>;
+  /** 図面上の「必須」「任意」表記（読み取れない場合はnull） */
+  requirement?: "required" | "optional" | null;
 }
 
 /** 空の抽出フィールドを生成 */
@@ -130,11 +137,19 @@ export function createEmptyExtractedFacts(source: ExtractionSource): ExtractedFa
     contract_start_date: createEmptyField<string>(source),
     move_in_date: createEmptyField<string>(source),
     other_items: [],
+    line_items: [],
     extraction_timestamp: new Date().toISOString(),
     total_items_found: 0,
   };
 }
 
+/** 抽出フェーズの出力（見積書と図面を別々に保持） */
+export interface ExtractionResult {
+  estimate: ExtractedFacts;
+  /** 図面・条件欄がアップロードされていない場合はnull */
+  flyer: ExtractedFacts | null;
+}
+
 // ====================================
 // 検証フェーズ用の型定義
 // ====================================
@@ -142,15 +157,21 @@ export function createEmptyExtractedFacts(source: ExtractionSource): ExtractedFa
 /** 矛盾検出結果 */
 export interface ConflictItem {
   field_name: string;
+  /** 表示用の項目名（例: "礼金"） */
+  label?: string;
   flyer_value: ExtractedField<number | string | null>;
   estimate_value: ExtractedField<number | string | null>;
   conflict_type: "value_mismatch" | "flyer_null_estimate_exists" | "low_confidence";
   needs_verification: boolean;
+  /** 表示用の説明（例: "図面では礼金0ヶ月、見積書では1ヶ月です。"） */
+  description?: string;
 }
 
 /** 検証結果 */
 export interface VerificationResult {
   field_name: string;
+  /** 再読み取りした側（見積書 or 図面） */
+  source?: ExtractionSource;
   verified_value: ExtractedField<number | string | null>;
   verification_status: "confirmed" | "unconfirmed" | "requires_manual_check";
   verification_note: string;
@@ -180,6 +201,14 @@ export interface DiagnosisItem {
   requires_confirmation: boolean;
   /** 信頼度 */
   confidence: number;
+  /** 火災保険の項目か */
+  is_insurance?: boolean;
+  /** 図面に記載があるか（図面未アップロード時はnull） */
+  listed_in_flyer?: boolean | null;
+  /** 図面記載金額 */
+  flyer_price?: number | null;
+  /** 適用された判定ルールID（lib/rule-engine.ts） */
+  rule_id?: string;
 }
 
 /** 診断結果全体 */
@@ -201,19 +230,38 @@ export interface DiagnosisResult {
   has_unconfirmed_items: boolean;
   unconfirmed_item_names: string[];
   extraction_quality: "high" | "medium" | "low";
+  /** 読み取り品質が低い場合の再撮影アドバイス */
+  quality_advice?: string[];
+  /** 図面（または条件欄）がアップロードされているか */
+  has_flyer?: boolean;
+  /** 図面と見積書の矛盾（図面未アップロード時は低信頼度項目のみ） */
+  conflicts?: ConflictItem[];
   
   // デバッグ用
   extraction_log?: ExtractionLog;
+  /** 診断の入力になった抽出JSON（再診断・監査用） */
+  extracted_facts?: ExtractionResult;
+  /** 抽出JSON以外の診断の入力（再診断で同じ結果を再現するために保存） */
+  diagnosis_inputs?: DiagnosisInputs;
   /** ヘッドライン判定のデバッグ情報（APIレスポンスに含める） */
   debug?: {
     rent_extracted: number;
+    rent_inferred?: number;
+    rent_source?: "extracted" | "inferred" | "missing";
     brokerage_amount: number;
     ratio: number;
     warning_count: number;
+    has_flyer?: boolean;
     logic_path: string;
   };
 }
 
+/** 再読み取りの結果と画像品質（lib/diagnosis.ts の DiagnoseOptions に対応） */
+export interface DiagnosisInputs {
+  verification: VerificationResult[];
+  image_quality: LabeledImageQuality[];
+}
+
 /** 抽出ログ（デバッグ用） */
 export interface ExtractionLog {
   flyer_extracted: boolean;
@@ -312,6 +360,26 @@ export const EXTRACTION_JSON_SCHEMA = {
       },
       required: ["value", "evidence_text", "confidence", "page_or_image_index"]
     },
+    brokerage_fee_tax_included: {
+      type: "object",
+      properties: {
+        value: { type: ["boolean", "null"] },
+        evidence_text: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+        page_or_image_index: { type: "integer" }
+      },
+      required: ["value", "evidence_text", "confidence", "page_or_image_index"]
+    },
+    administrative_fee: {
+      type: "object",
+      properties: {
+        value: { type: ["number", "null"] },
+        evidence_text: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+        page_or_image_index: { type: "integer" }
+      },
+      required: ["value", "evidence_text", "confidence", "page_or_image_index"]
+    },
     guarantee_fee: {
       type: "object",
       properties: {
@@ -362,6 +430,16 @@ export const EXTRACTION_JSON_SCHEMA = {
       },
       required: ["value", "evidence_text", "confidence", "page_or_image_index"]
     },
+    renewal_fee: {
+      type: "object",
+      properties: {
+        value: { type: ["number", "null"] },
+        evidence_text: { type: ["string", "null"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+        page_or_image_index: { type: "integer" }
+      },
+      required: ["value", "evidence_text", "confidence", "page_or_image_index"]
+    },
     free_rent_months: {
       type: "object",
       properties: {
@@ -392,6 +470,27 @@ export const EXTRACTION_JSON_SCHEMA = {
         required: ["name", "value"]
       }
     },
+    line_items: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          value: {
+            type: "object",
+            properties: {
+              value: { type: ["number", "null"] },
+              evidence_text: { type: ["string", "null"] },
+              confidence: { type: "number", minimum: 0, maximum: 1 },
+              page_or_image_index: { type: "integer" }
+            },
+            required: ["value", "evidence_text", "confidence", "page_or_image_index"]
+          },
+          requirement: { type: ["string", "null"], enum: ["required", "optional", null] }
+        },
+        required: ["name", "value"]
+      }
+    },
     total_items_found: { type: "integer" }
   },
   required: [
@@ -399,7 +498,7 @@ export const EXTRACTION_JSON_SCHEMA = {
     "deposit_months", "key_money_months", "brokerage_fee",
     "guarantee_fee", "fire_insurance", "support_service",
     "key_exchange", "cleaning_fee", "free_rent_months",
-    "other_items", "total_items_found"
+    "other_items", "line_items", "total_items_found"
   ]
 };
 
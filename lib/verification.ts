@@ -0,0 +1,271 @@
+/**
+ * 検証フェーズ（再読み取り）
+ *
+ * 矛盾・低信頼度として検出されたフィールドだけを対象に、
+ * 該当する画像（見積書 or 図面・条件欄）をAIに再度読ませて値を確かめる。
+ * 判定は行わず、VerificationResult を返して抽出JSONを上書きするのみ。
+ */
+
+import type {
+  ConflictItem,
+  ExtractedFacts,
+  ExtractedField,
+  ExtractionResult,
+  ExtractionSource,
+  VerificationResult,
+} from "@/lib/types";
+import { toNumberOrNull } from "@/lib/number-utils";
+import { LOW_CONFIDENCE_THRESHOLD, getComparedFieldLabel, lineMatchesField } from "@/lib/conflict-detection";
+
+/** 1回の再読み取りで確認するフィールド数の上限（応答時間対策） */
+export const MAX_VERIFICATION_TARGETS = 6;
+
+/** 再読み取りの対象 */
+export interface VerificationTarget {
+  field_name: string;
+  label: string;
+  source: ExtractionSource;
+  current: ExtractedField<number | string | null>;
+  conflict_type: ConflictItem["conflict_type"];
+}
+
+/**
+ * 矛盾リストから再読み取りの対象を選ぶ
+ * - value_mismatch: 見積書・図面の両方
+ * - flyer_null_estimate_exists: 図面側（本当に記載がないか）
+ * - low_confidence: 信頼度が低い側
+ */
+export function selectVerificationTargets(conflicts: ConflictItem[]): VerificationTarget[] {
+  const targets: VerificationTarget[] = [];
+
+  for (const conflict of conflicts) {
+    if (!conflict.needs_verification) continue;
+    const label = conflict.label ?? getComparedFieldLabel(conflict.field_name);
+    const push = (source: ExtractionSource) =>
+      targets.push({
+        field_name: conflict.field_name,
+        label,
+        source,
+        current: source === "flyer" ? conflict.flyer_value : conflict.estimate_value,
+        conflict_type: conflict.conflict_type,
+      });
+
+    if (conflict.conflict_type === "value_mismatch") {
+      push("estimate");
+      push("flyer");
+    } else if (conflict.conflict_type === "flyer_null_estimate_exists") {
+      push("flyer");
+    } else {
+      for (const field of [conflict.estimate_value, conflict.flyer_value]) {
+        if (field.value !== null && field.confidence < LOW_CONFIDENCE_THRESHOLD) push(field.source);
+      }
+    }
+  }
+
+  return targets.slice(0, MAX_VERIFICATION_TARGETS);
+}
+
+/**
+ * 再読み取りに必要な画像のインデックスを返す
+ * @param imageSources 送信済み画像・ページごとの読み取り元（送信順）
+ */
+export function selectVerificationImageIndexes(
+  targets: VerificationTarget[],
+  imageSources: ExtractionSource[]
+): number[] {
+  const needed = new Set(targets.map((target) => target.source));
+  return imageSources.flatMap((source, index) => (needed.has(source) ? [index] : []));
+}
+
+/**
+ * 再読み取り用プロンプトを生成
+ * @param imageLabels 送信する画像の説明（送信順）
+ */
+export function buildVerificationPrompt(targets: VerificationTarget[], imageLabels: string[]): string {
+  const fieldList = targets
+    .map((target, idx) => {
+      const where = target.source === "flyer" ? "募集図面・条件欄" : "見積書";
+      const current = target.current.value !== null ? `（前回の読み取り: ${target.current.evidence_text ?? target.current.value}）` : "（前回は読み取れず）";
+      return `${idx + 1}. field_name: "${target.field_name}" / source: "${target.source}" — ${where}の「${target.label}」${current}`;
+    })
+    .join("\n");
+
+  return `
+あなたは賃貸の見積書・募集図面（マイソク）を読み取るOCRオペレーターです。
+前回の読み取りで不確実だった項目だけを、画像を拡大するつもりで丁寧に再確認してください。
+前回の読み取り値に引きずられず、画像に書かれている文字だけを根拠にしてください。
+
+## 【画像の説明】
+${imageLabels.map((label, idx) => `- ${idx + 1}枚目: ${label}`).join("\n")}
+
+## 【再確認する項目】
+${fieldList}
+
+## 【ルール】
+1. 画像上に記載が見つかった場合は found: true とし、value（円または月数の数値）と evidence_text（画像上の文字列そのまま）を入れること
+2. 記載が見つからない場合は found: false、value: null、evidence_text: null とすること
+3. confidence は読み取りの確からしさ（0〜1）。かすれ・見切れで自信がない場合は0.6未満にすること
+4. page_or_image_index は読み取った画像の番号（1枚目=0）
+
+## 【出力形式】
+Markdown記法は含めず、純粋なJSONだけを返してください。
+{
+  "results": [
+    { "field_name": "key_money_months", "source": "flyer", "found": true, "value": 0, "evidence_text": "礼金 なし", "confidence": 0.9, "page_or_image_index": 1 }
+  ]
+}
+`;
+}
+
+/**
+ * AI応答テキストを VerificationResult に変換
+ * @param imageIndexes 送信した画像の元のインデックス（page_or_image_index の変換用）
+ */
+export function parseVerificationResponse(
+  responseText: string,
+  targets: VerificationTarget[],
+  imageIndexes: number[]
+): VerificationResult[] {
+  const cleanedText = responseText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  const raw = JSON.parse(cleanedText);
+  const rawResults: any[] = Array.isArray(raw?.results) ? raw.results : [];
+
+  return targets.map((target) => {
+    const found = rawResults.find((r) => r?.field_name === target.field_name && r?.source === target.source);
+    return judgeVerification(target, found, imageIndexes);
+  });
+}
+
+/**
+ * 再読み取りができなかった場合（AIエラー等）の結果
+ */
+export function buildUnconfirmedResults(targets: VerificationTarget[], note: string): VerificationResult[] {
+  return targets.map((target) => ({
+    field_name: target.field_name,
+    source: target.source,
+    verified_value: target.current,
+    verification_status: "unconfirmed",
+    verification_note: note,
+  }));
+}
+
+function judgeVerification(target: VerificationTarget, raw: any, imageIndexes: number[]): VerificationResult {
+  if (!raw) {
+    return {
+      field_name: target.field_name,
+      source: target.source,
+      verified_value: target.current,
+      verification_status: "unconfirmed",
+      verification_note: "再読み取りの応答に含まれていませんでした",
+    };
+  }
+
+  const evidence = typeof raw.evidence_text === "string" && raw.evidence_text.trim() ? raw.evidence_text.trim() : null;
+  const value = raw.found === true && evidence !== null ? toNumberOrNull(raw.value) : null;
+  const confidence = Math.max(0, Math.min(1, toNumberOrNull(raw.confidence) ?? 0.5));
+  const sentIndex = toNumberOrNull(raw.page_or_image_index);
+  const verifiedValue: ExtractedField<number | string | null> = {
+    value,
+    evidence_text: value !== null ? evidence : null,
+    confidence: value !== null ? confidence : 0,
+    source: target.source,
+    page_or_image_index:
+      sentIndex !== null && imageIndexes[sentIndex] !== undefined
+        ? imageIndexes[sentIndex]
+        : target.current.page_or_image_index,
+    extraction_note: "再読み取り",
+  };
+
+  const base = { field_name: target.field_name, source: target.source, verified_value: verifiedValue };
+
+  if (value === null) {
+    // 図面に本当に記載がないことを確認できた場合は「記載なし」で確定
+    if (target.conflict_type === "flyer_null_estimate_exists" && raw.found === false) {
+      return { ...base, verification_status: "confirmed", verification_note: `図面に${target.label}の記載がないことを確認しました` };
+    }
+    return { ...base, verification_status: "requires_manual_check", verification_note: `${target.label}を再読み取りできませんでした` };
+  }
+
+  if (confidence < LOW_CONFIDENCE_THRESHOLD) {
+    return { ...base, verification_status: "requires_manual_check", verification_note: `${target.label}の再読み取りも不確実です（${evidence}）` };
+  }
+
+  const previous = toNumberOrNull(target.current.value);
+  const note =
+    previous !== null && previous !== value
+      ? `再読み取りで${target.label}を ${previous} → ${value} に訂正しました（${evidence}）`
+      : `再読み取りで${target.label}を確認しました（${evidence}）`;
+  return { ...base, verification_status: "confirmed", verification_note: note };
+}
+
+/**
+ * 確定した再読み取り結果を抽出JSONに反映
+ * 診断は明細行から判定するため、対応する明細行の金額も同じ値に更新する
+ */
+export function applyVerificationResults(
+  extraction: ExtractionResult,
+  results: VerificationResult[]
+): ExtractionResult {
+  const estimate = cloneFacts(extraction.estimate);
+  const flyer = extraction.flyer ? cloneFacts(extraction.flyer) : null;
+
+  for (const result of results) {
+    if (result.verification_status !== "confirmed" || result.verified_value.value === null) continue;
+    const facts = result.source === "flyer" ? flyer : estimate;
+    if (!facts || !(result.field_name in facts)) continue;
+
+    const key = result.field_name as keyof ExtractedFacts;
+    const current = facts[key] as ExtractedField<unknown>;
+    // 固定フィールドが空で明細行から値を補完していた場合は、固定フィールドは空のままにする
+    if (current.value !== null || !lineMatchesAny(facts, result.field_name)) {
+      (facts[key] as ExtractedField<unknown>) = result.verified_value;
+    }
+
+    // 同じ規則に当たる明細行が複数あっても（火災保険と家財保険など）、読み直した1行だけを書き換える
+    const lineIndex = findSourceLineIndex(facts, result.field_name, current);
+    if (lineIndex >= 0) {
+      facts.line_items[lineIndex] = {
+        ...facts.line_items[lineIndex],
+        value: { ...(result.verified_value as ExtractedField<number>) },
+      };
+    }
+  }
+
+  return { estimate, flyer };
+}
+
+/**
+ * 再読み取りの対象になった明細行を探す
+ * 固定フィールドに値があればその根拠（根拠テキスト、なければ同じ画像の同じ金額）に一致する行、
+ * なければ矛盾検出と同じく最初に一致する行
+ */
+function findSourceLineIndex(
+  facts: ExtractedFacts,
+  fieldName: string,
+  current: ExtractedField<unknown>
+): number {
+  const indexes = facts.line_items
+    .map((line, index) => (lineMatchesField(fieldName, line.name) ? index : -1))
+    .filter((index) => index >= 0);
+  if (indexes.length === 0 || current.value === null) return indexes[0] ?? -1;
+
+  const byEvidence = indexes.find((index) => {
+    const evidence = facts.line_items[index].value.evidence_text;
+    return !!evidence && !!current.evidence_text && current.evidence_text.includes(evidence);
+  });
+  if (byEvidence !== undefined) return byEvidence;
+
+  const byPage = indexes.find((index) => {
+    const line = facts.line_items[index].value;
+    return line.value === current.value && line.page_or_image_index === current.page_or_image_index;
+  });
+  return byPage ?? indexes[0];
+}
+
+function lineMatchesAny(facts: ExtractedFacts, fieldName: string): boolean {
+  return facts.line_items.some((line) => lineMatchesField(fieldName, line.name));
+}
+
+function cloneFacts(facts: ExtractedFacts): ExtractedFacts {
+  return { ...facts, line_items: [...facts.line_items], other_items: [...facts.other_items] };
+}
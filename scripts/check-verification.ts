@@ -0,0 +1,144 @@
+/**
+ * 再読み取り（検証フェーズ）→ 診断のチェック
+ *
+ * npm run check:verification
+ *
+ * 再読み取りで確定した金額が、抽出JSONの固定フィールドだけでなく診断（明細行からの判定）にも
+ * 使われることを確認する。Gemini は呼ばず、lib/document-analysis.ts と同じ順で
+ * applyVerificationResults → diagnose を実行する。
+ */
+
+import assert from "node:assert/strict";
+import { normalizeExtractionResult } from "@/lib/extraction";
+import { applyVerificationResults } from "@/lib/verification";
+import { diagnose } from "@/lib/diagnosis";
+import type { VerificationResult } from "@/lib/types";
+
+interface VerificationCheck {
+  name: string;
+  /** 抽出JSON（見積書） */
+  estimate: Record<string, unknown>;
+  verification: VerificationResult[];
+  /** 診断結果の項目名 → 期待する請求金額 */
+  expectPrices: Record<string, number>;
+  /** 抽出JSONの固定フィールド → 期待する値 */
+  expectFields?: Record<string, number | null>;
+}
+
+const field = (value: number, evidence: string) => ({ value, evidence_text: evidence, confidence: 0.6 });
+
+const confirmed = (fieldName: string, value: number): VerificationResult => ({
+  field_name: fieldName,
+  source: "estimate",
+  verified_value: {
+    value,
+    evidence_text: `${value.toLocaleString()}円`,
+    confidence: 0.95,
+    source: "estimate",
+    page_or_image_index: 0,
+  },
+  verification_status: "confirmed",
+  verification_note: "再読み取りで確定",
+});
+
+const CHECKS: VerificationCheck[] = [
+  {
+    name: "火災保険の金額を読み直した場合",
+    estimate: {
+      rent: field(80000, "賃料 80,000円"),
+      fire_insurance: field(20000, "火災保険 20,000円"),
+      line_items: [
+        { name: "賃料", value: field(80000, "80,000円") },
+        { name: "火災保険", value: field(20000, "20,000円") },
+      ],
+    },
+    verification: [confirmed("fire_insurance", 12000)],
+    expectPrices: { 火災保険: 12000 },
+    expectFields: { fire_insurance: 12000 },
+  },
+  {
+    name: "仲介手数料の金額を読み直した場合",
+    estimate: {
+      rent: field(80000, "賃料 80,000円"),
+      brokerage_fee: field(176000, "仲介手数料 176,000円"),
+      line_items: [
+        { name: "賃料", value: field(80000, "80,000円") },
+        { name: "仲介手数料", value: field(176000, "176,000円") },
+      ],
+    },
+    verification: [confirmed("brokerage_fee", 88000)],
+    expectPrices: { 仲介手数料: 88000 },
+    expectFields: { brokerage_fee: 88000 },
+  },
+  {
+    name: "固定フィールドが空で明細行から補完していた場合",
+    estimate: {
+      rent: field(80000, "賃料 80,000円"),
+      line_items: [
+        { name: "賃料", value: field(80000, "80,000円") },
+        { name: "鍵交換費用", value: field(25000, "25,000円") },
+      ],
+    },
+    verification: [confirmed("key_exchange", 16500)],
+    expectPrices: { 鍵交換費用: 16500 },
+    expectFields: { key_exchange: null },
+  },
+  {
+    name: "同じ規則に当たる明細行が複数ある場合（火災保険と家財保険）",
+    estimate: {
+      rent: field(80000, "賃料 80,000円"),
+      fire_insurance: field(20000, "火災保険 20,000円"),
+      line_items: [
+        { name: "賃料", value: field(80000, "80,000円") },
+        { name: "家財保険", value: field(15000, "15,000円") },
+        { name: "火災保険", value: field(20000, "20,000円") },
+      ],
+    },
+    verification: [confirmed("fire_insurance", 12000)],
+    expectPrices: { 火災保険: 12000, 家財保険: 15000 },
+    expectFields: { fire_insurance: 12000 },
+  },
+  {
+    name: "固定フィールドが空で同じ規則の明細行が複数ある場合",
+    estimate: {
+      rent: field(80000, "賃料 80,000円"),
+      line_items: [
+        { name: "賃料", value: field(80000, "80,000円") },
+        { name: "24時間サポート", value: field(16500, "16,500円") },
+        { name: "安心サポート", value: field(11000, "11,000円") },
+      ],
+    },
+    verification: [confirmed("support_service", 15400)],
+    expectPrices: { "24時間サポート": 15400, 安心サポート: 11000 },
+    expectFields: { support_service: null },
+  },
+];
+
+let failures = 0;
+for (const check of CHECKS) {
+  try {
+    const extraction = applyVerificationResults(
+      normalizeExtractionResult({ estimate: check.estimate }, false),
+      check.verification
+    );
+    const result = diagnose(extraction, { verification: check.verification });
+
+    for (const [name, price] of Object.entries(check.expectPrices)) {
+      const item = result.items.find((candidate) => candidate.name === name);
+      assert.ok(item, `診断結果に「${name}」がありません`);
+      assert.equal(item.price_original, price, `「${name}」の請求金額`);
+    }
+    for (const [key, value] of Object.entries(check.expectFields ?? {})) {
+      const actual = (extraction.estimate as unknown as Record<string, { value: unknown }>)[key].value;
+      assert.equal(actual, value, `抽出JSONの ${key}`);
+    }
+    console.log(`✅ ${check.name}`);
+  } catch (error: any) {
+    failures++;
+    console.error(`❌ ${check.name}: ${error.message}`);
+  }
+}
+
+if (failures > 0) {
+  process.exitCode = 1;
+}
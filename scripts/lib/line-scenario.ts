@@ -0,0 +1,488 @@
+/**
+ * LINE Botの会話シナリオの再生
+ *
+ * 友だち追加 →「はい」→「相談したい」→ 相談内容 →「履歴」→「2」のような一連の会話（ボタンの postback を含む）を
+ * JSONのシナリオとして書き、Webhookと同じイベント処理（lib/line-webhook-events.ts の processLineWebhookEvents）で再生する。
+ * 1回のWebhookで複数のイベントが届く場合（batch）や、LINEからの再送（redeliver）も再生できる。
+ * KVは空のメモリKV（runWithMemoryKv）、LINEへの送信は記録するだけのクライアントを使うため、
+ * 本番のKV・LINEには影響しない。再生中のログ（console）は表示せずにレポートへ記録する。
+ *
+ * 各ステップの返信・会話状態と、最後の会話状態・アクティブ案件・スタッフ対応のチケットを期待値と照合する。
+ * シナリオは scenarios/line/*.json（npm run check:line-scenarios で実行、scripts/line-scenarios.ts）。
+ */
+
+import { format } from "node:util";
+import type { Message, MessageAPIResponseBase, WebhookEvent } from "@line/bot-sdk";
+import type { DiagnosisResult } from "@/lib/types";
+import {
+  createCase,
+  getActiveCase,
+  getConversationState,
+  linkCaseToUser,
+  listSupportTickets,
+  runWithMemoryKv,
+  setActiveCase,
+  type ConversationState,
+  type SupportTicket,
+} from "@/lib/kv";
+import { CONVERSATION_STEPS, type ConversationStep } from "@/lib/line-conversation";
+import { processLineWebhookEvents, type LineMessagingClient } from "@/lib/line-webhook-events";
+import { POSTBACK_ACTIONS, buildPostbackData, type PostbackActionName } from "@/lib/line-postback";
+
+// ========================================
+// シナリオの形式
+// ========================================
+
+export interface LineScenario {
+  name: string;
+  description?: string;
+  /** 送信するユーザー（省略時 U-scenario） */
+  userId?: string;
+  /** 事前にユーザーへ紐づける案件（「履歴」の順: 先頭が1番） */
+  cases?: LineScenarioCase[];
+  /** 事前のアクティブ案件（cases の key） */
+  activeCase?: string;
+  steps: LineScenarioStep[];
+  /** 全ステップ後の期待値 */
+  expectFinal?: LineScenarioFinalExpectation;
+}
+
+export interface LineScenarioCase {
+  /** 期待値で案件を指す名前（case_id は実行ごとに変わる） */
+  key: string;
+  result: Partial<DiagnosisResult>;
+}
+
+/** ユーザーの操作1件（Webhookイベント1件） */
+export type LineScenarioEvent =
+  | { event: "follow" }
+  | { event: "text"; text: string }
+  /** ボタン（case: ボタンの案件。cases の key） */
+  | { event: "postback"; action: PostbackActionName; case?: string };
+
+export type LineScenarioStep = (
+  | LineScenarioEvent
+  /** 1回のWebhookで複数のイベントを届ける（届いた順に処理される） */
+  | { event: "batch"; events: LineScenarioEvent[] }
+  /** 直前のステップのイベントを、LINEからの再送として同じ webhookEventId で届け直す */
+  | { event: "redeliver" }
+) & { expect?: LineScenarioStepExpectation };
+
+export interface LineScenarioStepExpectation {
+  /** 返信（件数も一致すること） */
+  replies?: LineScenarioReplyExpectation[];
+  /** 処理後の会話状態（null: 会話状態なし） */
+  state?: LineScenarioStateExpectation | null;
+  /** 見積書PDFを送信したか */
+  estimatePdfSent?: boolean;
+}
+
+export interface LineScenarioReplyExpectation {
+  type?: Message["type"];
+  /** 含まれるべき文字列（text は本文、flex・template は altText と中身） */
+  contains?: string | string[];
+}
+
+export interface LineScenarioStateExpectation {
+  step: ConversationStep;
+  /** 会話状態の案件（cases の key） */
+  case?: string;
+  purpose?: ConversationState["purpose"] | null;
+}
+
+export interface LineScenarioFinalExpectation {
+  state?: LineScenarioStateExpectation | null;
+  /** アクティブ案件（cases の key。null: なし） */
+  activeCase?: string | null;
+  /** 作成されたスタッフ対応のチケット（作成順。件数も一致すること） */
+  tickets?: LineScenarioTicketExpectation[];
+}
+
+export interface LineScenarioTicketExpectation {
+  type: SupportTicket["type"];
+  /** チケットの案件（cases の key） */
+  case?: string;
+  /** 相談内容に含まれるべき文字列 */
+  contains?: string;
+}
+
+// ========================================
+// 実行結果
+// ========================================
+
+export interface LineScenarioStepReport {
+  index: number;
+  input: string;
+  replies: Message[];
+  pushes: Message[];
+  state: ConversationState | null;
+  failures: string[];
+}
+
+export interface LineScenarioReport {
+  name: string;
+  passed: boolean;
+  steps: LineScenarioStepReport[];
+  /** 案件の準備・最後の期待値の不一致 */
+  failures: string[];
+  /** 再生中に出力されたログ */
+  logs: string[];
+}
+
+const DEFAULT_USER_ID = "U-scenario";
+
+/**
+ * JSONをシナリオとして検証
+ * @throws 形式が正しくない場合
+ */
+export function parseLineScenario(input: unknown): LineScenario {
+  if (!isRecord(input)) throw new Error("シナリオはオブジェクトで指定してください");
+  if (typeof input.name !== "string" || !input.name) throw new Error("name は必須です");
+  if (!Array.isArray(input.steps) || input.steps.length === 0) throw new Error(`${input.name}: steps は1件以上必要です`);
+
+  const caseKeys = new Set<string>();
+  if (input.cases !== undefined) {
+    if (!Array.isArray(input.cases)) throw new Error(`${input.name}: cases は配列で指定してください`);
+    for (const c of input.cases) {
+      if (!isRecord(c) || typeof c.key !== "string" || !isRecord(c.result)) {
+        throw new Error(`${input.name}: cases の各要素には key と result が必要です`);
+      }
+      caseKeys.add(c.key);
+    }
+  }
+  const checkCaseKey = (key: unknown, where: string) => {
+    if (key !== undefined && key !== null && (typeof key !== "string" || !caseKeys.has(key))) {
+      throw new Error(`${input.name}: ${where} の案件 "${String(key)}" が cases にありません`);
+    }
+  };
+  const checkState = (state: unknown, where: string) => {
+    if (state === undefined || state === null) return;
+    if (!isRecord(state) || !CONVERSATION_STEPS.includes(state.step as ConversationStep)) {
+      throw new Error(`${input.name}: ${where} の state.step が不正です`);
+    }
+    checkCaseKey(state.case, where);
+  };
+
+  const checkEvent = (event: unknown, where: string) => {
+    if (!isRecord(event) || !["follow", "text", "postback"].includes(event.event)) {
+      throw new Error(`${input.name}: ${where} の event は follow・text・postback のいずれかで指定してください`);
+    }
+    if (event.event === "text" && (typeof event.text !== "string" || !event.text.trim())) {
+      throw new Error(`${input.name}: ${where} の text が空です`);
+    }
+    if (event.event === "postback") {
+      if (typeof event.action !== "string" || !Object.hasOwn(POSTBACK_ACTIONS, event.action)) {
+        throw new Error(`${input.name}: ${where} の action "${String(event.action)}" は postback のアクションではありません`);
+      }
+      checkCaseKey(event.case, where);
+    }
+  };
+
+  checkCaseKey(input.activeCase, "activeCase");
+  input.steps.forEach((step, index) => {
+    const where = `steps[${index}]`;
+    if (isRecord(step) && step.event === "batch") {
+      if (!Array.isArray(step.events) || step.events.length === 0) {
+        throw new Error(`${input.name}: ${where} の events は1件以上必要です`);
+      }
+      step.events.forEach((event: unknown, eventIndex: number) => checkEvent(event, `${where}.events[${eventIndex}]`));
+    } else if (isRecord(step) && step.event === "redeliver") {
+      if (index === 0) throw new Error(`${input.name}: ${where} の redeliver は2番目以降のステップで指定してください`);
+    } else {
+      checkEvent(step, where);
+    }
+    if (step.expect !== undefined) {
+      if (!isRecord(step.expect)) throw new Error(`${input.name}: ${where} の expect が不正です`);
+      if (step.expect.replies !== undefined && !Array.isArray(step.expect.replies)) {
+        throw new Error(`${input.name}: ${where} の expect.replies は配列で指定してください`);
+      }
+      checkState(step.expect.state, where);
+    }
+  });
+  if (input.expectFinal !== undefined) {
+    if (!isRecord(input.expectFinal)) throw new Error(`${input.name}: expectFinal が不正です`);
+    checkState(input.expectFinal.state, "expectFinal");
+    checkCaseKey(input.expectFinal.activeCase, "expectFinal");
+    if (input.expectFinal.tickets !== undefined) {
+      if (!Array.isArray(input.expectFinal.tickets)) throw new Error(`${input.name}: expectFinal.tickets は配列で指定してください`);
+      input.expectFinal.tickets.forEach((ticket: unknown) => {
+        if (!isRecord(ticket) || (ticket.type !== "consultation" && ticket.type !== "application")) {
+          throw new Error(`${input.name}: expectFinal.tickets の type は consultation か application で指定してください`);
+        }
+        checkCaseKey(ticket.case, "expectFinal.tickets");
+      });
+    }
+  }
+
+  return input as unknown as LineScenario;
+}
+
+/**
+ * シナリオを再生して期待値と照合
+ */
+export async function runLineScenario(scenario: LineScenario, origin: string): Promise<LineScenarioReport> {
+  const logs: string[] = [];
+  return await captureConsole(logs, () => runWithMemoryKv(async () => {
+    const userId = scenario.userId || DEFAULT_USER_ID;
+    const report: LineScenarioReport = { name: scenario.name, passed: false, steps: [], failures: [], logs };
+
+    // 案件の準備（後から紐づけた案件が履歴の先頭になるため逆順に作成）
+    const caseIds = new Map<string, string>();
+    try {
+      for (const c of [...(scenario.cases ?? [])].reverse()) {
+        const caseId = await createCase(c.result);
+        await linkCaseToUser(caseId, userId);
+        caseIds.set(c.key, caseId);
+      }
+      if (scenario.activeCase) {
+        await setActiveCase(userId, caseIds.get(scenario.activeCase)!);
+      }
+    } catch (error: any) {
+      report.failures.push(`案件の準備に失敗しました: ${error.message}`);
+      return report;
+    }
+    const caseKeyOf = (caseId: string | null | undefined) =>
+      [...caseIds].find(([, id]) => id === caseId)?.[0] ?? caseId ?? null;
+
+    const client = createRecordingClient();
+    let pdfSent = 0;
+    let previous: { input: string; events: WebhookEvent[] } = { input: "", events: [] };
+
+    for (const [index, step] of scenario.steps.entries()) {
+      const delivery =
+        step.event === "redeliver"
+          ? { input: `(再送) ${previous.input}`, events: previous.events.map(asRedelivery) }
+          : step.event === "batch"
+            ? {
+                input: step.events.map(describeEvent).join(" + "),
+                events: step.events.map((event, eventIndex) => buildEvent(event, userId, `${index}-${eventIndex}`, caseIds)),
+              }
+            : { input: describeEvent(step), events: [buildEvent(step, userId, String(index), caseIds)] };
+      const pdfSentBefore = pdfSent;
+      const failures: string[] = [];
+      client.reset();
+
+      try {
+        await processLineWebhookEvents(delivery.events, {
+          client,
+          origin,
+          sendEstimatePdf: async () => {
+            pdfSent += 1;
+            return true;
+          },
+        });
+      } catch (error: any) {
+        failures.push(`イベント処理でエラー: ${error.message}`);
+      }
+      previous = delivery;
+      const input = delivery.input;
+
+      const state = await getConversationState(userId);
+      const expect = step.expect;
+      if (expect?.replies) {
+        failures.push(...checkReplies(client.replies, expect.replies));
+      }
+      if (expect?.state !== undefined) {
+        failures.push(...checkState(state, expect.state, caseKeyOf));
+      }
+      if (expect?.estimatePdfSent !== undefined && expect.estimatePdfSent !== pdfSent > pdfSentBefore) {
+        failures.push(expect.estimatePdfSent ? "見積書PDFが送信されませんでした" : "見積書PDFが送信されました");
+      }
+
+      report.steps.push({ index, input, replies: client.replies, pushes: client.pushes, state, failures });
+    }
+
+    const final = scenario.expectFinal;
+    if (final?.state !== undefined) {
+      const state = await getConversationState(userId);
+      report.failures.push(...checkState(state, final.state, caseKeyOf).map((failure) => `最後の${failure}`));
+    }
+    if (final?.activeCase !== undefined) {
+      const activeKey = caseKeyOf((await getActiveCase(userId))?.case_id);
+      if (activeKey !== final.activeCase) {
+        report.failures.push(`最後のアクティブ案件: 期待 ${final.activeCase ?? "なし"}、実際 ${activeKey ?? "なし"}`);
+      }
+    }
+
+    if (final?.tickets) {
+      const tickets = (await listSupportTickets()).reverse();
+      report.failures.push(...checkTickets(tickets, final.tickets, caseKeyOf));
+    }
+
+    report.passed = report.failures.length === 0 && report.steps.every((step) => step.failures.length === 0);
+    return report;
+  }));
+}
+
+/**
+ * 処理中の console 出力を表示せずに logs へ記録
+ */
+async function captureConsole<T>(logs: string[], fn: () => Promise<T>): Promise<T> {
+  const methods = ["log", "info", "warn", "error"] as const;
+  const originals = methods.map((method) => console[method]);
+  for (const method of methods) {
+    console[method] = (...args: unknown[]) => {
+      logs.push(format(...args));
+    };
+  }
+  try {
+    return await fn();
+  } finally {
+    methods.forEach((method, index) => {
+      console[method] = originals[index];
+    });
+  }
+}
+
+// ========================================
+// 再生用のイベント・クライアント
+// ========================================
+
+function buildEvent(event: LineScenarioEvent, userId: string, id: string, caseIds: Map<string, string>): WebhookEvent {
+  const base = {
+    mode: "active" as const,
+    timestamp: Date.now(),
+    source: { type: "user" as const, userId },
+    webhookEventId: `scenario-event-${id}`,
+    deliveryContext: { isRedelivery: false },
+    replyToken: `scenario-reply-${id}`,
+  };
+  if (event.event === "follow") {
+    return { ...base, type: "follow" };
+  }
+  if (event.event === "postback") {
+    return {
+      ...base,
+      type: "postback",
+      postback: { data: buildPostbackData(event.action, event.case ? caseIds.get(event.case) : undefined) },
+    };
+  }
+  return {
+    ...base,
+    type: "message",
+    message: { type: "text", id: `scenario-message-${id}`, text: event.text, quoteToken: `scenario-quote-${id}` },
+  };
+}
+
+/** LINEからの再送（webhookEventId は同じで、replyToken は新しい） */
+function asRedelivery(event: WebhookEvent): WebhookEvent {
+  return {
+    ...event,
+    deliveryContext: { isRedelivery: true },
+    ...("replyToken" in event ? { replyToken: `${event.replyToken}-redelivery` } : {}),
+  } as WebhookEvent;
+}
+
+function describeEvent(event: LineScenarioEvent): string {
+  return event.event === "follow" ? "(友だち追加)" : event.event === "postback" ? `(ボタン) ${event.action}` : event.text;
+}
+
+/** 送信内容を記録するだけのLINEクライアント */
+function createRecordingClient(): LineMessagingClient & { replies: Message[]; pushes: Message[]; reset(): void } {
+  const toArray = (messages: Message | Message[]) => (Array.isArray(messages) ? messages : [messages]);
+  const response: MessageAPIResponseBase = {};
+  return {
+    replies: [],
+    pushes: [],
+    reset() {
+      this.replies = [];
+      this.pushes = [];
+    },
+    async replyMessage(_replyToken, messages) {
+      this.replies.push(...toArray(messages));
+      return response;
+    },
+    async pushMessage(_to, messages) {
+      this.pushes.push(...toArray(messages));
+      return response;
+    },
+    async getMessageContent() {
+      throw new Error("シナリオでは画像メッセージを再生できません");
+    },
+  };
+}
+
+// ========================================
+// 期待値との照合
+// ========================================
+
+function checkReplies(actual: Message[], expected: LineScenarioReplyExpectation[]): string[] {
+  const failures: string[] = [];
+  if (actual.length !== expected.length) {
+    failures.push(`返信の件数: 期待 ${expected.length}件、実際 ${actual.length}件（${actual.map(describeMessage).join(" / ") || "なし"}）`);
+  }
+  expected.forEach((expectation, index) => {
+    const message = actual[index];
+    if (!message) return;
+    if (expectation.type && message.type !== expectation.type) {
+      failures.push(`返信${index + 1}の種類: 期待 ${expectation.type}、実際 ${message.type}`);
+    }
+    const searchable = message.type === "text" ? message.text : JSON.stringify(message);
+    const contains = typeof expectation.contains === "string" ? [expectation.contains] : expectation.contains ?? [];
+    for (const fragment of contains) {
+      if (!searchable.includes(fragment)) {
+        failures.push(`返信${index + 1}に「${fragment}」が含まれていません（${describeMessage(message)}）`);
+      }
+    }
+  });
+  return failures;
+}
+
+function checkState(
+  actual: ConversationState | null,
+  expected: LineScenarioStateExpectation | null,
+  caseKeyOf: (caseId: string | null | undefined) => string | null
+): string[] {
+  if (expected === null) {
+    return actual ? [`会話状態: 期待 なし、実際 ${actual.step}`] : [];
+  }
+  if (!actual) {
+    return [`会話状態: 期待 ${expected.step}、実際 なし`];
+  }
+
+  const failures: string[] = [];
+  if (actual.step !== expected.step) {
+    failures.push(`会話状態: 期待 ${expected.step}、実際 ${actual.step}`);
+  }
+  if (expected.case !== undefined && caseKeyOf(actual.case_id) !== expected.case) {
+    failures.push(`会話状態の案件: 期待 ${expected.case}、実際 ${caseKeyOf(actual.case_id)}`);
+  }
+  if (expected.purpose !== undefined && (actual.purpose ?? null) !== expected.purpose) {
+    failures.push(`会話状態の用途: 期待 ${expected.purpose ?? "なし"}、実際 ${actual.purpose ?? "なし"}`);
+  }
+  return failures;
+}
+
+function checkTickets(
+  actual: SupportTicket[],
+  expected: LineScenarioTicketExpectation[],
+  caseKeyOf: (caseId: string | null | undefined) => string | null
+): string[] {
+  const failures: string[] = [];
+  if (actual.length !== expected.length) {
+    failures.push(`チケットの件数: 期待 ${expected.length}件、実際 ${actual.length}件`);
+  }
+  expected.forEach((expectation, index) => {
+    const ticket = actual[index];
+    if (!ticket) return;
+    if (ticket.type !== expectation.type) {
+      failures.push(`チケット${index + 1}の種類: 期待 ${expectation.type}、実際 ${ticket.type}`);
+    }
+    if (expectation.case !== undefined && caseKeyOf(ticket.case_id) !== expectation.case) {
+      failures.push(`チケット${index + 1}の案件: 期待 ${expectation.case}、実際 ${caseKeyOf(ticket.case_id)}`);
+    }
+    if (expectation.contains && !(ticket.message ?? "").includes(expectation.contains)) {
+      failures.push(`チケット${index + 1}の相談内容に「${expectation.contains}」が含まれていません`);
+    }
+  });
+  return failures;
+}
+
+function describeMessage(message: Message): string {
+  const summary = message.type === "text" ? message.text : "altText" in message ? `[${message.type}] ${message.altText}` : `[${message.type}]`;
+  return summary.length > 40 ? `${summary.slice(0, 40)}…` : summary;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
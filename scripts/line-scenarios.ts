@@ -0,0 +1,72 @@
+/**
+ * LINE会話シナリオの再生（LINEアプリ・本番のKV不要）
+ *
+ * npm run check:line-scenarios                     # scenarios/line のシナリオをすべて再生
+ * npm run check:line-scenarios -- path/to/x.json   # 指定したシナリオだけ再生
+ *
+ * Webhookと同じイベント処理で会話を再生し、返信と会話状態を期待値と照合する（scripts/lib/line-scenario.ts）。
+ * KVは実行ごとの空のメモリKV、LINEへの送信は記録のみ。失敗したシナリオだけ再生中のログを表示する。
+ * 結果カード画像のURLには LINE_SCENARIO_ORIGIN（省略時 http://localhost:3000）を使い、
+ * URLの署名には LINE_CHANNEL_SECRET（省略時は再生用の仮の値）を使う。
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseLineScenario, runLineScenario, type LineScenario } from "./lib/line-scenario";
+
+const SCENARIO_DIR = path.join(process.cwd(), "scenarios", "line");
+
+function listScenarioFiles(args: string[]): string[] {
+  if (args.length > 0) return args.map((arg) => path.resolve(arg));
+  return fs
+    .readdirSync(SCENARIO_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => path.join(SCENARIO_DIR, file));
+}
+
+async function main() {
+  const origin = process.env.LINE_SCENARIO_ORIGIN || "http://localhost:3000";
+  process.env.LINE_CHANNEL_SECRET ||= "line-scenario";
+
+  let scenarios: LineScenario[];
+  try {
+    scenarios = listScenarioFiles(process.argv.slice(2)).map((file) =>
+      parseLineScenario(JSON.parse(fs.readFileSync(file, "utf8")))
+    );
+  } catch (error: any) {
+    console.error(`❌ シナリオの形式が正しくありません: ${error.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let failed = 0;
+  for (const scenario of scenarios) {
+    const report = await runLineScenario(scenario, origin);
+    console.log(`${report.passed ? "✅" : "❌"} ${report.name}`);
+    if (report.passed) continue;
+
+    failed++;
+    for (const step of report.steps) {
+      for (const failure of step.failures) {
+        console.log(`   ${step.index + 1}.「${step.input}」: ${failure}`);
+      }
+    }
+    for (const failure of report.failures) {
+      console.log(`   ${failure}`);
+    }
+    if (report.logs.length > 0) {
+      console.log("   --- ログ ---");
+      for (const log of report.logs) {
+        console.log(`   ${log.replace(/\n/g, "\n   ")}`);
+      }
+    }
+  }
+
+  console.log(`\n${scenarios.length - failed}/${scenarios.length} passed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();